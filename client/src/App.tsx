@@ -8,6 +8,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { useSubscription } from "@/hooks/useSubscription";
 import Home from "@/pages/Home";
 import Landing from "@/pages/Landing";
+import Admin from "@/pages/Admin";
 
 import NotFound from "@/pages/not-found";
 import { isUnauthorizedError } from "@/lib/authUtils";
@@ -16,6 +17,7 @@ import { useEffect } from "react";
 
 function AuthenticatedApp() {
   const [content, setContent] = useState("");
+  const { isAdmin } = useAuth();
 
   return (
     <Switch>
@@ -25,6 +27,7 @@ function AuthenticatedApp() {
           setContent={setContent}
         />
       </Route>
+      {isAdmin && <Route path="/admin" component={Admin} />}
       <Route component={NotFound} />
     </Switch>
   );
@@ -69,7 +72,7 @@ function Router() {
       {!isAuthenticated ? (
         <Route path="/" component={Landing} />
       ) : (
-        <Route path="/" component={AuthenticatedApp} />
+        <Route component={AuthenticatedApp} />
       )}
       <Route component={NotFound} />
     </Switch>
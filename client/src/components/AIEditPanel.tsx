@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Loader2, Sparkles, X } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { quotaExceededFrom } from "@/lib/quotaUtils";
+import { useToast } from "@/hooks/use-toast";
+import type { ScriptEditOperation } from "@shared/schema";
+import { applyEditHunks, type ScriptEditResult } from "@shared/scriptEdits";
+import { stripCues } from "@shared/cues";
+
+const operations: { value: ScriptEditOperation; label: string }[] = [
+  { value: "shorten", label: "Shorten to..." },
+  { value: "expand", label: "Expand" },
+  { value: "simplify", label: "Simplify reading level" },
+  { value: "conversational", label: "Make more conversational" },
+  { value: "fix_tongue_twisters", label: "Fix tongue-twisters" },
+];
+
+interface AIEditPanelProps {
+  content: string;
+  selection: { start: number; end: number };
+  onApply: (content: string) => void;
+  onTrialExpired?: () => void;
+}
+
+// Rewrites the selected passage with one of the structured AI operations, then lets the
+// user accept or reject each changed run of sentences before applying them to the script
+export function AIEditPanel({ content, selection, onApply, onTrialExpired }: AIEditPanelProps) {
+  const { toast } = useToast();
+  const [operation, setOperation] = useState<ScriptEditOperation>("simplify");
+  const [targetSeconds, setTargetSeconds] = useState("30");
+  // The script the suggestion was made on; its hunks only apply to that exact text
+  const [suggestion, setSuggestion] = useState<{ content: string; result: ScriptEditResult } | null>(null);
+  const [accepted, setAccepted] = useState<Set<number>>(new Set());
+
+  const selectedText = content.slice(selection.start, selection.end);
+  const selectedWords = stripCues(selectedText).split(/\s+/).filter(Boolean).length;
+
+  const editSelection = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/edit-script-selection", {
+        content,
+        selectionStart: selection.start,
+        selectionEnd: selection.end,
+        operation,
+        targetSeconds: operation === "shorten" ? parseInt(targetSeconds) || undefined : undefined,
+      });
+      return { content, result: (await response.json()) as ScriptEditResult };
+    },
+    onSuccess: (data) => {
+      if (data.result.hunks.length === 0) {
+        toast({ title: "No Changes Suggested", description: "The AI left the selection as it was." });
+        return;
+      }
+      setSuggestion(data);
+      setAccepted(new Set(data.result.hunks.map((hunk) => hunk.id)));
+    },
+    onError: (error: any) => {
+      const quotaExceeded = quotaExceededFrom(error);
+      if (quotaExceeded) {
+        toast({ title: "Monthly Allowance Used", description: quotaExceeded.message, variant: "destructive" });
+      } else if (error.message.includes("60-minute trial limit")) {
+        onTrialExpired?.();
+      } else {
+        toast({ title: "Edit Failed", description: error.message, variant: "destructive" });
+      }
+    },
+  });
+
+  const toggleHunk = (id: number) => {
+    setAccepted((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const applySuggestion = () => {
+    if (!suggestion) return;
+    onApply(applyEditHunks(suggestion.content, suggestion.result.hunks, accepted));
+    setSuggestion(null);
+  };
+
+  const isStale = suggestion !== null && suggestion.content !== content;
+
+  return (
+    <div className="mt-6 p-4 border border-purple-200 rounded-2xl bg-purple-50/40 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Sparkles className="h-4 w-4 text-purple-600" />
+        <span className="font-medium text-gray-900">AI Edit</span>
+        <span className="text-sm text-gray-500">
+          {selectedWords > 0 ? `${selectedWords} words selected` : "Select text in the editor to edit it with AI"}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={operation} onValueChange={(value) => setOperation(value as ScriptEditOperation)}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {operations.map((op) => (
+              <SelectItem key={op.value} value={op.value}>
+                {op.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {operation === "shorten" && (
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              min="5"
+              max="3600"
+              className="w-20"
+              value={targetSeconds}
+              onChange={(e) => setTargetSeconds(e.target.value)}
+            />
+            <span className="text-sm text-gray-500">seconds</span>
+          </div>
+        )}
+        <Button
+          onClick={() => editSelection.mutate()}
+          disabled={!selectedText.trim() || editSelection.isPending}
+          className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
+        >
+          {editSelection.isPending ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Editing...
+            </>
+          ) : (
+            "Edit Selection"
+          )}
+        </Button>
+      </div>
+
+      {suggestion && (
+        <div className="space-y-3">
+          {isStale ? (
+            <p className="text-sm text-amber-700">
+              The script has changed since this suggestion was made, so it can no longer be applied.
+            </p>
+          ) : (
+            suggestion.result.hunks.map((hunk) => {
+              const isAccepted = accepted.has(hunk.id);
+              return (
+                <div key={hunk.id} className="flex gap-3 p-3 bg-white border border-gray-200 rounded-lg">
+                  <div className="flex-1 text-sm whitespace-pre-wrap space-y-1">
+                    {hunk.before && <p className="bg-red-50 text-red-800 line-through">{hunk.before}</p>}
+                    {hunk.after && <p className="bg-green-50 text-green-800">{hunk.after}</p>}
+                  </div>
+                  <div className="flex flex-col gap-1">
+                    <Button
+                      size="sm"
+                      variant={isAccepted ? "default" : "outline"}
+                      onClick={() => !isAccepted && toggleHunk(hunk.id)}
+                    >
+                      <Check className="h-3 w-3 mr-1" />
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={isAccepted ? "outline" : "destructive"}
+                      onClick={() => isAccepted && toggleHunk(hunk.id)}
+                    >
+                      <X className="h-3 w-3 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setSuggestion(null)}>
+              Discard
+            </Button>
+            {!isStale && (
+              <Button onClick={applySuggestion} disabled={accepted.size === 0}>
+                Apply {accepted.size} of {suggestion.result.hunks.length} changes
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,24 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Sparkles, Wand2, Crown, Loader2 } from "lucide-react";
+import { Sparkles, Wand2, Crown, Loader2, Square, Settings2 } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { readEventStream } from "@/lib/eventStream";
+import { quotaExceededFrom } from "@/lib/quotaUtils";
 import { useToast } from "@/hooks/use-toast";
 import { useSubscription } from "@/hooks/useSubscription";
+import { useScriptTemplates } from "@/hooks/useScriptTemplates";
+import { ScriptTemplateManager } from "@/components/ScriptTemplateManager";
+import { builtInScriptTemplate, builtInScriptTemplates, scriptTones, toneLabels } from "@shared/scriptTemplates";
 
 interface ScriptGenerationForm {
-  scriptType: string;
+  scriptType: string; // a built-in script type, or "template:<id>" for a saved template
   topic: string;
   duration: number;
   tone: string;
@@ -22,24 +27,7 @@ interface ScriptGenerationForm {
   additionalInstructions: string;
 }
 
-const scriptTypes = [
-  { value: "news", label: "News Report" },
-  { value: "presentation", label: "Business Presentation" },
-  { value: "keynote", label: "Keynote Speech" },
-  { value: "wedding", label: "Wedding Speech" },
-  { value: "comedy", label: "Comedy Set" },
-  { value: "business", label: "Business Address" },
-  { value: "awards", label: "Awards Ceremony" },
-];
-
-const tones = [
-  { value: "professional", label: "Professional" },
-  { value: "friendly", label: "Friendly" },
-  { value: "formal", label: "Formal" },
-  { value: "casual", label: "Casual" },
-  { value: "inspirational", label: "Inspirational" },
-  { value: "humorous", label: "Humorous" },
-];
+const TEMPLATE_PREFIX = "template:";
 
 const audiences = [
   { value: "general", label: "General Audience" },
@@ -58,6 +46,8 @@ interface AIScriptAssistantProps {
 export function AIScriptAssistant({ onScriptGenerated, onTrialExpired }: AIScriptAssistantProps) {
   const { toast } = useToast();
   const { canUseFeature, needsUpgrade } = useSubscription();
+  const { data: templates = [] } = useScriptTemplates();
+  const [isTemplateManagerOpen, setIsTemplateManagerOpen] = useState(false);
   
   const [form, setForm] = useState<ScriptGenerationForm>({
     scriptType: "",
@@ -74,14 +64,46 @@ export function AIScriptAssistant({ onScriptGenerated, onTrialExpired }: AIScrip
     instructions: "",
   });
 
+  // The script streams in from the server; streamedScript holds what has arrived so far
+  const [streamedScript, setStreamedScript] = useState("");
+  const generationRef = useRef<AbortController | null>(null);
+
   const generateScript = useMutation({
     mutationFn: async (data: ScriptGenerationForm) => {
       const keyPoints = data.keyPoints ? data.keyPoints.split(',').map(p => p.trim()).filter(Boolean) : [];
-      const response = await apiRequest("POST", "/api/generate-script", {
-        ...data,
+      const controller = new AbortController();
+      generationRef.current = controller;
+      setStreamedScript("");
+
+      const { scriptType, ...fields } = data;
+      const type = scriptType.startsWith(TEMPLATE_PREFIX)
+        ? { templateId: parseInt(scriptType.slice(TEMPLATE_PREFIX.length)) }
+        : { scriptType };
+      const response = await apiRequest("POST", "/api/generate-script/stream", {
+        ...fields,
+        ...type,
         keyPoints,
+      }, controller.signal);
+
+      let result = null as { script: string } | null;
+      await readEventStream(response, ({ event, data }) => {
+        const payload = JSON.parse(data);
+        if (event === "token") {
+          setStreamedScript((script) => script + payload.text);
+        } else if (event === "done") {
+          result = { script: payload.script };
+        } else if (event === "error") {
+          throw new Error(payload.message);
+        }
       });
-      return response.json();
+      if (!result) {
+        throw new Error("The connection closed before the script was finished");
+      }
+      return result;
+    },
+    onSettled: () => {
+      generationRef.current = null;
+      setStreamedScript("");
     },
     onSuccess: (data) => {
       onScriptGenerated(data.script);
@@ -91,7 +113,16 @@ export function AIScriptAssistant({ onScriptGenerated, onTrialExpired }: AIScrip
       });
     },
     onError: (error: any) => {
-      if (error.message.includes("60-minute trial limit")) {
+      const quotaExceeded = quotaExceededFrom(error);
+      if (error.name === "AbortError") {
+        // Stopped by the user
+      } else if (quotaExceeded) {
+        toast({
+          title: "Monthly Allowance Used",
+          description: quotaExceeded.message,
+          variant: "destructive",
+        });
+      } else if (error.message.includes("60-minute trial limit")) {
         // Handle trial expired
         onTrialExpired?.();
       } else if (error.message.includes("upgrade")) {
@@ -124,7 +155,14 @@ export function AIScriptAssistant({ onScriptGenerated, onTrialExpired }: AIScrip
       setImproveForm({ content: "", instructions: "" });
     },
     onError: (error: any) => {
-      if (error.message.includes("60-minute trial limit")) {
+      const quotaExceeded = quotaExceededFrom(error);
+      if (quotaExceeded) {
+        toast({
+          title: "Monthly Allowance Used",
+          description: quotaExceeded.message,
+          variant: "destructive",
+        });
+      } else if (error.message.includes("60-minute trial limit")) {
         // Handle trial expired
         onTrialExpired?.();
       } else if (error.message.includes("upgrade")) {
@@ -156,6 +194,14 @@ export function AIScriptAssistant({ onScriptGenerated, onTrialExpired }: AIScrip
     generateScript.mutate(form);
   };
 
+  // Picking a script type switches to its default tone, if it has one
+  const handleScriptTypeChange = (scriptType: string) => {
+    const defaultTone = scriptType.startsWith(TEMPLATE_PREFIX)
+      ? templates.find((template) => `${TEMPLATE_PREFIX}${template.id}` === scriptType)?.defaultTone
+      : builtInScriptTemplate(scriptType)?.defaultTone;
+    setForm({ ...form, scriptType, tone: defaultTone ?? form.tone });
+  };
+
   const handleImprove = (e: React.FormEvent) => {
     e.preventDefault();
     if (!improveForm.content || !improveForm.instructions) {
@@ -218,17 +264,42 @@ export function AIScriptAssistant({ onScriptGenerated, onTrialExpired }: AIScrip
           <form onSubmit={handleGenerate} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
-                <Label htmlFor="scriptType">Script Type</Label>
-                <Select value={form.scriptType} onValueChange={(value) => setForm({ ...form, scriptType: value })}>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="scriptType">Script Type</Label>
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-purple-600"
+                    onClick={() => setIsTemplateManagerOpen(true)}
+                  >
+                    <Settings2 className="h-3 w-3 mr-1" />
+                    Templates
+                  </Button>
+                </div>
+                <Select value={form.scriptType} onValueChange={handleScriptTypeChange}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select script type" />
                   </SelectTrigger>
                   <SelectContent>
-                    {scriptTypes.map((type) => (
-                      <SelectItem key={type.value} value={type.value}>
-                        {type.label}
-                      </SelectItem>
-                    ))}
+                    <SelectGroup>
+                      <SelectLabel>Built-in</SelectLabel>
+                      {builtInScriptTemplates.map((template) => (
+                        <SelectItem key={template.scriptType} value={template.scriptType}>
+                          {template.name}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                    {templates.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Your templates</SelectLabel>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={`${TEMPLATE_PREFIX}${template.id}`}>
+                            {template.name}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
                   </SelectContent>
                 </Select>
               </div>
@@ -264,9 +335,9 @@ export function AIScriptAssistant({ onScriptGenerated, onTrialExpired }: AIScrip
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {tones.map((tone) => (
-                      <SelectItem key={tone.value} value={tone.value}>
-                        {tone.label}
+                    {scriptTones.map((tone) => (
+                      <SelectItem key={tone} value={tone}>
+                        {toneLabels[tone]}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -311,23 +382,37 @@ export function AIScriptAssistant({ onScriptGenerated, onTrialExpired }: AIScrip
               />
             </div>
 
-            <Button
-              type="submit"
-              disabled={!canUseAI || generateScript.isPending}
-              className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
-            >
-              {generateScript.isPending ? (
-                <>
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Generating Script...
-                </>
-              ) : (
-                <>
-                  <Wand2 className="h-4 w-4 mr-2" />
-                  Generate Script
-                </>
+            {generateScript.isPending && streamedScript && (
+              <div className="max-h-64 overflow-y-auto p-3 border border-purple-200 bg-purple-50/50 rounded-lg text-sm text-gray-800 whitespace-pre-wrap">
+                {streamedScript}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                disabled={!canUseAI || generateScript.isPending}
+                className="flex-1 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
+              >
+                {generateScript.isPending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Generating Script...
+                  </>
+                ) : (
+                  <>
+                    <Wand2 className="h-4 w-4 mr-2" />
+                    Generate Script
+                  </>
+                )}
+              </Button>
+              {generateScript.isPending && (
+                <Button type="button" variant="outline" onClick={() => generationRef.current?.abort()}>
+                  <Square className="h-4 w-4 mr-2" />
+                  Stop
+                </Button>
               )}
-            </Button>
+            </div>
           </form>
         </CardContent>
       </Card>
@@ -387,6 +472,8 @@ export function AIScriptAssistant({ onScriptGenerated, onTrialExpired }: AIScrip
           </form>
         </CardContent>
       </Card>
+
+      <ScriptTemplateManager isOpen={isTemplateManagerOpen} onClose={() => setIsTemplateManagerOpen(false)} />
     </div>
   );
 }
\ No newline at end of file
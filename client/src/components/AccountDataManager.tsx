@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Database, Download, Trash2, Loader2 } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const CONFIRMATION = "DELETE";
+
+export function AccountDataManager() {
+  const { toast } = useToast();
+  const [confirmation, setConfirmation] = useState("");
+
+  const exportData = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("GET", "/api/account/export");
+      const filename = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? "teleprompter-export.zip";
+      return { blob: await response.blob(), filename };
+    },
+    onSuccess: ({ blob, filename }) => {
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error) => {
+      toast({ title: "Could not export your data", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteAccount = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/account", { confirm: confirmation });
+    },
+    onSuccess: () => {
+      // The session is gone, so start over from the landing page
+      window.location.href = "/";
+    },
+    onError: (error) => {
+      toast({ title: "Could not delete your account", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="max-w-4xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="h-5 w-5 text-blue-600" />
+          Your Data
+        </CardTitle>
+        <CardDescription>
+          Download everything we store about you, or delete your account for good.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-gray-600">
+            A ZIP file with your account, settings, script history and usage as JSON, and every script as a text file.
+          </p>
+          <Button variant="outline" onClick={() => exportData.mutate()} disabled={exportData.isPending}>
+            {exportData.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Export data
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 pt-6 border-t">
+          <p className="text-sm text-gray-600">
+            Cancels your subscription, deletes your scripts and settings, and signs you out on every device.
+          </p>
+          <AlertDialog onOpenChange={() => setConfirmation("")}>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" className="text-red-600 border-red-200 hover:text-red-700 hover:bg-red-50">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete account
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This can't be undone. Any paid subscription ends immediately without a refund, and teams
+                  where you are the only member are deleted too. Scripts you wrote for other teams stay with them.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="delete-account-confirmation">Type {CONFIRMATION} to confirm</Label>
+                <Input
+                  id="delete-account-confirmation"
+                  autoComplete="off"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                />
+              </div>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={(e) => {
+                    e.preventDefault();
+                    deleteAccount.mutate();
+                  }}
+                  disabled={confirmation !== CONFIRMATION || deleteAccount.isPending}
+                  className="bg-red-600 hover:bg-red-700"
+                >
+                  {deleteAccount.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Delete account
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { KeyRound, Copy, Trash2, Loader2 } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ApiTokenScope } from "@shared/schema";
+
+interface ApiToken {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const scopes: { value: ApiTokenScope; label: string; description: string }[] = [
+  { value: "scripts:read", label: "Read scripts", description: "List, search and download scripts" },
+  { value: "scripts:write", label: "Write scripts", description: "Create, update and delete scripts and folders" },
+  { value: "settings", label: "Settings", description: "Read and change teleprompter settings" },
+];
+
+const expiryOptions = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString("en-GB", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export function ApiTokensManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [selectedScopes, setSelectedScopes] = useState<ApiTokenScope[]>(["scripts:read"]);
+  const [expiry, setExpiry] = useState("90");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<ApiToken[]>({
+    queryKey: ["/api/tokens"],
+    retry: false,
+  });
+
+  const createToken = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/tokens", {
+        name,
+        scopes: selectedScopes,
+        expiresInDays: expiry === "never" ? null : parseInt(expiry),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setCreatedToken(data.token);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    },
+    onError: (error) => {
+      toast({ title: "Could not create token", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeToken = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    },
+    onError: (error) => {
+      toast({ title: "Could not revoke token", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setSelectedScopes(checked ? [...selectedScopes, scope] : selectedScopes.filter(s => s !== scope));
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast({ title: "Copied", description: "The token has been copied to your clipboard" });
+  };
+
+  const tokenStatus = (token: ApiToken) => {
+    if (token.revokedAt) return "revoked";
+    if (token.expiresAt && new Date(token.expiresAt) < new Date()) return "expired";
+    return null;
+  };
+
+  return (
+    <Card className="max-w-4xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-blue-600" />
+          API Tokens
+        </CardTitle>
+        <CardDescription>
+          Let other tools, such as your CMS, push scripts into the teleprompter. Send the token as
+          an <code>Authorization: Bearer</code> header.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {createdToken && (
+          <div className="p-4 border border-green-200 bg-green-50 rounded-lg space-y-2">
+            <p className="text-sm text-green-800">
+              Copy your new token now. You won't be able to see it again.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={createdToken} className="font-mono text-xs" />
+              <Button variant="outline" onClick={copyToken}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setCreatedToken(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createToken.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="flex-1 min-w-[200px]">
+              <Label htmlFor="api-token-name">Token name</Label>
+              <Input
+                id="api-token-name"
+                placeholder="Newsroom CMS"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="w-32">
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            {scopes.map((scope) => (
+              <label key={scope.value} className="flex items-start gap-2 text-sm">
+                <Checkbox
+                  checked={selectedScopes.includes(scope.value)}
+                  onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                  className="mt-0.5"
+                />
+                <span>
+                  <span className="font-medium text-gray-900">{scope.label}</span>
+                  <span className="text-gray-500"> · {scope.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <Button type="submit" disabled={!name.trim() || selectedScopes.length === 0 || createToken.isPending}>
+            {createToken.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create token
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading tokens...
+          </div>
+        ) : tokens.length > 0 && (
+          <div className="space-y-2 pt-4 border-t">
+            {tokens.map((token) => {
+              const status = tokenStatus(token);
+              return (
+                <div key={token.id} className="flex items-center justify-between gap-3 p-3 border border-gray-200 rounded-lg">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {token.name} <span className="font-mono text-xs text-gray-500">{token.tokenPrefix}…</span>
+                    </p>
+                    <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+                      {token.scopes.map((scope) => (
+                        <Badge key={scope} variant="secondary">{scope}</Badge>
+                      ))}
+                      <span>Created {formatDate(token.createdAt)}</span>
+                      <span>{token.lastUsedAt ? `Last used ${formatDate(token.lastUsedAt)}` : "Never used"}</span>
+                      {token.expiresAt && !status && <span>Expires {formatDate(token.expiresAt)}</span>}
+                    </div>
+                  </div>
+                  {status ? (
+                    <Badge variant="outline">{status}</Badge>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeToken.mutate(token.id)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      disabled={revokeToken.isPending}
+                      title="Revoke token"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
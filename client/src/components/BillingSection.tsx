@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CreditCard, Calendar, ExternalLink, Loader2, ArrowRightLeft } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useSubscription } from "@/hooks/useSubscription";
+import { InvoiceHistory } from "@/components/InvoiceHistory";
+import type { PlanPrice } from "@shared/plans";
+
+interface BillingSubscription {
+  tier: string;
+  status: string;
+  priceId: string | null;
+  interval: string | null;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+  hasBillingAccount: boolean;
+}
+
+interface PlanChangePreview {
+  tier: string;
+  interval: string;
+  amountDue: number;
+  currency: string;
+  prorationDate: number;
+}
+
+function formatAmount(amount: number, currency: string) {
+  return new Intl.NumberFormat("en-GB", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(amount / 100);
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString("en-GB", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+export function BillingSection() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { plans } = useSubscription();
+  const [preview, setPreview] = useState<(PlanChangePreview & { priceId: string }) | null>(null);
+
+  const { data: billing, isLoading } = useQuery<BillingSubscription>({
+    queryKey: ["/api/billing/subscription"],
+    retry: false,
+  });
+
+  const invalidateBilling = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/billing/subscription"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/subscription-status"] });
+  };
+
+  const openPortal = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/billing/portal");
+      return response.json();
+    },
+    onSuccess: (data) => {
+      window.location.href = data.url;
+    },
+    onError: (error) => {
+      toast({
+        title: "Billing Portal Unavailable",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const previewChange = useMutation({
+    mutationFn: async (priceId: string) => {
+      const response = await apiRequest("POST", "/api/billing/preview-change", { priceId });
+      return { ...(await response.json()), priceId };
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error) => {
+      toast({
+        title: "Preview Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changePlan = useMutation({
+    mutationFn: async ({ priceId, prorationDate }: { priceId: string; prorationDate: number }) => {
+      const response = await apiRequest("POST", "/api/billing/change-plan", { priceId, prorationDate });
+      return response.json();
+    },
+    onSuccess: () => {
+      setPreview(null);
+      invalidateBilling();
+      toast({
+        title: "Plan Changed",
+        description: "Your subscription has been updated.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Plan Change Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setCancellation = useMutation({
+    mutationFn: async (cancel: boolean) => {
+      const response = await apiRequest("POST", "/api/billing/cancel", { cancel });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      invalidateBilling();
+      toast({
+        title: data.cancelAtPeriodEnd ? "Subscription Cancelled" : "Subscription Resumed",
+        description: data.cancelAtPeriodEnd
+          ? "You keep access until the end of the current billing period."
+          : "Your subscription will renew as normal.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !billing) {
+    return null;
+  }
+
+  const hasSubscription = !!billing.priceId;
+  const otherPrices: { name: string; price: PlanPrice }[] = plans.filter(plan => !plan.perSeat).flatMap(plan =>
+    plan.prices
+      .filter(price => price.priceId !== billing.priceId)
+      .map(price => ({ name: plan.name, price }))
+  );
+
+  return (
+    <Card className="max-w-6xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CreditCard className="h-5 w-5 text-blue-600" />
+          Billing
+        </CardTitle>
+        <CardDescription>Manage your plan, payment method and renewal</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <div>
+            <p className="text-sm text-gray-500">Current plan</p>
+            <p className="text-lg font-semibold text-gray-900">
+              {billing.tier.charAt(0).toUpperCase() + billing.tier.slice(1)}
+              {billing.interval && (
+                <span className="text-sm font-normal text-gray-500"> · billed {billing.interval}ly</span>
+              )}
+            </p>
+          </div>
+          <Badge variant={billing.status === "active" ? "secondary" : "destructive"}>{billing.status}</Badge>
+          {billing.currentPeriodEnd && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Calendar className="h-4 w-4" />
+              {billing.cancelAtPeriodEnd
+                ? `Access ends on ${formatDate(billing.currentPeriodEnd)}`
+                : `Renews on ${formatDate(billing.currentPeriodEnd)}`}
+            </div>
+          )}
+        </div>
+
+        {hasSubscription && otherPrices.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-sm font-medium text-gray-700">Change plan</p>
+            <div className="flex flex-wrap gap-2">
+              {otherPrices.map(({ name, price }) => (
+                <Button
+                  key={price.priceId}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => previewChange.mutate(price.priceId)}
+                  disabled={previewChange.isPending || changePlan.isPending}
+                >
+                  <ArrowRightLeft className="h-4 w-4 mr-2" />
+                  {name} ({formatAmount(price.amount, price.currency)}/{price.interval})
+                </Button>
+              ))}
+            </div>
+
+            {preview && (
+              <div className="p-4 border border-blue-200 bg-blue-50 rounded-lg flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-blue-800">
+                  Switching to {preview.tier} ({preview.interval}ly) will charge{" "}
+                  <strong>{formatAmount(preview.amountDue, preview.currency)}</strong> today, prorated for the
+                  rest of this billing period.
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setPreview(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => changePlan.mutate({ priceId: preview.priceId, prorationDate: preview.prorationDate })}
+                    disabled={changePlan.isPending}
+                  >
+                    {changePlan.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Confirm change
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-3">
+          {billing.hasBillingAccount && (
+            <Button variant="outline" onClick={() => openPortal.mutate()} disabled={openPortal.isPending}>
+              <ExternalLink className="h-4 w-4 mr-2" />
+              Manage payment & invoices
+            </Button>
+          )}
+          {hasSubscription && (
+            <Button
+              variant="outline"
+              onClick={() => setCancellation.mutate(!billing.cancelAtPeriodEnd)}
+              disabled={setCancellation.isPending}
+              className={billing.cancelAtPeriodEnd ? "" : "text-red-600 hover:text-red-700 hover:bg-red-50"}
+            >
+              {billing.cancelAtPeriodEnd ? "Resume subscription" : "Cancel subscription"}
+            </Button>
+          )}
+        </div>
+
+        {billing.hasBillingAccount && (
+          <div className="space-y-3 pt-4 border-t">
+            <p className="text-sm font-medium text-gray-700">Invoice history</p>
+            <InvoiceHistory />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,40 @@
+import { Fragment } from "react";
+import { deliveryCueLabels, parseCues, type CueSegment, type DeliveryCue } from "@shared/cues";
+
+// Emphasized words in the teleprompter text
+export const emphasisClassName = "font-bold text-yellow-200 underline decoration-yellow-400/70 underline-offset-4";
+
+// A delivery cue in the teleprompter text, set apart from the words so it isn't read out
+export function DeliveryCueBadge({ cue }: { cue: DeliveryCue }) {
+  return (
+    <span
+      aria-hidden
+      className="inline-block align-middle mx-2 px-2 py-0.5 rounded-md border border-amber-400/60 text-amber-300 uppercase tracking-wider select-none"
+      style={{ fontSize: "0.45em", lineHeight: 1.4 }}
+    >
+      {deliveryCueLabels[cue]}
+    </span>
+  );
+}
+
+// Text with its cue markup rendered
+export function CueText({ text }: { text: string }) {
+  return <CueSegments segments={parseCues(text)} />;
+}
+
+// Already parsed text, for callers that split it up after parsing
+export function CueSegments({ segments }: { segments: CueSegment[] }) {
+  return (
+    <>
+      {segments.map((segment) =>
+        segment.type === "cue" ? (
+          <DeliveryCueBadge key={segment.offset} cue={segment.cue} />
+        ) : segment.emphasis ? (
+          <strong key={segment.offset} className={emphasisClassName}>{segment.text}</strong>
+        ) : (
+          <Fragment key={segment.offset}>{segment.text}</Fragment>
+        ),
+      )}
+    </>
+  );
+}
@@ -12,9 +12,11 @@ interface FileImportProps {
   setContent: (content: string) => void;
   onStartTeleprompter?: () => void;
   onVoiceInput?: () => void;
+  onImport?: () => void; // called after a file's content has been added
+  onSelectionChange?: (selection: { start: number; end: number }) => void;
 }
 
-export function FileImport({ content, setContent, onStartTeleprompter, onVoiceInput }: FileImportProps) {
+export function FileImport({ content, setContent, onStartTeleprompter, onVoiceInput, onImport, onSelectionChange }: FileImportProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
   const { toast } = useToast();
@@ -44,6 +46,7 @@ export function FileImport({ content, setContent, onStartTeleprompter, onVoiceIn
       const separator = content.length > 0 && !content.endsWith('\n') && !content.endsWith(' ') ? '\n\n' : '';
       const newContent = content + separator + result.content;
       setContent(newContent);
+      onImport?.();
       
       toast({
         title: "File uploaded successfully",
@@ -58,7 +61,7 @@ export function FileImport({ content, setContent, onStartTeleprompter, onVoiceIn
     } finally {
       setIsUploading(false);
     }
-  }, [content, setContent, toast]);
+  }, [content, setContent, onImport, toast]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop: handleFileUpload,
@@ -173,6 +176,10 @@ export function FileImport({ content, setContent, onStartTeleprompter, onVoiceIn
               ref={textareaRef}
               value={content}
               onChange={(e) => setContent(e.target.value)}
+              onSelect={(e) => onSelectionChange?.({
+                start: e.currentTarget.selectionStart,
+                end: e.currentTarget.selectionEnd,
+              })}
               onPaste={(e) => {
                 // Allow normal paste behavior - the textarea handles it automatically
                 // But also show a success message
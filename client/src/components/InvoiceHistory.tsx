@@ -0,0 +1,147 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Download, ExternalLink, Receipt } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface Invoice {
+  id: string;
+  number: string | null;
+  status: string | null;
+  amountDue: number;
+  amountPaid: number;
+  currency: string;
+  created: string;
+  periodStart: string;
+  periodEnd: string;
+  hostedInvoiceUrl: string | null;
+  invoicePdf: string | null;
+}
+
+interface InvoicePage {
+  invoices: Invoice[];
+  hasMore: boolean;
+}
+
+function formatAmount(amount: number, currency: string) {
+  return new Intl.NumberFormat("en-GB", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(amount / 100);
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString("en-GB", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+const statusStyles: Record<string, string> = {
+  paid: "bg-green-100 text-green-700",
+  open: "bg-amber-100 text-amber-700",
+  uncollectible: "bg-red-100 text-red-700",
+  void: "bg-gray-100 text-gray-600",
+  draft: "bg-gray-100 text-gray-600",
+};
+
+export function InvoiceHistory() {
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery<InvoicePage>({
+    queryKey: ["/api/billing/invoices"],
+    initialPageParam: undefined as string | undefined,
+    queryFn: async ({ pageParam }) => {
+      const url = pageParam
+        ? `/api/billing/invoices?startingAfter=${encodeURIComponent(pageParam as string)}`
+        : "/api/billing/invoices";
+      const response = await apiRequest("GET", url);
+      return response.json();
+    },
+    getNextPageParam: (lastPage) =>
+      lastPage.hasMore ? lastPage.invoices[lastPage.invoices.length - 1]?.id : undefined,
+    retry: false,
+  });
+
+  const invoices = data?.pages.flatMap(page => page.invoices) ?? [];
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <div className="animate-spin w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full" />
+        <span className="ml-3 text-gray-600">Loading invoices...</span>
+      </div>
+    );
+  }
+
+  if (invoices.length === 0) {
+    return (
+      <div className="py-6 text-center text-sm text-gray-500">
+        <Receipt className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+        No invoices yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Invoice</TableHead>
+            <TableHead>Period</TableHead>
+            <TableHead>Amount</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Receipt</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {invoices.map((invoice) => (
+            <TableRow key={invoice.id}>
+              <TableCell>{formatDate(invoice.created)}</TableCell>
+              <TableCell className="font-mono text-xs">{invoice.number ?? invoice.id}</TableCell>
+              <TableCell className="text-sm text-gray-600">
+                {formatDate(invoice.periodStart)} – {formatDate(invoice.periodEnd)}
+              </TableCell>
+              <TableCell>
+                {formatAmount(invoice.status === "paid" ? invoice.amountPaid : invoice.amountDue, invoice.currency)}
+              </TableCell>
+              <TableCell>
+                <Badge variant="secondary" className={statusStyles[invoice.status ?? ""] ?? ""}>
+                  {invoice.status ?? "unknown"}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-right">
+                <div className="flex justify-end gap-1">
+                  {invoice.hostedInvoiceUrl && (
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={invoice.hostedInvoiceUrl} target="_blank" rel="noopener noreferrer" title="View invoice">
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  )}
+                  {invoice.invoicePdf && (
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={invoice.invoicePdf} target="_blank" rel="noopener noreferrer" title="Download PDF">
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button variant="outline" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Mail, Terminal, Loader2 } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+interface LocalLoginDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Sign-in form for AUTH_PROVIDER=local: the server prints a one-time link to its console
+export function LocalLoginDialog({ isOpen, onClose }: LocalLoginDialogProps) {
+  const [email, setEmail] = useState("");
+
+  const requestLink = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/login/local", { email });
+    },
+  });
+
+  const handleClose = () => {
+    requestLink.reset();
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5 text-blue-600" />
+            Sign in
+          </DialogTitle>
+          <DialogDescription>
+            Local development sign-in. Enter any email address to get a sign-in link.
+          </DialogDescription>
+        </DialogHeader>
+
+        {requestLink.isSuccess ? (
+          <div className="flex items-start gap-3 p-4 border border-blue-200 bg-blue-50 rounded-lg text-sm text-blue-800">
+            <Terminal className="h-5 w-5 shrink-0" />
+            <p>
+              A sign-in link for <strong>{email}</strong> has been printed to the server console. Open it
+              in this browser within 15 minutes.
+            </p>
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              requestLink.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="local-login-email">Email</Label>
+              <Input
+                id="local-login-email"
+                type="email"
+                autoFocus
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            {requestLink.isError && (
+              <p className="text-sm text-red-600">{requestLink.error.message}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={!email || requestLink.isPending}>
+              {requestLink.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send sign-in link
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,37 +1,60 @@
-import React from "react";
+import React, { useState } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Trash2, FileText, Calendar, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Trash2, FileText, Calendar, Users, History, Tag, FolderPlus, Folder, ChevronLeft, ChevronRight } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-
-interface Script {
-  id: number;
-  title: string;
-  content: string;
-  createdAt: string;
-  updatedAt: string;
-}
+import { ScriptHistory } from "@/components/ScriptHistory";
+import { ScriptTranslations } from "@/components/ScriptTranslations";
+import { ScriptLibraryToolbar } from "@/components/ScriptLibraryToolbar";
+import {
+  defaultScriptFilters,
+  useScriptFolders,
+  useScriptSearch,
+  type LibraryScript,
+  type ScriptFilters,
+} from "@/hooks/useScriptLibrary";
+import type { UserOrganization } from "@/components/TeamManager";
+import { languageName } from "@shared/languages";
 
 interface SavedScriptsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onLoadScript: (content: string) => void;
+  onLoadScript: (content: string, script: { id: number; title: string }) => void;
 }
 
 export default function SavedScriptsModal({ isOpen, onClose, onLoadScript }: SavedScriptsModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [historyScript, setHistoryScript] = useState<LibraryScript | null>(null);
+  const [filters, setFilters] = useState<ScriptFilters>(defaultScriptFilters);
+  const [editingTags, setEditingTags] = useState<{ id: number; value: string } | null>(null);
+  const [newFolder, setNewFolder] = useState<{ name: string; library: string } | null>(null);
+
+  // Fetch the current page of the library, only while the modal is open
+  const { data, isLoading, pageCount } = useScriptSearch(filters, { enabled: isOpen });
+  const scripts = data?.scripts ?? [];
+  const total = data?.total ?? 0;
+
+  const { data: folders = [] } = useScriptFolders(isOpen);
 
-  // Fetch saved scripts
-  const { data: scripts = [], isLoading } = useQuery<Script[]>({
-    queryKey: ["/api/scripts"],
+  const { data: organizations = [] } = useQuery<UserOrganization[]>({
+    queryKey: ["/api/organizations"],
     retry: false,
-    enabled: isOpen, // Only fetch when modal is open
+    enabled: isOpen,
   });
+  const organizationName = (id: number) => organizations.find(org => org.id === id)?.name ?? "Team";
+  const writableOrganizations = organizations.filter(org => org.role !== "presenter");
+  const folderName = (id: number) => folders.find(folder => folder.id === id)?.name ?? "Folder";
+
+  const invalidateLibrary = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+  };
 
   // Delete script mutation
   const deleteScriptMutation = useMutation({
@@ -54,8 +77,63 @@ export default function SavedScriptsModal({ isOpen, onClose, onLoadScript }: Sav
     },
   });
 
-  const handleLoadScript = (script: Script) => {
-    onLoadScript(script.content);
+  // Folder and tag changes don't touch the text, so they don't create a revision
+  const organizeScriptMutation = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: number; folderId?: number | null; tags?: string[] }) => {
+      await apiRequest("PATCH", `/api/scripts/${id}`, changes);
+    },
+    onSuccess: () => {
+      setEditingTags(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createFolderMutation = useMutation({
+    mutationFn: async ({ name, library }: { name: string; library: string }) => {
+      await apiRequest("POST", "/api/folders", {
+        name,
+        organizationId: library === "personal" ? null : parseInt(library),
+      });
+    },
+    onSuccess: () => {
+      setNewFolder(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not create folder",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteFolderMutation = useMutation({
+    mutationFn: async (folderId: number) => {
+      await apiRequest("DELETE", `/api/folders/${folderId}`);
+    },
+    onSuccess: () => {
+      setFilters({ ...filters, folderId: "all", page: 1 });
+      invalidateLibrary();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not delete folder",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleLoadScript = (script: LibraryScript) => {
+    onLoadScript(script.content, { id: script.id, title: script.title });
     onClose(); // Close modal after loading
     toast({
       title: "Script loaded",
@@ -69,6 +147,18 @@ export default function SavedScriptsModal({ isOpen, onClose, onLoadScript }: Sav
     }
   };
 
+  const handleDeleteFolder = (folderId: number) => {
+    if (confirm(`Delete the folder "${folderName(folderId)}"? Its scripts will be kept as unfiled.`)) {
+      deleteFolderMutation.mutate(folderId);
+    }
+  };
+
+  const handleSaveTags = () => {
+    if (!editingTags) return;
+    const tags = editingTags.value.split(",").map(tag => tag.trim()).filter(Boolean);
+    organizeScriptMutation.mutate({ id: editingTags.id, tags });
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
@@ -84,78 +174,270 @@ export default function SavedScriptsModal({ isOpen, onClose, onLoadScript }: Sav
     return content.substring(0, maxLength) + "...";
   };
 
+  const selectedFolderId = filters.folderId !== "all" && filters.folderId !== "none" ? parseInt(filters.folderId) : null;
+
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog
+      open={isOpen}
+      onOpenChange={() => {
+        setHistoryScript(null);
+        onClose();
+      }}
+    >
       <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <FileText className="h-5 w-5 text-blue-600" />
-            Your Saved Scripts ({scripts.length})
+            Your Saved Scripts ({total})
           </DialogTitle>
           <DialogDescription>
-            Select a script to load into the editor, or delete scripts you no longer need.
+            Search, filter and organize your scripts, then load one into the editor.
           </DialogDescription>
         </DialogHeader>
 
         <div className="mt-6">
-          {isLoading ? (
-            <div className="flex items-center justify-center py-8">
-              <div className="animate-spin w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full" />
-              <span className="ml-3 text-gray-600">Loading your scripts...</span>
-            </div>
-          ) : scripts.length === 0 ? (
-            <div className="py-12 text-center">
-              <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-lg font-medium text-gray-900 mb-2">No scripts yet</h3>
-              <p className="text-gray-500">
-                Create your first script in the editor and save it to see it here.
-              </p>
-            </div>
+          {historyScript ? (
+            <ScriptHistory script={historyScript} onBack={() => setHistoryScript(null)} />
           ) : (
-            <div className="space-y-2">
-              {scripts.map((script: Script) => (
-                <div key={script.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors">
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-3">
-                      <FileText className="h-5 w-5 text-blue-600 shrink-0" />
+            <div className="space-y-4">
+              <ScriptLibraryToolbar filters={filters} onChange={setFilters} enabled={isOpen} />
+
+              <div className="flex flex-wrap items-center gap-2">
+                {newFolder ? (
+                  <form
+                    className="flex flex-wrap items-center gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      createFolderMutation.mutate(newFolder);
+                    }}
+                  >
+                    <Input
+                      autoFocus
+                      placeholder="Folder name"
+                      value={newFolder.name}
+                      onChange={(e) => setNewFolder({ ...newFolder, name: e.target.value })}
+                      className="w-48"
+                    />
+                    {writableOrganizations.length > 0 && (
+                      <Select value={newFolder.library} onValueChange={(library) => setNewFolder({ ...newFolder, library })}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="personal">Personal</SelectItem>
+                          {writableOrganizations.map((org) => (
+                            <SelectItem key={org.id} value={String(org.id)}>
+                              {org.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button type="submit" size="sm" disabled={!newFolder.name.trim() || createFolderMutation.isPending}>
+                      Create
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setNewFolder(null)}>
+                      Cancel
+                    </Button>
+                  </form>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={() => setNewFolder({ name: "", library: "personal" })}>
+                    <FolderPlus className="h-4 w-4 mr-2" />
+                    New folder
+                  </Button>
+                )}
+                {selectedFolderId !== null && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteFolder(selectedFolderId)}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    disabled={deleteFolderMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete folder
+                  </Button>
+                )}
+              </div>
+
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="animate-spin w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full" />
+                  <span className="ml-3 text-gray-600">Loading your scripts...</span>
+                </div>
+              ) : scripts.length === 0 ? (
+                <div className="py-12 text-center">
+                  <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  {filters.q || filters.folderId !== "all" || filters.tag !== "all" || filters.scriptType !== "all" ? (
+                    <>
+                      <h3 className="text-lg font-medium text-gray-900 mb-2">No matching scripts</h3>
+                      <p className="text-gray-500">Try a different search or clear the filters.</p>
+                    </>
+                  ) : (
+                    <>
+                      <h3 className="text-lg font-medium text-gray-900 mb-2">No scripts yet</h3>
+                      <p className="text-gray-500">
+                        Create your first script in the editor and save it to see it here.
+                      </p>
+                    </>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {scripts.map((script) => (
+                    <div key={script.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors">
                       <div className="flex-1 min-w-0">
-                        <h3 className="font-medium text-gray-900 truncate">
-                          {script.title}
-                        </h3>
-                        <div className="flex items-center gap-4 text-sm text-gray-500 mt-1">
-                          <div className="flex items-center gap-1">
-                            <Calendar className="h-3 w-3" />
-                            {formatDate(script.createdAt)}
+                        <div className="flex items-center gap-3">
+                          <FileText className="h-5 w-5 text-blue-600 shrink-0" />
+                          <div className="flex-1 min-w-0">
+                            <h3 className="font-medium text-gray-900 truncate">
+                              {script.title}
+                            </h3>
+                            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-500 mt-1">
+                              <div className="flex items-center gap-1">
+                                <Calendar className="h-3 w-3" />
+                                {formatDate(filters.sort === "created" ? script.createdAt : script.updatedAt)}
+                              </div>
+                              <span>{script.content.length} characters</span>
+                              {script.organizationId && (
+                                <Badge variant="secondary" className="flex items-center gap-1">
+                                  <Users className="h-3 w-3" />
+                                  {organizationName(script.organizationId)}
+                                </Badge>
+                              )}
+                              {script.folderId && (
+                                <Badge variant="outline" className="flex items-center gap-1">
+                                  <Folder className="h-3 w-3" />
+                                  {folderName(script.folderId)}
+                                </Badge>
+                              )}
+                              {script.scriptType && <Badge variant="outline">{script.scriptType}</Badge>}
+                              {script.language && <Badge variant="outline">{languageName(script.language)}</Badge>}
+                              {script.tags.map((tag) => (
+                                <button
+                                  key={tag}
+                                  onClick={() => setFilters({ ...filters, tag, page: 1 })}
+                                  className="text-blue-600 hover:underline"
+                                >
+                                  #{tag}
+                                </button>
+                              ))}
+                            </div>
+                            {editingTags?.id === script.id ? (
+                              <form
+                                className="flex items-center gap-2 mt-2"
+                                onSubmit={(e) => {
+                                  e.preventDefault();
+                                  handleSaveTags();
+                                }}
+                              >
+                                <Input
+                                  autoFocus
+                                  placeholder="Tags, separated by commas"
+                                  value={editingTags.value}
+                                  onChange={(e) => setEditingTags({ id: script.id, value: e.target.value })}
+                                  className="h-8"
+                                />
+                                <Button type="submit" size="sm" disabled={organizeScriptMutation.isPending}>
+                                  Save
+                                </Button>
+                                <Button type="button" variant="ghost" size="sm" onClick={() => setEditingTags(null)}>
+                                  Cancel
+                                </Button>
+                              </form>
+                            ) : (
+                              <p className="text-sm text-gray-600 mt-2 line-clamp-2">
+                                {getPreview(script.content, 120)}
+                              </p>
+                            )}
                           </div>
-                          <span>{script.content.length} characters</span>
                         </div>
-                        <p className="text-sm text-gray-600 mt-2 line-clamp-2">
-                          {getPreview(script.content, 120)}
-                        </p>
+                      </div>
+
+                      <div className="flex items-center gap-2 ml-4">
+                        <Button
+                          onClick={() => handleLoadScript(script)}
+                          className="bg-blue-600 hover:bg-blue-700 text-white"
+                          size="sm"
+                        >
+                          Load
+                        </Button>
+                        <Select
+                          value={script.folderId ? String(script.folderId) : "none"}
+                          onValueChange={(value) =>
+                            organizeScriptMutation.mutate({ id: script.id, folderId: value === "none" ? null : parseInt(value) })
+                          }
+                        >
+                          <SelectTrigger className="w-9 px-2" title="Move to folder">
+                            <Folder className="h-4 w-4" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Unfiled</SelectItem>
+                            {/* Scripts can only move between folders of their own library */}
+                            {folders
+                              .filter((folder) => folder.organizationId === script.organizationId)
+                              .map((folder) => (
+                                <SelectItem key={folder.id} value={String(folder.id)}>
+                                  {folder.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditingTags({ id: script.id, value: script.tags.join(", ") })}
+                          title="Edit tags"
+                        >
+                          <Tag className="h-4 w-4" />
+                        </Button>
+                        <ScriptTranslations script={script} onLoad={handleLoadScript} />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setHistoryScript(script)}
+                          title="Revision history"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteScript(script.id, script.title)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          disabled={deleteScriptMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
                       </div>
                     </div>
-                  </div>
-                  
-                  <div className="flex items-center gap-2 ml-4">
-                    <Button
-                      onClick={() => handleLoadScript(script)}
-                      className="bg-blue-600 hover:bg-blue-700 text-white"
-                      size="sm"
-                    >
-                      Load
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDeleteScript(script.id, script.title)}
-                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                      disabled={deleteScriptMutation.isPending}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
+                  ))}
                 </div>
-              ))}
+              )}
+
+              {pageCount > 1 && (
+                <div className="flex items-center justify-center gap-3">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setFilters({ ...filters, page: filters.page - 1 })}
+                    disabled={filters.page <= 1}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <span className="text-sm text-gray-600">
+                    Page {filters.page} of {pageCount}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setFilters({ ...filters, page: filters.page + 1 })}
+                    disabled={filters.page >= pageCount}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -168,4 +450,4 @@ export default function SavedScriptsModal({ isOpen, onClose, onLoadScript }: Sav
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
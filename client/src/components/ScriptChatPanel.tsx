@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, Loader2, MessageSquare, RotateCcw, Send, X } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { quotaExceededFrom } from "@/lib/quotaUtils";
+import { useToast } from "@/hooks/use-toast";
+import type { ScriptChatMessage } from "@shared/schema";
+
+interface ScriptChatPanelProps {
+  scriptId: number;
+  onApply: (content: string) => void;
+  onTrialExpired?: () => void;
+}
+
+// A running conversation with the AI assistant about the saved script. Each suggested
+// version is accepted or rejected; accepted ones are saved as a revision of the script.
+export function ScriptChatPanel({ scriptId, onApply, onTrialExpired }: ScriptChatPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [message, setMessage] = useState("");
+
+  const url = `/api/scripts/${scriptId}/chat`;
+  const { data: messages = [], isLoading } = useQuery<ScriptChatMessage[]>({
+    queryKey: ["/api/scripts", url],
+    queryFn: async () => (await apiRequest("GET", url)).json(),
+  });
+  const refreshChat = () => queryClient.invalidateQueries({ queryKey: ["/api/scripts", url] });
+
+  const sendMutation = useMutation({
+    mutationFn: async (text: string) => {
+      await apiRequest("POST", url, { message: text });
+    },
+    onSuccess: () => {
+      setMessage("");
+      refreshChat();
+    },
+    onError: (error: any) => {
+      const quotaExceeded = quotaExceededFrom(error);
+      if (quotaExceeded) {
+        toast({ title: "Monthly Allowance Used", description: quotaExceeded.message, variant: "destructive" });
+      } else if (error.message.includes("60-minute trial limit")) {
+        onTrialExpired?.();
+      } else {
+        toast({ title: "Message Failed", description: error.message, variant: "destructive" });
+      }
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (messageId: number) => {
+      const response = await apiRequest("POST", `${url}/${messageId}/accept`);
+      return (await response.json()) as { script: { content: string } };
+    },
+    onSuccess: ({ script }) => {
+      onApply(script.content);
+      queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+      toast({ title: "Suggestion applied", description: "The script was saved with the AI's changes" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not apply suggestion", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async (messageId: number) => {
+      await apiRequest("POST", `${url}/${messageId}/reject`);
+    },
+    onSuccess: refreshChat,
+    onError: (error: Error) => {
+      toast({ title: "Could not reject suggestion", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", url);
+    },
+    onSuccess: refreshChat,
+  });
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (message.trim()) sendMutation.mutate(message.trim());
+  };
+
+  return (
+    <div className="mt-6 p-4 border border-blue-200 rounded-2xl bg-blue-50/40 space-y-4">
+      <div className="flex items-center gap-2">
+        <MessageSquare className="h-4 w-4 text-blue-600" />
+        <span className="font-medium text-gray-900">Co-write with AI</span>
+        <span className="text-sm text-gray-500 flex-1">Works on the saved version of this script</span>
+        {messages.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => clearMutation.mutate()} disabled={clearMutation.isPending}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            New conversation
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+      ) : (
+        messages.length > 0 && (
+          <div className="max-h-96 overflow-y-auto space-y-3">
+            {messages.map((turn) =>
+              turn.role === "user" ? (
+                <div key={turn.id} className="ml-auto max-w-[80%] p-3 rounded-lg bg-blue-600 text-white text-sm whitespace-pre-wrap">
+                  {turn.content}
+                </div>
+              ) : (
+                <div key={turn.id} className="max-w-[90%] p-3 rounded-lg bg-white border border-gray-200 text-sm space-y-2">
+                  <p className="text-gray-800 whitespace-pre-wrap">{turn.content}</p>
+                  {turn.proposedContent !== null && (
+                    <>
+                      <div className="max-h-48 overflow-y-auto p-2 rounded bg-gray-50 text-gray-700 whitespace-pre-wrap">
+                        {turn.proposedContent}
+                      </div>
+                      {turn.proposalStatus === "pending" ? (
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => acceptMutation.mutate(turn.id)} disabled={acceptMutation.isPending}>
+                            <Check className="h-3 w-3 mr-1" />
+                            Accept
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => rejectMutation.mutate(turn.id)}
+                            disabled={rejectMutation.isPending}
+                          >
+                            <X className="h-3 w-3 mr-1" />
+                            Reject
+                          </Button>
+                        </div>
+                      ) : (
+                        <Badge variant={turn.proposalStatus === "accepted" ? "default" : "secondary"}>
+                          {turn.proposalStatus === "accepted" ? "Accepted" : "Rejected"}
+                        </Badge>
+                      )}
+                    </>
+                  )}
+                </div>
+              ),
+            )}
+          </div>
+        )
+      )}
+
+      <form onSubmit={handleSend} className="flex gap-2">
+        <Textarea
+          placeholder='e.g., "Make the intro punchier" or "Now cut 30 seconds"'
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) handleSend(e);
+          }}
+          rows={2}
+          className="flex-1 bg-white"
+        />
+        <Button type="submit" disabled={!message.trim() || sendMutation.isPending} className="self-end">
+          {sendMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        </Button>
+      </form>
+    </div>
+  );
+}
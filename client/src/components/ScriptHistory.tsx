@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, History, RotateCcw, Loader2 } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ScriptRevision } from "@shared/schema";
+import type { DiffPart } from "@shared/diff";
+
+interface ScriptHistoryProps {
+  script: { id: number; title: string };
+  onBack: () => void;
+}
+
+interface RevisionDiff {
+  titleChanged: boolean;
+  parts: DiffPart[];
+}
+
+const sourceLabels: Record<string, string> = {
+  manual: "Edited",
+  ai: "AI",
+  voice: "Voice",
+  import: "Imported",
+  restore: "Restored",
+};
+
+const partStyles: Record<DiffPart["type"], string> = {
+  equal: "text-gray-600",
+  insert: "bg-green-50 text-green-800",
+  delete: "bg-red-50 text-red-800 line-through",
+};
+
+const partPrefixes: Record<DiffPart["type"], string> = {
+  equal: " ",
+  insert: "+",
+  delete: "-",
+};
+
+function formatDate(dateString: string | Date | null) {
+  if (!dateString) return "";
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function ScriptHistory({ script, onBack }: ScriptHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const revisionsKey = `/api/scripts/${script.id}/revisions`;
+  const { data: revisions = [], isLoading } = useQuery<ScriptRevision[]>({
+    queryKey: [revisionsKey],
+    retry: false,
+  });
+
+  const { data: diff, isLoading: diffLoading } = useQuery<RevisionDiff>({
+    queryKey: [`${revisionsKey}/${selectedId}/diff`],
+    enabled: selectedId !== null,
+    retry: false,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      await apiRequest("POST", `${revisionsKey}/${revisionId}/restore`);
+    },
+    onSuccess: () => {
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+      queryClient.invalidateQueries({ queryKey: [revisionsKey] });
+      toast({
+        title: "Revision restored",
+        description: `"${script.title}" has been restored. Load it to continue editing.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Button>
+        <History className="h-4 w-4 text-blue-600" />
+        <h3 className="font-medium text-gray-900 truncate">History of "{script.title}"</h3>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full" />
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="py-8 text-center text-gray-500">No revisions recorded for this script yet.</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+          <div className="space-y-1">
+            {revisions.map((revision, index) => (
+              <button
+                key={revision.id}
+                onClick={() => setSelectedId(revision.id)}
+                className={`w-full text-left p-2 rounded-md border text-sm transition-colors ${
+                  selectedId === revision.id ? "border-blue-600 bg-blue-50" : "border-gray-200 hover:bg-gray-50"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-gray-900">{formatDate(revision.createdAt)}</span>
+                  <Badge variant="secondary">{sourceLabels[revision.source] ?? revision.source}</Badge>
+                </div>
+                {index === 0 && <p className="text-xs text-gray-500 mt-1">Current version</p>}
+              </button>
+            ))}
+          </div>
+
+          <div className="min-w-0">
+            {selectedId === null ? (
+              <p className="py-8 text-center text-gray-500">Select a revision to compare it with the current script.</p>
+            ) : diffLoading || !diff ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm text-gray-500">
+                    Changes since this revision
+                    {diff.titleChanged && " (title also changed)"}
+                  </p>
+                  <Button
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(selectedId)}
+                    disabled={restoreMutation.isPending || selectedId === revisions[0]?.id}
+                  >
+                    {restoreMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                    )}
+                    Restore this version
+                  </Button>
+                </div>
+                <pre className="max-h-[45vh] overflow-auto rounded-md border border-gray-200 text-sm font-mono whitespace-pre-wrap">
+                  {diff.parts.flatMap((part, partIndex) =>
+                    part.lines.map((line, lineIndex) => (
+                      <div key={`${partIndex}-${lineIndex}`} className={`px-3 ${partStyles[part.type]}`}>
+                        {partPrefixes[part.type]} {line}
+                      </div>
+                    ))
+                  )}
+                </pre>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search } from "lucide-react";
+import { useScriptFacets, useScriptFolders, type ScriptFilters } from "@/hooks/useScriptLibrary";
+import type { ScriptSort } from "@shared/schema";
+
+interface ScriptLibraryToolbarProps {
+  filters: ScriptFilters;
+  onChange: (filters: ScriptFilters) => void;
+  enabled?: boolean;
+}
+
+const sortLabels: Record<ScriptSort, string> = {
+  updated: "Recently updated",
+  created: "Recently created",
+  title: "Title",
+  relevance: "Best match",
+};
+
+export function ScriptLibraryToolbar({ filters, onChange, enabled = true }: ScriptLibraryToolbarProps) {
+  const { data: facets } = useScriptFacets(enabled);
+  const { data: folders = [] } = useScriptFolders(enabled);
+
+  // Any filter change starts again from the first page
+  const update = (changes: Partial<ScriptFilters>) => onChange({ ...filters, ...changes, page: 1 });
+
+  // Rank by relevance while searching, and go back to recency once the search is cleared
+  const updateSearch = (q: string) => {
+    let sort = filters.sort;
+    if (q.trim() && sort === "updated") sort = "relevance";
+    if (!q.trim() && sort === "relevance") sort = "updated";
+    update({ q, sort });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <Input
+          placeholder="Search titles and content..."
+          value={filters.q}
+          onChange={(e) => updateSearch(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Select value={filters.folderId} onValueChange={(folderId) => update({ folderId })}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All folders</SelectItem>
+            <SelectItem value="none">Unfiled</SelectItem>
+            {folders.map((folder) => (
+              <SelectItem key={folder.id} value={String(folder.id)}>
+                {folder.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.scriptType} onValueChange={(scriptType) => update({ scriptType })}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All types</SelectItem>
+            {facets?.scriptTypes.map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.value} ({type.count})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.tag} onValueChange={(tag) => update({ tag })}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All tags</SelectItem>
+            {facets?.tags.map((tag) => (
+              <SelectItem key={tag.value} value={tag.value}>
+                #{tag.value} ({tag.count})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.sort} onValueChange={(sort) => update({ sort: sort as ScriptSort })}>
+          <SelectTrigger className="w-44 ml-auto">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(sortLabels) as ScriptSort[]).map((sort) => (
+              <SelectItem key={sort} value={sort} disabled={sort === "relevance" && !filters.q.trim()}>
+                {sortLabels[sort]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -4,21 +4,20 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Trash2, Edit, FileText, Calendar, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { ScriptLibraryToolbar } from "@/components/ScriptLibraryToolbar";
+import {
+  defaultScriptFilters,
+  useScriptSearch,
+  type LibraryScript,
+  type ScriptFilters,
+} from "@/hooks/useScriptLibrary";
 
 declare global {
   function confirm(message?: string): boolean;
 }
 
-interface Script {
-  id: number;
-  title: string;
-  content: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
 interface ScriptManagerProps {
   onLoadScript: (content: string) => void;
 }
@@ -26,12 +25,12 @@ interface ScriptManagerProps {
 export default function ScriptManager({ onLoadScript }: ScriptManagerProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [filters, setFilters] = useState<ScriptFilters>(defaultScriptFilters);
 
-  // Fetch saved scripts
-  const { data: scripts = [], isLoading } = useQuery<Script[]>({
-    queryKey: ["/api/scripts"],
-    retry: false,
-  });
+  // Fetch the current page of saved scripts
+  const { data, isLoading, pageCount } = useScriptSearch(filters, { pageSize: 12 });
+  const scripts = data?.scripts ?? [];
+  const isFiltered = !!filters.q || filters.folderId !== "all" || filters.tag !== "all" || filters.scriptType !== "all";
 
   // Delete script mutation
   const deleteScriptMutation = useMutation({
@@ -54,7 +53,7 @@ export default function ScriptManager({ onLoadScript }: ScriptManagerProps) {
     },
   });
 
-  const handleLoadScript = (script: Script) => {
+  const handleLoadScript = (script: LibraryScript) => {
     onLoadScript(script.content);
     toast({
       title: "Script loaded",
@@ -92,7 +91,7 @@ export default function ScriptManager({ onLoadScript }: ScriptManagerProps) {
     );
   }
 
-  if (scripts.length === 0) {
+  if (scripts.length === 0 && !isFiltered) {
     return (
       <Card className="max-w-2xl mx-auto">
         <CardContent className="py-12 text-center">
@@ -110,12 +109,18 @@ export default function ScriptManager({ onLoadScript }: ScriptManagerProps) {
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold text-gray-900">
-          Your Saved Scripts ({scripts.length})
+          Your Saved Scripts ({data?.total ?? 0})
         </h3>
       </div>
 
+      <ScriptLibraryToolbar filters={filters} onChange={setFilters} />
+
+      {scripts.length === 0 && (
+        <p className="py-8 text-center text-gray-500">No scripts match your search.</p>
+      )}
+
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {scripts.map((script: Script) => (
+        {scripts.map((script) => (
           <Card key={script.id} className="hover:shadow-md transition-shadow">
             <CardHeader className="pb-3">
               <div className="flex items-start justify-between">
@@ -134,7 +139,7 @@ export default function ScriptManager({ onLoadScript }: ScriptManagerProps) {
               </div>
               <div className="flex items-center gap-2 text-xs text-gray-500">
                 <Calendar className="h-3 w-3" />
-                {formatDate(script.createdAt)}
+                {formatDate(script.updatedAt)}
               </div>
             </CardHeader>
             
@@ -161,6 +166,30 @@ export default function ScriptManager({ onLoadScript }: ScriptManagerProps) {
           </Card>
         ))}
       </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setFilters({ ...filters, page: filters.page - 1 })}
+            disabled={filters.page <= 1}
+          >
+            Previous
+          </Button>
+          <span className="text-sm text-gray-600">
+            Page {filters.page} of {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setFilters({ ...filters, page: filters.page + 1 })}
+            disabled={filters.page >= pageCount}
+          >
+            Next
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useScriptTemplates } from "@/hooks/useScriptTemplates";
+import type { UserOrganization } from "@/components/TeamManager";
+import type { ScriptTemplate } from "@shared/schema";
+import { scriptTones, templateVariables, toneLabels, type ScriptTone } from "@shared/scriptTemplates";
+
+interface TemplateDraft {
+  id: number | null; // null for a new template
+  name: string;
+  prompt: string;
+  defaultTone: ScriptTone | "none";
+  library: string; // "personal" or an organization id; fixed once the template exists
+}
+
+const emptyDraft: TemplateDraft = { id: null, name: "", prompt: "", defaultTone: "none", library: "personal" };
+
+interface ScriptTemplateManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Creates, edits and deletes the personal and team templates offered by the AI script assistant
+export function ScriptTemplateManager({ isOpen, onClose }: ScriptTemplateManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+
+  const { data: templates = [] } = useScriptTemplates(isOpen);
+  const { data: organizations = [] } = useQuery<UserOrganization[]>({
+    queryKey: ["/api/organizations"],
+    retry: false,
+    enabled: isOpen,
+  });
+  const writableOrganizations = organizations.filter(org => org.role !== "presenter");
+  const organizationName = (id: number) => organizations.find(org => org.id === id)?.name ?? "Team";
+  // Presenters can use their teams' templates but not change them
+  const canEdit = (template: ScriptTemplate) =>
+    template.organizationId === null || writableOrganizations.some(org => org.id === template.organizationId);
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async ({ id, name, prompt, defaultTone, library }: TemplateDraft) => {
+      const fields = { name, prompt, defaultTone: defaultTone === "none" ? null : defaultTone };
+      if (id === null) {
+        await apiRequest("POST", "/api/script-templates", {
+          ...fields,
+          organizationId: library === "personal" ? null : parseInt(library),
+        });
+      } else {
+        await apiRequest("PATCH", `/api/script-templates/${id}`, fields);
+      }
+    },
+    onSuccess: () => {
+      setDraft(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/script-templates"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/script-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/script-templates"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not delete template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const editTemplate = (template: ScriptTemplate) =>
+    setDraft({
+      id: template.id,
+      name: template.name,
+      prompt: template.prompt,
+      defaultTone: (template.defaultTone as ScriptTone | null) ?? "none",
+      library: template.organizationId === null ? "personal" : String(template.organizationId),
+    });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Script Templates</DialogTitle>
+          <DialogDescription>
+            Your own script types for the AI assistant, personal or shared with a team
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="templateName">Name</Label>
+                <Input
+                  id="templateName"
+                  placeholder="e.g., Product Launch"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Library</Label>
+                <Select
+                  value={draft.library}
+                  onValueChange={(library) => setDraft({ ...draft, library })}
+                  disabled={draft.id !== null}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="personal">Personal</SelectItem>
+                    {(draft.id === null ? writableOrganizations : organizations).map(org => (
+                      <SelectItem key={org.id} value={String(org.id)}>
+                        {org.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label>Default Tone</Label>
+              <Select
+                value={draft.defaultTone}
+                onValueChange={(defaultTone) => setDraft({ ...draft, defaultTone: defaultTone as TemplateDraft["defaultTone"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Keep the form's tone</SelectItem>
+                  {scriptTones.map(tone => (
+                    <SelectItem key={tone} value={tone}>
+                      {toneLabels[tone]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="templatePrompt">Prompt</Label>
+              <Textarea
+                id="templatePrompt"
+                placeholder={'e.g., Write a {{duration}}-minute product launch speech about "{{topic}}" for {{audience}}. Use a {{tone}} tone...'}
+                value={draft.prompt}
+                onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                rows={6}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Filled in from the generator form: {templateVariables.map(name => `{{${name}}}`).join(", ")}
+              </p>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveTemplateMutation.mutate(draft)}
+                disabled={!draft.name.trim() || !draft.prompt.trim() || saveTemplateMutation.isPending}
+              >
+                Save Template
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {templates.length === 0 ? (
+              <p className="text-sm text-gray-500">No templates yet. The built-in script types are always available.</p>
+            ) : (
+              templates.map(template => (
+                <div key={template.id} className="flex items-start justify-between gap-3 p-3 border border-gray-200 rounded-lg">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 truncate">{template.name}</span>
+                      <Badge variant="secondary">
+                        {template.organizationId === null ? "Personal" : organizationName(template.organizationId)}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-gray-500 line-clamp-2">{template.prompt}</p>
+                  </div>
+                  {canEdit(template) && (
+                    <div className="flex gap-1 shrink-0">
+                      <Button variant="ghost" size="sm" title="Edit" onClick={() => editTemplate(template)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Delete"
+                        onClick={() => deleteTemplateMutation.mutate(template.id)}
+                        disabled={deleteTemplateMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+            <Button variant="outline" onClick={() => setDraft(emptyDraft)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Template
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
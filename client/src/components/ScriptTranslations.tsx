@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Languages, Loader2 } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { quotaExceededFrom } from "@/lib/quotaUtils";
+import { useToast } from "@/hooks/use-toast";
+import { languageName, languageNames, scriptLanguages, type ScriptLanguage } from "@shared/languages";
+import type { LibraryScript } from "@/hooks/useScriptLibrary";
+
+interface ScriptFamily {
+  original: LibraryScript | null;
+  translations: LibraryScript[];
+}
+
+interface ScriptTranslationsProps {
+  script: LibraryScript;
+  onLoad: (script: LibraryScript) => void;
+}
+
+// Lists the original and translated versions of a script, and translates it into more languages
+export function ScriptTranslations({ script, onLoad }: ScriptTranslationsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [language, setLanguage] = useState<ScriptLanguage | "">("");
+
+  const url = `/api/scripts/${script.id}/translations`;
+  const { data: family, isLoading } = useQuery<ScriptFamily>({
+    queryKey: ["/api/scripts", url],
+    queryFn: async () => (await apiRequest("GET", url)).json(),
+    enabled: open,
+  });
+  const versions = family ? [...(family.original ? [family.original] : []), ...family.translations] : [];
+
+  const translateMutation = useMutation({
+    mutationFn: async (target: ScriptLanguage) => {
+      const response = await apiRequest("POST", `/api/scripts/${script.id}/translate`, { language: target });
+      return (await response.json()) as LibraryScript;
+    },
+    onSuccess: (translation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+      setLanguage("");
+      toast({
+        title: "Script translated",
+        description: `"${translation.title}" is in your library`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Translation failed",
+        description: quotaExceededFrom(error)?.message ?? error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" title="Translations">
+          <Languages className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="end">
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-900">Versions</h4>
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+          ) : (
+            versions.map((version) => (
+              <div key={version.id} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <p className="truncate text-gray-900">{version.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {version.translatedFromId ? languageName(version.language) : `Original${version.language ? ` · ${languageName(version.language)}` : ""}`}
+                  </p>
+                </div>
+                {version.id === script.id ? (
+                  <span className="text-xs text-gray-500 shrink-0">This script</span>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => onLoad(version)}>
+                    Load
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-900">Translate with AI</h4>
+          <div className="flex gap-2">
+            <Select value={language} onValueChange={(value) => setLanguage(value as ScriptLanguage)}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Language" />
+              </SelectTrigger>
+              <SelectContent>
+                {scriptLanguages
+                  .filter((code) => code !== script.language)
+                  .map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {languageNames[code]}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              onClick={() => language && translateMutation.mutate(language)}
+              disabled={!language || translateMutation.isPending}
+            >
+              {translateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Translate"}
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Markers and paragraphs are kept. Translating into a language that already has a version updates it.
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -2,74 +2,36 @@ import React, { useState } from "react";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Check, Crown, Zap, Star } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Check, Crown, Zap, Star, Users } from "lucide-react";
 import { useSubscription } from "@/hooks/useSubscription";
 import { loadStripe } from "@stripe/stripe-js";
 import { Elements, PaymentElement, useStripe, useElements } from "@stripe/react-stripe-js";
 import { useToast } from "@/hooks/use-toast";
+import type { BillingInterval, Plan, PlanPrice, SubscriptionTier } from "@shared/plans";
 
 if (!import.meta.env.VITE_STRIPE_PUBLIC_KEY) {
   throw new Error('Missing required Stripe key: VITE_STRIPE_PUBLIC_KEY');
 }
-const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY);
-
-interface SubscriptionPlan {
-  name: string;
-  price: string;
-  priceId: string;
-  description: string;
-  features: string[];
-  icon: React.ComponentType<any>;
-  popular?: boolean;
+export const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY);
+
+const tierIcons: Record<SubscriptionTier, React.ComponentType<any>> = {
+  free: Star,
+  pro: Zap,
+  premium: Crown,
+  team: Users,
+};
+
+function formatPrice(price?: PlanPrice) {
+  if (!price) return "£0";
+  return new Intl.NumberFormat("en-GB", {
+    style: "currency",
+    currency: price.currency.toUpperCase(),
+  }).format(price.amount / 100);
 }
 
-const plans: SubscriptionPlan[] = [
-  {
-    name: "Free",
-    price: "£0",
-    priceId: "",
-    description: "Perfect for getting started",
-    features: [
-      "1 hour total usage",
-      "Basic teleprompter",
-      "File import (.txt, .docx)",
-      "Standard keyboard controls"
-    ],
-    icon: Star
-  },
-  {
-    name: "Pro",
-    price: "£1.99",
-    priceId: "price_pro", // Replace with actual Stripe price ID
-    description: "For regular speakers",
-    popular: true,
-    features: [
-      "Unlimited usage",
-      "Voice-to-text transcription",
-      "Advanced teleprompter controls",
-      "Priority support",
-      "All file formats"
-    ],
-    icon: Zap
-  },
-  {
-    name: "Premium",
-    price: "£4.99",
-    priceId: "price_premium", // Replace with actual Stripe price ID
-    description: "For professionals",
-    features: [
-      "Everything in Pro",
-      "AI Script Assistant",
-      "Improve Existing Script",
-      "Voice Input",
-      "Script generation (news, speeches, etc.)",
-      "Script improvement suggestions"
-    ],
-    icon: Crown
-  }
-];
-
-function CheckoutForm({ priceId, onSuccess }: { priceId: string; onSuccess: () => void }) {
+export function CheckoutForm({ priceId, onSuccess }: { priceId: string; onSuccess: () => void }) {
   const stripe = useStripe();
   const elements = useElements();
   const { toast } = useToast();
@@ -120,44 +82,51 @@ function CheckoutForm({ priceId, onSuccess }: { priceId: string; onSuccess: () =
 }
 
 export function SubscriptionPlans() {
-  const { subscription, createSubscription } = useSubscription();
-  const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
+  const { subscription, plans: allPlans, plansLoading, createSubscription } = useSubscription();
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>("month");
+  const [selectedPrice, setSelectedPrice] = useState<PlanPrice | null>(null);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
 
-  const handleSelectPlan = async (plan: SubscriptionPlan) => {
-    if (plan.priceId === "") return; // Free plan
+  // Team plans are bought per organization from the team settings
+  const plans = allPlans.filter(plan => !plan.perSeat);
+  const priceFor = (plan: Plan) => plan.prices.find(p => p.interval === billingInterval);
+  const hasAnnualPricing = plans.some(plan => plan.prices.some(p => p.interval === "year"));
+
+  const handleSelectPlan = async (plan: Plan) => {
+    const price = priceFor(plan);
+    if (!price) return; // Free plan, or no price configured for this interval
 
     try {
-      const response = await createSubscription.mutateAsync(plan.priceId);
+      const response = await createSubscription.mutateAsync(price.priceId);
       setClientSecret(response.clientSecret);
-      setSelectedPlan(plan.priceId);
+      setSelectedPrice(price);
     } catch (error) {
       console.error("Error creating subscription:", error);
     }
   };
 
   const handlePaymentSuccess = () => {
-    setSelectedPlan(null);
+    setSelectedPrice(null);
     setClientSecret(null);
   };
 
-  if (clientSecret && selectedPlan) {
-    const plan = plans.find(p => p.priceId === selectedPlan);
+  if (clientSecret && selectedPrice) {
+    const plan = plans.find(p => p.prices.some(price => price.priceId === selectedPrice.priceId));
     return (
       <div className="max-w-md mx-auto">
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              {plan?.icon && React.createElement(plan.icon, { className: "h-5 w-5" })}
+              {plan && React.createElement(tierIcons[plan.tier], { className: "h-5 w-5" })}
               Subscribe to {plan?.name}
             </CardTitle>
             <CardDescription>
-              Complete your subscription for {plan?.price}/month
+              Complete your subscription for {formatPrice(selectedPrice)}/{selectedPrice.interval}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <Elements stripe={stripePromise} options={{ clientSecret }}>
-              <CheckoutForm priceId={selectedPlan} onSuccess={handlePaymentSuccess} />
+              <CheckoutForm priceId={selectedPrice.priceId} onSuccess={handlePaymentSuccess} />
             </Elements>
           </CardContent>
         </Card>
@@ -165,65 +134,87 @@ export function SubscriptionPlans() {
     );
   }
 
+  if (plansLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-6xl mx-auto">
-      {plans.map((plan) => {
-        const Icon = plan.icon;
-        const isCurrentPlan = subscription?.tier === plan.name.toLowerCase();
-
-        return (
-          <Card key={plan.name} className={`relative ${plan.popular ? 'ring-2 ring-blue-500' : ''}`}>
-            {plan.popular && (
-              <Badge className="absolute -top-2 left-1/2 -translate-x-1/2 bg-gradient-to-r from-blue-600 to-blue-800">
-                Most Popular
-              </Badge>
-            )}
-            <CardHeader className="text-center">
-              <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-gradient-to-r from-blue-100 to-blue-200">
-                <Icon className="h-6 w-6 text-blue-600" />
-              </div>
-              <CardTitle className="text-xl">{plan.name}</CardTitle>
-              <div className="text-3xl font-bold text-blue-600">
-                {plan.price}
-                {plan.price !== "£0" && <span className="text-sm font-normal text-gray-500">/month</span>}
-              </div>
-              <CardDescription>{plan.description}</CardDescription>
-            </CardHeader>
-            
-            <CardContent>
-              <ul className="space-y-3">
-                {plan.features.map((feature, index) => (
-                  <li key={index} className="flex items-center gap-2">
-                    <Check className="h-4 w-4 text-green-500 flex-shrink-0" />
-                    <span className="text-sm">{feature}</span>
-                  </li>
-                ))}
-              </ul>
-            </CardContent>
-            
-            <CardFooter>
-              {isCurrentPlan ? (
-                <Button disabled className="w-full">
-                  Current Plan
-                </Button>
-              ) : (
-                <Button
-                  onClick={() => handleSelectPlan(plan)}
-                  disabled={createSubscription.isPending}
-                  className={`w-full ${
-                    plan.popular 
-                      ? 'bg-gradient-to-r from-blue-600 to-blue-800 hover:from-blue-700 hover:to-blue-900' 
-                      : ''
-                  }`}
-                  variant={plan.popular ? 'default' : 'outline'}
-                >
-                  {plan.priceId === "" ? "Current Plan" : "Upgrade Now"}
-                </Button>
+    <div className="space-y-6">
+      {hasAnnualPricing && (
+        <div className="flex items-center justify-center gap-3">
+          <Label htmlFor="billing-interval">Monthly</Label>
+          <Switch
+            id="billing-interval"
+            checked={billingInterval === "year"}
+            onCheckedChange={(checked) => setBillingInterval(checked ? "year" : "month")}
+          />
+          <Label htmlFor="billing-interval">Annual</Label>
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-6xl mx-auto">
+        {plans.map((plan) => {
+          const Icon = tierIcons[plan.tier];
+          const price = priceFor(plan);
+          const isCurrentPlan = subscription?.tier === plan.tier;
+
+          return (
+            <Card key={plan.tier} className={`relative ${plan.popular ? 'ring-2 ring-blue-500' : ''}`}>
+              {plan.popular && (
+                <Badge className="absolute -top-2 left-1/2 -translate-x-1/2 bg-gradient-to-r from-blue-600 to-blue-800">
+                  Most Popular
+                </Badge>
               )}
-            </CardFooter>
-          </Card>
-        );
-      })}
+              <CardHeader className="text-center">
+                <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-gradient-to-r from-blue-100 to-blue-200">
+                  <Icon className="h-6 w-6 text-blue-600" />
+                </div>
+                <CardTitle className="text-xl">{plan.name}</CardTitle>
+                <div className="text-3xl font-bold text-blue-600">
+                  {formatPrice(price)}
+                  {price && <span className="text-sm font-normal text-gray-500">/{price.interval}</span>}
+                </div>
+                <CardDescription>{plan.description}</CardDescription>
+              </CardHeader>
+              
+              <CardContent>
+                <ul className="space-y-3">
+                  {plan.features.map((feature, index) => (
+                    <li key={index} className="flex items-center gap-2">
+                      <Check className="h-4 w-4 text-green-500 flex-shrink-0" />
+                      <span className="text-sm">{feature}</span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+              
+              <CardFooter>
+                {isCurrentPlan ? (
+                  <Button disabled className="w-full">
+                    Current Plan
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={() => handleSelectPlan(plan)}
+                    disabled={createSubscription.isPending || !price}
+                    className={`w-full ${
+                      plan.popular 
+                        ? 'bg-gradient-to-r from-blue-600 to-blue-800 hover:from-blue-700 hover:to-blue-900' 
+                        : ''
+                    }`}
+                    variant={plan.popular ? 'default' : 'outline'}
+                  >
+                    {plan.tier === "free" ? "Current Plan" : price ? "Upgrade Now" : "Unavailable"}
+                  </Button>
+                )}
+              </CardFooter>
+            </Card>
+          );
+        })}
+      </div>
     </div>
   );
 }
\ No newline at end of file
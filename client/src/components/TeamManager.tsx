@@ -0,0 +1,321 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users, Plus, Trash2, UserPlus, Loader2 } from "lucide-react";
+import { Elements } from "@stripe/react-stripe-js";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useSubscription } from "@/hooks/useSubscription";
+import { CheckoutForm, stripePromise } from "@/components/SubscriptionPlans";
+import type { Organization, OrganizationRole } from "@shared/schema";
+
+export type UserOrganization = Organization & { role: OrganizationRole };
+
+interface OrganizationMember {
+  userId: string;
+  role: OrganizationRole;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+const roles: { value: OrganizationRole; label: string }[] = [
+  { value: "owner", label: "Owner" },
+  { value: "editor", label: "Editor" },
+  { value: "presenter", label: "Presenter" },
+];
+
+function OrganizationDetails({ organization }: { organization: UserOrganization }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { plans } = useSubscription();
+  const isOwner = organization.role === "owner";
+
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>("presenter");
+  const [seats, setSeats] = useState(organization.seats);
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+
+  const membersKey = `/api/organizations/${organization.id}/members`;
+  const { data: members = [], isLoading } = useQuery<OrganizationMember[]>({
+    queryKey: [membersKey],
+    retry: false,
+  });
+
+  const teamPrice = plans.find(plan => plan.perSeat)?.prices.find(price => price.interval === "month");
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [membersKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+  };
+
+  const addMember = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", membersKey, { email: inviteEmail, role: inviteRole });
+    },
+    onSuccess: () => {
+      setInviteEmail("");
+      refresh();
+      toast({ title: "Member added", description: `${inviteEmail} now has access to ${organization.name}` });
+    },
+    onError: onError("Could not add member"),
+  });
+
+  const changeRole = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: OrganizationRole }) => {
+      await apiRequest("PATCH", `${membersKey}/${userId}`, { role });
+    },
+    onSuccess: refresh,
+    onError: onError("Could not change role"),
+  });
+
+  const removeMember = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `${membersKey}/${userId}`);
+    },
+    onSuccess: () => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+    },
+    onError: onError("Could not remove member"),
+  });
+
+  const subscribe = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/organizations/${organization.id}/subscription`, {
+        priceId: teamPrice?.priceId,
+        seats,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => setClientSecret(data.clientSecret),
+    onError: onError("Could not start team subscription"),
+  });
+
+  const updateSeats = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", `/api/organizations/${organization.id}/seats`, { seats });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Seats updated", description: `${organization.name} now has ${seats} seats` });
+    },
+    onError: onError("Could not update seats"),
+  });
+
+  const displayName = (member: OrganizationMember) =>
+    [member.firstName, member.lastName].filter(Boolean).join(" ") || member.email || member.userId;
+
+  if (clientSecret && teamPrice) {
+    return (
+      <Elements stripe={stripePromise} options={{ clientSecret }}>
+        <CheckoutForm
+          priceId={teamPrice.priceId}
+          onSuccess={() => {
+            setClientSecret(null);
+            refresh();
+            queryClient.invalidateQueries({ queryKey: ["/api/subscription-status"] });
+          }}
+        />
+      </Elements>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading members...
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {members.map((member) => (
+            <div key={member.userId} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{displayName(member)}</p>
+                {member.email && <p className="text-xs text-gray-500 truncate">{member.email}</p>}
+              </div>
+              <div className="flex items-center gap-2">
+                {isOwner ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(role) => changeRole.mutate({ userId: member.userId, role: role as OrganizationRole })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roles.map((role) => (
+                        <SelectItem key={role.value} value={role.value}>
+                          {role.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant="secondary">{member.role}</Badge>
+                )}
+                {(isOwner || member.userId === user?.id) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeMember.mutate(member.userId)}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    disabled={removeMember.isPending}
+                    title={member.userId === user?.id ? "Leave team" : "Remove member"}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isOwner && (
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 min-w-[200px]">
+            <Label htmlFor={`invite-${organization.id}`}>Add member by email</Label>
+            <Input
+              id={`invite-${organization.id}`}
+              type="email"
+              placeholder="colleague@example.com"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+            />
+          </div>
+          <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as OrganizationRole)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {roles.map((role) => (
+                <SelectItem key={role.value} value={role.value}>
+                  {role.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => addMember.mutate()} disabled={!inviteEmail || addMember.isPending}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+      )}
+
+      {isOwner && (
+        <div className="flex flex-wrap items-end gap-2 pt-4 border-t">
+          <div className="w-28">
+            <Label htmlFor={`seats-${organization.id}`}>Seats</Label>
+            <Input
+              id={`seats-${organization.id}`}
+              type="number"
+              min={Math.max(1, members.length)}
+              value={seats}
+              onChange={(e) => setSeats(parseInt(e.target.value) || 1)}
+            />
+          </div>
+          {organization.subscriptionTier === "team" ? (
+            <Button variant="outline" onClick={() => updateSeats.mutate()} disabled={seats === organization.seats || updateSeats.isPending}>
+              Update seats
+            </Button>
+          ) : (
+            <Button onClick={() => subscribe.mutate()} disabled={!teamPrice || subscribe.isPending}>
+              {subscribe.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Start team plan
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function TeamManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+
+  const { data: organizations = [], isLoading } = useQuery<UserOrganization[]>({
+    queryKey: ["/api/organizations"],
+    retry: false,
+  });
+
+  const createOrganization = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/organizations", { name });
+    },
+    onSuccess: () => {
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+    },
+    onError: (error) => {
+      toast({ title: "Could not create team", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto">
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full" />
+        </div>
+      ) : (
+        organizations.map((organization) => (
+          <Card key={organization.id}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5 text-blue-600" />
+                {organization.name}
+                <Badge variant="secondary" className="ml-auto">
+                  {organization.subscriptionTier === "team" ? `Team · ${organization.seats} seats` : "Free"}
+                </Badge>
+              </CardTitle>
+              <CardDescription>You are {organization.role === "owner" ? "an owner" : `a ${organization.role}`} of this team</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <OrganizationDetails organization={organization} />
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5 text-blue-600" />
+            Create a team
+          </CardTitle>
+          <CardDescription>Share a script library and one subscription with your production team</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              createOrganization.mutate();
+            }}
+            className="flex gap-2"
+          >
+            <Input placeholder="Team name" value={name} onChange={(e) => setName(e.target.value)} />
+            <Button type="submit" disabled={!name.trim() || createOrganization.isPending}>
+              Create
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { 
   Play, 
@@ -18,6 +18,8 @@ import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import type { TeleprompterSettings } from '@shared/schema';
+import { CueSegments } from '@/components/DeliveryCue';
+import { parseCues, splitSegments } from '@shared/cues';
 
 interface TeleprompterDisplayProps {
   content: string;
@@ -139,6 +141,8 @@ export function TeleprompterDisplay({ content, onExit }: TeleprompterDisplayProp
     }
   }, [content, resetPosition]);
 
+  // Cues are parsed over the whole script, so emphasis can run across markers and line breaks
+  const lines = useMemo(() => splitSegments(parseCues(content), '\n'), [content]);
 
   if (isLoading || !settings) {
     return <div className="fixed inset-0 bg-black flex items-center justify-center text-white">Loading...</div>;
@@ -169,13 +173,13 @@ export function TeleprompterDisplay({ content, onExit }: TeleprompterDisplayProp
                 maxWidth: `${settings.textWidth}%`,
               }}
             >
-              {content.split('\n').map((line, index) => (
+              {lines.map((line, index) => (
                 <p key={index} className="mb-4 relative teleprompter-content">
                   {/* Render line with violet square markers */}
-                  {line.split('■').map((segment, segmentIndex) => (
+                  {splitSegments(line, '■').map((segments, segmentIndex, parts) => (
                     <span key={segmentIndex}>
-                      {segment}
-                      {segmentIndex < line.split('■').length - 1 && (
+                      <CueSegments segments={segments} />
+                      {segmentIndex < parts.length - 1 && (
                         <span className="inline-block w-3 h-3 bg-violet-500 rounded-sm mx-1 align-middle"></span>
                       )}
                     </span>
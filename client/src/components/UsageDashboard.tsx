@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { BarChart3, Loader2 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { entitlements, isFeature } from "@shared/entitlements";
+import type { UsageGrouping } from "@shared/schema";
+import type { QuotaStatus } from "@shared/quotas";
+import type { UsageSummary } from "@shared/usage";
+
+type Metric = "minutes" | "events";
+
+const featureColors = ["#2563eb", "#06b6d4", "#f97316", "#a855f7", "#22c55e"];
+
+const dayRanges = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+];
+
+function featureLabel(feature: string) {
+  return isFeature(feature) ? entitlements[feature].label : feature;
+}
+
+function formatDay(value: string) {
+  return new Date(value).toLocaleDateString("en-GB", { day: "numeric", month: "short", timeZone: "UTC" });
+}
+
+// Periods end at the start of the next one, so show the day before as the last day
+function formatPeriod(start: string, end: string) {
+  const lastDay = new Date(new Date(end).getTime() - 24 * 60 * 60 * 1000).toISOString();
+  return `${formatDay(start)} – ${formatDay(lastDay)}`;
+}
+
+export function UsageDashboard() {
+  const [groupBy, setGroupBy] = useState<UsageGrouping>("day");
+  const [days, setDays] = useState("30");
+  const [metric, setMetric] = useState<Metric>("minutes");
+
+  const params = new URLSearchParams({ groupBy });
+  if (groupBy === "day") {
+    // A date rather than a timestamp, so the query key stays the same between renders
+    params.set("from", new Date(Date.now() - (parseInt(days) - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10));
+  }
+  const url = `/api/usage/summary?${params}`;
+
+  const { data: summary, isLoading } = useQuery<UsageSummary>({
+    queryKey: ["/api/usage/summary", url],
+    queryFn: async () => (await apiRequest("GET", url)).json(),
+  });
+
+  const { data: quotas } = useQuery<QuotaStatus[]>({
+    queryKey: ["/api/quotas"],
+  });
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    (summary?.features ?? []).map((feature, i) => [
+      feature,
+      { label: featureLabel(feature), color: featureColors[i % featureColors.length] },
+    ]),
+  );
+
+  const chartData = (summary?.buckets ?? []).map((bucket) => ({
+    label: groupBy === "day" ? formatDay(bucket.start) : formatPeriod(bucket.start, bucket.end),
+    ...Object.fromEntries(
+      Object.entries(bucket.features).map(([feature, usage]) => [
+        feature,
+        metric === "minutes" ? Math.round((usage.seconds / 60) * 10) / 10 : usage.events,
+      ]),
+    ),
+  }));
+
+  return (
+    <Card className="max-w-4xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5 text-blue-600" />
+          Usage
+        </CardTitle>
+        <CardDescription>
+          {summary
+            ? `Current billing period: ${formatPeriod(summary.currentPeriod.start, summary.currentPeriod.end)}`
+            : "How much you've used each feature"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-2">
+          <Tabs value={groupBy} onValueChange={(value) => setGroupBy(value as UsageGrouping)}>
+            <TabsList>
+              <TabsTrigger value="day">Daily</TabsTrigger>
+              <TabsTrigger value="period">Billing periods</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          {groupBy === "day" && (
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {dayRanges.map((range) => (
+                  <SelectItem key={range.value} value={range.value}>
+                    {range.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={metric} onValueChange={(value) => setMetric(value as Metric)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="minutes">Minutes</SelectItem>
+              <SelectItem value="events">Uses</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading || !summary ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading usage...
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {summary.features.map((feature) => (
+                <div key={feature} className="p-3 border border-gray-200 rounded-lg">
+                  <p className="text-sm text-gray-500">{featureLabel(feature)}</p>
+                  <p className="text-xl font-semibold text-gray-900">
+                    {Math.round(summary.totals[feature].seconds / 60)} min
+                  </p>
+                  <p className="text-xs text-gray-500">{summary.totals[feature].events} uses</p>
+                </div>
+              ))}
+            </div>
+
+            {quotas && quotas.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="text-sm font-medium text-gray-900">Allowances this billing period</h3>
+                {quotas.map((quota) => (
+                  <div key={`${quota.feature}:${quota.unit}`} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">
+                        {featureLabel(quota.feature)}
+                        {quota.unit === "tokens" && " (tokens)"}
+                      </span>
+                      <span className={quota.remaining > 0 ? "text-gray-900" : "text-red-600"}>
+                        {quota.used.toLocaleString()} / {quota.limit.toLocaleString()} {quota.unit}
+                      </span>
+                    </div>
+                    <Progress value={quota.limit > 0 ? Math.min(100, (quota.used / quota.limit) * 100) : 100} className="h-2" />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={metric === "minutes"} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {summary.features.map((feature) => (
+                  <Bar key={feature} dataKey={feature} stackId="usage" fill={`var(--color-${feature})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,8 @@ import { Label } from "@/components/ui/label";
 import { Video, VideoOff, Download, Crown, Camera, Square } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useSubscription } from "@/hooks/useSubscription";
+import { apiRequest } from "@/lib/queryClient";
+import { quotaExceededFrom } from "@/lib/quotaUtils";
 
 interface VideoRecorderProps {
   isVisible: boolean;
@@ -36,6 +38,19 @@ export function VideoRecorder({ isVisible, onClose }: VideoRecorderProps) {
       return;
     }
 
+    try {
+      // Server-side entitlement check before capturing starts
+      await apiRequest("POST", "/api/video-recording/start");
+    } catch (error: any) {
+      const quotaExceeded = quotaExceededFrom(error);
+      toast({
+        title: quotaExceeded ? "Monthly Allowance Used" : "Premium Feature",
+        description: quotaExceeded?.message ?? "Video recording requires Premium subscription. Upgrade to access this feature!",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       const constraints: MediaStreamConstraints = {
         video: {
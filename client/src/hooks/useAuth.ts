@@ -1,8 +1,11 @@
 import { useQuery } from "@tanstack/react-query";
 import type { User } from "@shared/schema";
 
+// /api/auth/user adds whether the user can open the admin console
+export type AuthUser = User & { isAdmin: boolean };
+
 export function useAuth() {
-  const { data: user, isLoading } = useQuery<User>({
+  const { data: user, isLoading } = useQuery<AuthUser>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
@@ -11,5 +14,6 @@ export function useAuth() {
     user,
     isLoading,
     isAuthenticated: !!user,
+    isAdmin: !!user?.isAdmin,
   };
 }
\ No newline at end of file
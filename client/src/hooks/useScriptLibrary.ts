@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { ScriptFolder, ScriptSort } from "@shared/schema";
+
+export interface LibraryScript {
+  id: number;
+  title: string;
+  content: string;
+  organizationId: number | null;
+  folderId: number | null;
+  scriptType: string | null;
+  tags: string[];
+  language: string | null;
+  translatedFromId: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScriptFilters {
+  q: string;
+  folderId: string; // "all", "none" (unfiled) or a folder id
+  tag: string; // "all" or a tag
+  scriptType: string; // "all" or a script type
+  sort: ScriptSort;
+  page: number;
+}
+
+interface ScriptSearchResult {
+  scripts: LibraryScript[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export const defaultScriptFilters: ScriptFilters = {
+  q: "",
+  folderId: "all",
+  tag: "all",
+  scriptType: "all",
+  sort: "updated",
+  page: 1,
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Library queries live under the "/api/scripts" key so every existing
+// invalidateQueries({ queryKey: ["/api/scripts"] }) refreshes them too
+export function useScriptSearch(filters: ScriptFilters, { enabled = true, pageSize = 20 } = {}) {
+  // Only search once the user pauses typing
+  const [q, setQ] = useState(filters.q);
+  useEffect(() => {
+    const timeout = setTimeout(() => setQ(filters.q), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [filters.q]);
+
+  const params = new URLSearchParams({
+    sort: filters.sort,
+    page: String(filters.page),
+    pageSize: String(pageSize),
+  });
+  if (q.trim()) params.set("q", q.trim());
+  if (filters.folderId !== "all") params.set("folderId", filters.folderId);
+  if (filters.tag !== "all") params.set("tag", filters.tag);
+  if (filters.scriptType !== "all") params.set("scriptType", filters.scriptType);
+  const url = `/api/scripts/search?${params}`;
+
+  const query = useQuery<ScriptSearchResult>({
+    queryKey: ["/api/scripts", "search", url],
+    queryFn: async () => (await apiRequest("GET", url)).json(),
+    placeholderData: keepPreviousData,
+    enabled,
+    retry: false,
+  });
+
+  const pageCount = query.data ? Math.max(1, Math.ceil(query.data.total / query.data.pageSize)) : 1;
+  return { ...query, pageCount };
+}
+
+export function useScriptFacets(enabled = true) {
+  return useQuery<{ scriptTypes: FacetCount[]; tags: FacetCount[] }>({
+    queryKey: ["/api/scripts", "facets"],
+    queryFn: async () => (await apiRequest("GET", "/api/scripts/facets")).json(),
+    enabled,
+    retry: false,
+  });
+}
+
+export function useScriptFolders(enabled = true) {
+  return useQuery<ScriptFolder[]>({
+    queryKey: ["/api/folders"],
+    enabled,
+    retry: false,
+  });
+}
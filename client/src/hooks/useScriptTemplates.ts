@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ScriptTemplate } from "@shared/schema";
+
+// The user's own templates plus those of their teams; the built-in ones are in @shared/scriptTemplates
+export function useScriptTemplates(enabled = true) {
+  return useQuery<ScriptTemplate[]>({
+    queryKey: ["/api/script-templates"],
+    enabled,
+    retry: false,
+  });
+}
@@ -2,12 +2,19 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { User } from "@shared/schema";
+import type { BillingInterval, Plan, SubscriptionTier } from "@shared/plans";
+import { canUseFeature, isTrialExpired, type EntitlementSubject } from "@shared/entitlements";
 
 interface SubscriptionStatus {
   tier: string;
   status: string;
   usage?: number;
-  usageLimit?: number;
+  usageLimit?: number | null;
+}
+
+function toSubject(subscription?: SubscriptionStatus): EntitlementSubject | undefined {
+  if (!subscription) return undefined;
+  return { tier: subscription.tier, usageMinutes: subscription.usage || 0 };
 }
 
 export function useSubscription() {
@@ -19,6 +26,11 @@ export function useSubscription() {
     retry: false,
   });
 
+  const { data: plans = [], isLoading: plansLoading } = useQuery<Plan[]>({
+    queryKey: ["/api/plans"],
+    retry: false,
+  });
+
   const createSubscription = useMutation({
     mutationFn: async (priceId: string) => {
       const response = await apiRequest("POST", "/api/create-subscription", { priceId });
@@ -43,33 +55,24 @@ export function useSubscription() {
   return {
     subscription,
     isLoading,
+    plans,
+    plansLoading,
     createSubscription,
+    getPriceId: (tier: SubscriptionTier, interval: BillingInterval = "month") => {
+      const plan = plans.find(p => p.tier === tier);
+      return plan?.prices.find(price => price.interval === interval)?.priceId;
+    },
     canUseFeature: (feature: string) => {
-      if (!subscription) return false;
-      
-      if (subscription.tier === 'premium') return true;
-      if (subscription.tier === 'pro' && feature === 'voice_input') return true;
-      if (subscription.tier === 'free') {
-        // Free users can try all features during their 60-minute grace period
-        return (subscription.usage || 0) < (subscription.usageLimit || 60);
-      }
-      
-      return false;
+      const subject = toSubject(subscription);
+      return !!subject && canUseFeature(subject, feature);
     },
     needsUpgrade: (feature: string) => {
-      if (!subscription) return true;
-      
-      // Free users who have exceeded their trial time need to upgrade
-      if (subscription.tier === 'free' && (subscription.usage || 0) >= (subscription.usageLimit || 60)) return true;
-      
-      // Pro users need Premium for AI features
-      if (feature === 'ai_assistant' && subscription.tier !== 'premium') return true;
-      
-      return false;
+      const subject = toSubject(subscription);
+      return !subject || !canUseFeature(subject, feature);
     },
     isTrialExpired: () => {
-      if (!subscription) return false;
-      return subscription.tier === 'free' && (subscription.usage || 0) >= (subscription.usageLimit || 60);
+      const subject = toSubject(subscription);
+      return !!subject && isTrialExpired(subject);
     }
   };
 }
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+// Returned by POST /api/teleprompter/start
+export interface TeleprompterSessionInfo {
+  sessionId: number;
+  heartbeatIntervalSeconds: number;
+}
+
+// Keeps a server-side teleprompter session alive while it is open. The server times the
+// session from these heartbeats, and the session is ended when the component unmounts or
+// the page is closed. If the server has already closed the session (a 404, after heartbeats
+// stopped for too long, say while the laptop slept), a new one is started in its place.
+// onLimitReached fires if the trial or the period's allowance runs out mid-session, with the
+// server's rejection (a 403 or a 429).
+export function useTeleprompterSession(session: TeleprompterSessionInfo | null, onLimitReached: (error: Error) => void) {
+  const queryClient = useQueryClient();
+  const onLimitReachedRef = useRef(onLimitReached);
+  onLimitReachedRef.current = onLimitReached;
+
+  useEffect(() => {
+    if (!session) return;
+    let url = `/api/teleprompter/sessions/${session.sessionId}`;
+    let ended = false;
+
+    const limitReached = (error: Error) => {
+      ended = true;
+      queryClient.invalidateQueries({ queryKey: ["/api/subscription-status"] });
+      onLimitReachedRef.current(error);
+    };
+
+    // keepalive lets the request complete while the page is being unloaded
+    const closeSession = () => {
+      fetch(`${url}/end`, { method: "POST", credentials: "include", keepalive: true })
+        .then(() => queryClient.invalidateQueries({ queryKey: ["/api/subscription-status"] }))
+        .catch(() => {});
+    };
+
+    const restart = async () => {
+      try {
+        const response = await apiRequest("POST", "/api/teleprompter/start");
+        const replacement: TeleprompterSessionInfo = await response.json();
+        url = `/api/teleprompter/sessions/${replacement.sessionId}`;
+        // Closed while the replacement was starting
+        if (ended) closeSession();
+      } catch (error: any) {
+        if (error.message.startsWith("403") || error.message.startsWith("429")) {
+          limitReached(error);
+        }
+      }
+    };
+
+    const heartbeat = async () => {
+      if (ended) return;
+      try {
+        await apiRequest("POST", `${url}/heartbeat`);
+      } catch (error: any) {
+        if (error.message.startsWith("403") || error.message.startsWith("429")) {
+          limitReached(error);
+        } else if (error.message.startsWith("404")) {
+          await restart();
+        }
+      }
+    };
+
+    const end = () => {
+      if (ended) return;
+      ended = true;
+      closeSession();
+    };
+
+    const interval = setInterval(heartbeat, session.heartbeatIntervalSeconds * 1000);
+    window.addEventListener("pagehide", end);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("pagehide", end);
+      end();
+    };
+  }, [session?.sessionId]);
+}
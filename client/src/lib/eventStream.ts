@@ -0,0 +1,30 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Reads a text/event-stream response body (see server/sse.ts), calling onEvent for each
+// complete event as it arrives. Resolves when the server closes the stream.
+export async function readEventStream(response: Response, onEvent: (event: ServerSentEvent) => void): Promise<void> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      if (data.length > 0) onEvent({ event, data: data.join("\n") });
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import type { QuotaStatus } from "@shared/quotas";
+
+export interface QuotaExceeded {
+  message: string;
+  quota: QuotaStatus;
+}
+
+// apiRequest errors read "<status>: <body>"; a 429 body names the allowance that ran out
+export function quotaExceededFrom(error: Error): QuotaExceeded | null {
+  const match = /^429: ([\s\S]*)$/.exec(error.message);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+}
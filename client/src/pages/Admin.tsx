@@ -0,0 +1,618 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Search, ShieldCheck, Gift, RotateCcw, Loader2, ChevronLeft, ChevronRight } from "lucide-react";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AuthUser } from "@/hooks/useAuth";
+import type { AdminAuditLog, UsageLog, User } from "@shared/schema";
+
+interface UserSearchResponse {
+  users: User[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+interface AIUsageGroup {
+  key: string | null; // the user id, model or operation grouped by
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costMicros: number;
+}
+
+interface AIUsageReport {
+  from: string;
+  to: string;
+  totals: AIUsageGroup;
+  byModel: AIUsageGroup[];
+  byOperation: AIUsageGroup[];
+  topUsers: (AIUsageGroup & { email: string | null })[];
+}
+
+interface AdminUserDetail {
+  user: AuthUser;
+  effectiveTier: string;
+  trialUsage: number;
+  usageLimit: number | null;
+  aiUsage: {
+    periodStart: string;
+    resetsAt: string;
+    tokenBudget: number | null;
+    totals: AIUsageGroup;
+    byOperation: AIUsageGroup[];
+  };
+  organizations: { id: number; name: string; role: string; subscriptionTier: string }[];
+  usageLogs: UsageLog[];
+  auditLogs: AdminAuditLog[];
+}
+
+const complimentaryTiers = ["pro", "premium", "team"];
+
+const actionLabels: Record<string, string> = {
+  grant_complimentary_tier: "Granted complimentary tier",
+  revoke_complimentary_tier: "Revoked complimentary tier",
+  reset_trial: "Reset trial",
+  set_role: "Changed role",
+};
+
+function formatDateTime(value: string | Date | null) {
+  if (!value) return "—";
+  return new Date(value).toLocaleString("en-GB", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function displayName(user: User) {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return name || user.email || user.id;
+}
+
+// Default expiry for a complimentary tier: one month from today, as yyyy-mm-dd for the date input
+function defaultExpiry() {
+  const date = new Date();
+  date.setMonth(date.getMonth() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+const operationLabels: Record<string, string> = {
+  generate_script: "Generate script",
+  improve_script: "Improve script",
+  edit_selection: "Edit selection",
+  translate_script: "Translate script",
+  script_chat: "Co-writing chat",
+};
+
+// Costs are stored in millionths of a dollar
+function formatCost(costMicros: number) {
+  return `$${(costMicros / 1_000_000).toFixed(costMicros < 10_000 ? 4 : 2)}`;
+}
+
+function formatTokens(group: AIUsageGroup) {
+  return (group.promptTokens + group.completionTokens).toLocaleString();
+}
+
+function AIUsageTable({ groups, label, name }: { groups: AIUsageGroup[]; label: string; name: (key: string | null) => string }) {
+  if (groups.length === 0) {
+    return <p className="text-sm text-gray-500">No AI usage recorded.</p>;
+  }
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Calls</TableHead>
+          <TableHead className="text-right">Tokens</TableHead>
+          <TableHead className="text-right">Cost</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {groups.map((group) => (
+          <TableRow key={group.key ?? ""}>
+            <TableCell className="break-all">{name(group.key)}</TableCell>
+            <TableCell className="text-right">{group.calls.toLocaleString()}</TableCell>
+            <TableCell className="text-right">{formatTokens(group)}</TableCell>
+            <TableCell className="text-right">{formatCost(group.costMicros)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+const operationName = (key: string | null) => (key ? operationLabels[key] ?? key : "—");
+
+function AIUsageOverview() {
+  const { data, isLoading } = useQuery<AIUsageReport>({
+    queryKey: ["/api/admin/ai-usage"],
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading AI usage...
+      </div>
+    );
+  }
+
+  const emails = new Map(data.topUsers.map((group) => [group.key, group.email]));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">AI usage</CardTitle>
+          <CardDescription>
+            {formatDateTime(data.from)} to {formatDateTime(data.to)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">Calls</p>
+            <p className="font-medium">{data.totals.calls.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Prompt tokens</p>
+            <p className="font-medium">{data.totals.promptTokens.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Completion tokens</p>
+            <p className="font-medium">{data.totals.completionTokens.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Estimated cost</p>
+            <p className="font-medium">{formatCost(data.totals.costMicros)}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">By model</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AIUsageTable groups={data.byModel} label="Model" name={(key) => key ?? "—"} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">By feature</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AIUsageTable groups={data.byOperation} label="Feature" name={operationName} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Top users</CardTitle>
+          <CardDescription>The 20 users with the highest estimated cost</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AIUsageTable groups={data.topUsers} label="User" name={(key) => emails.get(key) ?? key ?? "—"} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function AuditTrail({ entries }: { entries: AdminAuditLog[] }) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No admin actions yet.</p>;
+  }
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>Admin</TableHead>
+          <TableHead>Action</TableHead>
+          <TableHead>User</TableHead>
+          <TableHead>Details</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow key={entry.id}>
+            <TableCell className="whitespace-nowrap">{formatDateTime(entry.createdAt)}</TableCell>
+            <TableCell className="font-mono text-xs">{entry.adminId}</TableCell>
+            <TableCell>{actionLabels[entry.action] ?? entry.action}</TableCell>
+            <TableCell className="font-mono text-xs">{entry.targetUserId}</TableCell>
+            <TableCell className="font-mono text-xs break-all">{entry.details ? JSON.stringify(entry.details) : ""}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function UserDetail({ userId }: { userId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [tier, setTier] = useState("pro");
+  const [expiresAt, setExpiresAt] = useState(defaultExpiry);
+  const [note, setNote] = useState("");
+
+  const { data, isLoading } = useQuery<AdminUserDetail>({
+    queryKey: [`/api/admin/users/${userId}`],
+  });
+
+  // Every action changes the user, their listing and the audit trail
+  const adminAction = (request: () => Promise<Response>, success: string) => ({
+    mutationFn: request,
+    onSuccess: () => {
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/users/${userId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/audit-log"] });
+      toast({ title: success });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Action failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const grantTier = useMutation(adminAction(
+    () => apiRequest("POST", `/api/admin/users/${userId}/complimentary-tier`, {
+      tier,
+      expiresAt: new Date(`${expiresAt}T23:59:59`).toISOString(),
+      note: note || undefined,
+    }),
+    "Complimentary tier granted",
+  ));
+  const revokeTier = useMutation(adminAction(
+    () => apiRequest("DELETE", `/api/admin/users/${userId}/complimentary-tier`, { note: note || undefined }),
+    "Complimentary tier revoked",
+  ));
+  const resetTrial = useMutation(adminAction(
+    () => apiRequest("POST", `/api/admin/users/${userId}/reset-trial`, { note: note || undefined }),
+    "Trial reset",
+  ));
+  const setRole = useMutation(adminAction(
+    () => apiRequest("PATCH", `/api/admin/users/${userId}/role`, {
+      role: data?.user.role === "admin" ? "user" : "admin",
+      note: note || undefined,
+    }),
+    "Role updated",
+  ));
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading user...
+      </div>
+    );
+  }
+
+  const { user } = data;
+  const isPending = grantTier.isPending || revokeTier.isPending || resetTrial.isPending || setRole.isPending;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-center gap-2">
+            {displayName(user)}
+            {user.isAdmin && <Badge>admin</Badge>}
+          </CardTitle>
+          <CardDescription className="font-mono text-xs">{user.id}</CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">Email</p>
+            <p className="font-medium">{user.email ?? "—"}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Paid tier</p>
+            <p className="font-medium">{user.subscriptionTier} ({user.subscriptionStatus})</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Effective tier</p>
+            <p className="font-medium">{data.effectiveTier}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Complimentary tier</p>
+            <p className="font-medium">
+              {user.complimentaryTier
+                ? `${user.complimentaryTier} until ${formatDateTime(user.complimentaryTierExpiresAt)}`
+                : "—"}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-500">Trial usage</p>
+            <p className="font-medium">
+              {data.usageLimit === null ? `${data.trialUsage} min` : `${data.trialUsage}/${data.usageLimit} min`}
+              {user.trialResetAt && <span className="text-gray-500"> · reset {formatDateTime(user.trialResetAt)}</span>}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-500">Stripe customer</p>
+            <p className="font-mono text-xs">{user.stripeCustomerId ?? "—"}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Teams</p>
+            <p className="font-medium">
+              {data.organizations.length > 0
+                ? data.organizations.map((org) => `${org.name} (${org.role}, ${org.subscriptionTier})`).join(", ")
+                : "—"}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-500">Joined</p>
+            <p className="font-medium">{formatDateTime(user.createdAt)}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Support actions</CardTitle>
+          <CardDescription>Each action is recorded in the audit trail with the note below.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label htmlFor="admin-note">Note</Label>
+            <Input
+              id="admin-note"
+              placeholder="Ticket number or reason"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="w-32">
+              <Label>Tier</Label>
+              <Select value={tier} onValueChange={setTier}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {complimentaryTiers.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {value.charAt(0).toUpperCase() + value.slice(1)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="admin-tier-expiry">Expires</Label>
+              <Input
+                id="admin-tier-expiry"
+                type="date"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+            <Button onClick={() => grantTier.mutate()} disabled={!expiresAt || isPending}>
+              <Gift className="h-4 w-4 mr-2" />
+              Grant tier
+            </Button>
+            {user.complimentaryTier && (
+              <Button variant="outline" onClick={() => revokeTier.mutate()} disabled={isPending}>
+                Revoke
+              </Button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2 pt-4 border-t">
+            <Button variant="outline" onClick={() => resetTrial.mutate()} disabled={isPending}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset trial usage
+            </Button>
+            <Button variant="outline" onClick={() => setRole.mutate()} disabled={isPending}>
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              {user.role === "admin" ? "Remove admin role" : "Make admin"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">AI usage</CardTitle>
+          <CardDescription>
+            Since {formatDateTime(data.aiUsage.periodStart)}: {formatTokens(data.aiUsage.totals)}
+            {data.aiUsage.tokenBudget !== null && ` of ${data.aiUsage.tokenBudget.toLocaleString()}`} tokens,{" "}
+            {formatCost(data.aiUsage.totals.costMicros)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AIUsageTable groups={data.aiUsage.byOperation} label="Feature" name={operationName} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Usage log</CardTitle>
+          <CardDescription>The 100 most recent entries</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.usageLogs.length === 0 ? (
+            <p className="text-sm text-gray-500">No usage recorded.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Feature</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.usageLogs.map((usage) => (
+                  <TableRow key={usage.id}>
+                    <TableCell>{formatDateTime(usage.timestamp)}</TableCell>
+                    <TableCell>{usage.feature}</TableCell>
+                    <TableCell className="text-right">{usage.duration ?? 0}s</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Audit trail</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AuditTrail entries={data.auditLogs} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function Admin() {
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedSearch(search.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const params = new URLSearchParams({ page: String(page) });
+  if (debouncedSearch) params.set("q", debouncedSearch);
+  const url = `/api/admin/users?${params}`;
+
+  const { data: results, isLoading } = useQuery<UserSearchResponse>({
+    queryKey: ["/api/admin/users", url],
+    queryFn: async () => (await apiRequest("GET", url)).json(),
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: auditLog = [] } = useQuery<AdminAuditLog[]>({
+    queryKey: ["/api/admin/audit-log"],
+  });
+
+  const pageCount = results ? Math.max(1, Math.ceil(results.total / results.pageSize)) : 1;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-cyan-50 to-blue-100">
+      <header className="bg-white/80 backdrop-blur-sm border-b border-blue-200">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-blue-700 flex items-center gap-2">
+            <ShieldCheck className="h-6 w-6" />
+            Admin Console
+          </h1>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to app
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Tabs defaultValue="users">
+          <TabsList>
+            <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="ai">AI usage</TabsTrigger>
+            <TabsTrigger value="audit">Audit log</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="users" className="grid lg:grid-cols-[360px_1fr] gap-6 mt-4">
+            <Card className="self-start">
+              <CardContent className="pt-6 space-y-3">
+                <div className="relative">
+                  <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
+                  <Input
+                    placeholder="Email, name or user id"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="pl-8"
+                  />
+                </div>
+                {isLoading ? (
+                  <div className="flex items-center gap-2 text-sm text-gray-500">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Searching...
+                  </div>
+                ) : results?.users.length === 0 ? (
+                  <p className="text-sm text-gray-500">No users found.</p>
+                ) : (
+                  <div className="space-y-1">
+                    {results?.users.map((user) => (
+                      <button
+                        key={user.id}
+                        onClick={() => setSelectedUserId(user.id)}
+                        className={`w-full text-left p-2 rounded-md border ${
+                          selectedUserId === user.id ? "border-blue-400 bg-blue-50" : "border-transparent hover:bg-gray-50"
+                        }`}
+                      >
+                        <p className="font-medium text-gray-900 truncate">{displayName(user)}</p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {user.subscriptionTier} · {user.subscriptionStatus}
+                          {user.complimentaryTier && ` · comp ${user.complimentaryTier}`}
+                          {user.role === "admin" && " · admin"}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {pageCount > 1 && (
+                  <div className="flex items-center justify-between pt-2">
+                    <Button variant="ghost" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <span className="text-xs text-gray-500">Page {page} of {pageCount}</span>
+                    <Button variant="ghost" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {selectedUserId ? (
+              <UserDetail key={selectedUserId} userId={selectedUserId} />
+            ) : (
+              <p className="text-sm text-gray-500">Select a user to see their subscription and usage.</p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="ai" className="mt-4">
+            <AIUsageOverview />
+          </TabsContent>
+
+          <TabsContent value="audit" className="mt-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Audit log</CardTitle>
+                <CardDescription>The 200 most recent admin actions</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AuditTrail entries={auditLog} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+}
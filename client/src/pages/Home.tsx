@@ -16,20 +16,36 @@ import {
   Star,
   Type,
   Edit,
-  Mic
+  Mic,
+  Users,
+  UserCog,
+  ShieldCheck,
+  BarChart3
 } from "lucide-react";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useSubscription } from "@/hooks/useSubscription";
+import { useTeleprompterSession, type TeleprompterSessionInfo } from "@/hooks/useTeleprompterSession";
 import { FileImport } from "@/components/FileImport";
+import { AIEditPanel } from "@/components/AIEditPanel";
+import { ScriptChatPanel } from "@/components/ScriptChatPanel";
 import VoiceInput from "@/components/VoiceInput";
 import { AIScriptAssistant } from "@/components/AIScriptAssistant";
 import { VideoRecorder } from "@/components/VideoRecorder";
 import { SubscriptionPlans } from "@/components/SubscriptionPlans";
+import { BillingSection } from "@/components/BillingSection";
+import { TeamManager, type UserOrganization } from "@/components/TeamManager";
+import { ApiTokensManager } from "@/components/ApiTokensManager";
+import { AccountDataManager } from "@/components/AccountDataManager";
+import { UsageDashboard } from "@/components/UsageDashboard";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import SavedScriptsModal from "@/components/SavedScriptsModal";
 import TrialExpiredPopup from "@/components/TrialExpiredPopup";
 
 import { useToast } from "@/hooks/use-toast";
+import { useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type QuotaExceeded, quotaExceededFrom } from "@/lib/quotaUtils";
 import Teleprompter from "./Teleprompter";
 import logo from "@assets/Vibe prompting logo v1 18 jul 2025_1753096193955.png";
 
@@ -40,7 +56,7 @@ interface HomeProps {
 
 export default function Home({ content, setContent }: HomeProps) {
   const { user } = useAuth();
-  const { subscription, isLoading: subscriptionLoading, createSubscription } = useSubscription();
+  const { subscription, isLoading: subscriptionLoading, createSubscription, getPriceId, isTrialExpired } = useSubscription();
   const { toast } = useToast();
   
   const [showVideoRecorder, setShowVideoRecorder] = useState(false);
@@ -49,13 +65,26 @@ export default function Home({ content, setContent }: HomeProps) {
 
   // Auto-show trial expired popup when user hits limit
   useEffect(() => {
-    if (subscription?.tier === 'free' && (subscription.usage || 0) >= (subscription.usageLimit || 60)) {
+    if (isTrialExpired()) {
       setShowTrialExpired(true);
     }
   }, [subscription]);
   const [showTeleprompter, setShowTeleprompter] = useState(false);
+  const [teleprompterSession, setTeleprompterSession] = useState<TeleprompterSessionInfo | null>(null);
   const [showVoiceInput, setShowVoiceInput] = useState(false);
   const [showSavedScripts, setShowSavedScripts] = useState(false);
+  const [saveTarget, setSaveTarget] = useState("personal");
+  // The saved script currently in the editor (saves update it) and where the latest change came from
+  const [loadedScript, setLoadedScript] = useState<{ id: number; title: string } | null>(null);
+  const [contentSource, setContentSource] = useState<"manual" | "ai" | "voice" | "import">("manual");
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+
+  const { data: organizations = [] } = useQuery<UserOrganization[]>({
+    queryKey: ["/api/organizations"],
+    retry: false,
+  });
+  // Presenters can read team scripts but not add to them
+  const writableOrganizations = organizations.filter(org => org.role !== "presenter");
 
   const handleLogout = () => {
     window.location.href = "/api/logout";
@@ -63,6 +92,7 @@ export default function Home({ content, setContent }: HomeProps) {
 
   const handleScriptGenerated = (script: string) => {
     setContent(script);
+    setContentSource("ai");
     setActiveSection("scripts");
     toast({
       title: "Script Generated",
@@ -70,18 +100,55 @@ export default function Home({ content, setContent }: HomeProps) {
     });
   };
 
+  const handleAIEdit = (newContent: string) => {
+    setContent(newContent);
+    setContentSource("ai");
+  };
+
+  // An accepted co-writing suggestion is already saved as a revision on the server
+  const handleChatApply = (newContent: string) => {
+    setContent(newContent);
+    setContentSource("manual");
+  };
+
+  const editContent = (newContent: string) => {
+    setContent(newContent);
+    setContentSource("manual");
+  };
+
   const clearContent = () => {
     setContent("");
+    setLoadedScript(null);
+    setContentSource("manual");
+  };
+
+  const handleLoadScript = (scriptContent: string, script: { id: number; title: string }) => {
+    setContent(scriptContent);
+    setLoadedScript(script);
+    setContentSource("manual");
   };
 
   const handleSaveScript = async () => {
     if (!content.trim()) return;
     
     try {
-      const response = await apiRequest('POST', '/api/scripts', {
-        title: `Script ${new Date().toLocaleDateString()}`,
-        content: content,
-      });
+      // Saving a loaded script updates it, so the change is kept in its revision history
+      if (loadedScript) {
+        await apiRequest('PATCH', `/api/scripts/${loadedScript.id}`, {
+          content: content,
+          source: contentSource,
+        });
+      } else {
+        const response = await apiRequest('POST', '/api/scripts', {
+          title: `Script ${new Date().toLocaleDateString()}`,
+          content: content,
+          organizationId: saveTarget === "personal" ? null : parseInt(saveTarget),
+          source: contentSource,
+        });
+        const script = await response.json();
+        setLoadedScript({ id: script.id, title: script.title });
+      }
+      setContentSource("manual");
       
       // Invalidate scripts cache to refresh the SavedScriptsModal
       queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
@@ -117,7 +184,15 @@ export default function Home({ content, setContent }: HomeProps) {
 
   // Handle trial expired popup
   const handleTrialExpiredUpgrade = async (plan: 'pro' | 'premium') => {
-    const priceId = plan === 'pro' ? 'price_pro' : 'price_premium';
+    const priceId = getPriceId(plan);
+    if (!priceId) {
+      toast({
+        title: "Plan Unavailable",
+        description: "This plan is not available for purchase right now.",
+        variant: "destructive",
+      });
+      return;
+    }
     try {
       await createSubscription.mutateAsync(priceId);
       setShowTrialExpired(false);
@@ -131,6 +206,14 @@ export default function Home({ content, setContent }: HomeProps) {
     setShowTrialExpired(true);
   };
 
+  const handleQuotaExceeded = (quotaExceeded: QuotaExceeded) => {
+    toast({
+      title: "Monthly Allowance Used",
+      description: quotaExceeded.message,
+      variant: "destructive",
+    });
+  };
+
   const handleStartTeleprompter = async () => {
     if (!content.trim()) {
       toast({
@@ -144,11 +227,13 @@ export default function Home({ content, setContent }: HomeProps) {
     try {
       // Check if user can start teleprompter (trial limit check)
       const response = await apiRequest("POST", "/api/teleprompter/start");
-      if (response.ok) {
-        setShowTeleprompter(true);
-      }
+      setTeleprompterSession(await response.json());
+      setShowTeleprompter(true);
     } catch (error: any) {
-      if (error.message.includes("60-minute trial limit")) {
+      const quotaExceeded = quotaExceededFrom(error);
+      if (quotaExceeded) {
+        handleQuotaExceeded(quotaExceeded);
+      } else if (error.message.includes("60-minute trial limit")) {
         handleTrialExpired();
       } else {
         toast({
@@ -162,14 +247,26 @@ export default function Home({ content, setContent }: HomeProps) {
 
   const handleExitTeleprompter = () => {
     setShowTeleprompter(false);
+    setTeleprompterSession(null);
   };
 
+  useTeleprompterSession(teleprompterSession, (error) => {
+    handleExitTeleprompter();
+    const quotaExceeded = quotaExceededFrom(error);
+    if (quotaExceeded) {
+      handleQuotaExceeded(quotaExceeded);
+    } else {
+      handleTrialExpired();
+    }
+  });
+
   const handleVoiceInput = (text: string) => {
     // Append voice text to existing content with proper spacing
     setContent(prev => {
       if (!prev.trim()) return text;
       return prev + (prev.endsWith('\n') ? '' : '\n\n') + text;
     });
+    setContentSource("voice");
     toast({
       title: "Voice Text Added",
       description: "Your speech has been converted to text and added to the script.",
@@ -238,6 +335,15 @@ export default function Home({ content, setContent }: HomeProps) {
               </div>
             )}
             
+            {user?.isAdmin && (
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/admin">
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  Admin
+                </Link>
+              </Button>
+            )}
+
             <Button variant="outline" size="sm" onClick={handleLogout}>
               <LogOut className="h-4 w-4 mr-2" />
               Sign Out
@@ -323,6 +429,42 @@ export default function Home({ content, setContent }: HomeProps) {
               </button>
             </div>
 
+            <button 
+              onClick={() => setActiveSection("usage")}
+              className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                activeSection === "usage" 
+                  ? "bg-blue-100 text-blue-700 font-medium" 
+                  : "text-gray-700 hover:bg-blue-50"
+              }`}
+            >
+              <BarChart3 className="h-5 w-5" />
+              Usage
+            </button>
+
+            <button 
+              onClick={() => setActiveSection("team")}
+              className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                activeSection === "team" 
+                  ? "bg-blue-100 text-blue-700 font-medium" 
+                  : "text-gray-700 hover:bg-blue-50"
+              }`}
+            >
+              <Users className="h-5 w-5" />
+              Team
+            </button>
+
+            <button 
+              onClick={() => setActiveSection("account")}
+              className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                activeSection === "account" 
+                  ? "bg-blue-100 text-blue-700 font-medium" 
+                  : "text-gray-700 hover:bg-blue-50"
+              }`}
+            >
+              <UserCog className="h-5 w-5" />
+              Account
+            </button>
+
             <button 
               onClick={() => setActiveSection("upgrade")}
               className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors bg-gradient-to-r from-orange-400 to-orange-500 text-white hover:from-orange-500 hover:to-orange-600 font-medium mt-4`}
@@ -343,10 +485,28 @@ export default function Home({ content, setContent }: HomeProps) {
               <CardContent>
                 <FileImport 
                   content={content} 
-                  setContent={setContent} 
+                  setContent={editContent} 
                   onStartTeleprompter={handleStartTeleprompter}
                   onVoiceInput={() => setShowVoiceInput(true)}
+                  onImport={() => setContentSource("import")}
+                  onSelectionChange={setSelection}
                 />
+
+                <AIEditPanel
+                  content={content}
+                  selection={selection}
+                  onApply={handleAIEdit}
+                  onTrialExpired={handleTrialExpired}
+                />
+
+                {loadedScript && (
+                  <ScriptChatPanel
+                    key={loadedScript.id}
+                    scriptId={loadedScript.id}
+                    onApply={handleChatApply}
+                    onTrialExpired={handleTrialExpired}
+                  />
+                )}
                 
                 <div className="mt-6 flex gap-3 justify-between">
                   <Button 
@@ -359,6 +519,21 @@ export default function Home({ content, setContent }: HomeProps) {
                   </Button>
                   
                   <div className="flex gap-3">
+                    {!loadedScript && writableOrganizations.length > 0 && (
+                      <Select value={saveTarget} onValueChange={setSaveTarget}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="personal">Personal</SelectItem>
+                          {writableOrganizations.map((org) => (
+                            <SelectItem key={org.id} value={String(org.id)}>
+                              {org.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
                     <Button 
                       onClick={clearContent}
                       variant="outline"
@@ -429,6 +604,30 @@ export default function Home({ content, setContent }: HomeProps) {
                   <Type className="h-5 w-5" />
                   <span>Captions</span>
                 </Button>
+                <Button 
+                  onClick={() => setActiveSection("usage")}
+                  variant="outline"
+                  className="flex items-center gap-2 p-4 h-auto text-black border-gray-300 hover:bg-gray-50"
+                >
+                  <BarChart3 className="h-5 w-5" />
+                  <span>Usage</span>
+                </Button>
+                <Button 
+                  onClick={() => setActiveSection("team")}
+                  variant="outline"
+                  className="flex items-center gap-2 p-4 h-auto text-black border-gray-300 hover:bg-gray-50"
+                >
+                  <Users className="h-5 w-5" />
+                  <span>Team</span>
+                </Button>
+                <Button 
+                  onClick={() => setActiveSection("account")}
+                  variant="outline"
+                  className="flex items-center gap-2 p-4 h-auto text-black border-gray-300 hover:bg-gray-50"
+                >
+                  <UserCog className="h-5 w-5" />
+                  <span>Account</span>
+                </Button>
                 <Button 
                   onClick={() => setActiveSection("upgrade")}
                   variant="outline"
@@ -577,6 +776,40 @@ export default function Home({ content, setContent }: HomeProps) {
             </div>
           )}
 
+          {/* Usage Section */}
+          {activeSection === "usage" && (
+            <div className="space-y-6">
+              <div className="text-center">
+                <h2 className="text-3xl font-bold text-blue-700 mb-2">Usage</h2>
+                <p className="text-blue-600 mb-8">Your teleprompter, voice input and AI usage over time</p>
+              </div>
+              <UsageDashboard />
+            </div>
+          )}
+
+          {/* Team Section */}
+          {activeSection === "team" && (
+            <div className="space-y-6">
+              <div className="text-center">
+                <h2 className="text-3xl font-bold text-blue-700 mb-2">Team</h2>
+                <p className="text-blue-600 mb-8">Share scripts and a subscription with your production team</p>
+              </div>
+              <TeamManager />
+            </div>
+          )}
+
+          {/* Account Section */}
+          {activeSection === "account" && (
+            <div className="space-y-6">
+              <div className="text-center">
+                <h2 className="text-3xl font-bold text-blue-700 mb-2">Account</h2>
+                <p className="text-blue-600 mb-8">Manage access to your account and data</p>
+              </div>
+              <ApiTokensManager />
+              <AccountDataManager />
+            </div>
+          )}
+
           {/* Upgrade Section */}
           {activeSection === "upgrade" && (
             <div className="space-y-6">
@@ -585,6 +818,7 @@ export default function Home({ content, setContent }: HomeProps) {
                 <p className="text-blue-600 mb-8">Unlock powerful features with Pro or Premium</p>
               </div>
               <SubscriptionPlans />
+              <BillingSection />
             </div>
           )}
         </div>
@@ -600,7 +834,7 @@ export default function Home({ content, setContent }: HomeProps) {
       <SavedScriptsModal
         isOpen={showSavedScripts}
         onClose={() => setShowSavedScripts(false)}
-        onLoadScript={setContent}
+        onLoadScript={handleLoadScript}
       />
 
       {/* Trial Expired Popup */}
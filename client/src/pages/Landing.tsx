@@ -1,3 +1,5 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -15,10 +17,23 @@ import {
   Users
 } from "lucide-react";
 import { SiGoogle } from "react-icons/si";
+import { LocalLoginDialog } from "@/components/LocalLoginDialog";
 import logo from "@assets/Vibe prompting logo v1 18 jul 2025_1753096193955.png";
 
 export default function Landing() {
+  const [showLocalLogin, setShowLocalLogin] = useState(false);
+
+  const { data: authProviders } = useQuery<{ provider: string; google: boolean }>({
+    queryKey: ["/api/auth/providers"],
+    retry: false,
+  });
+  const googleEnabled = !!authProviders?.google;
+
   const handleLogin = () => {
+    if (authProviders?.provider === "local") {
+      setShowLocalLogin(true);
+      return;
+    }
     window.location.href = "/api/login";
   };
 
@@ -116,14 +131,16 @@ export default function Landing() {
             </h1>
           </div>
           <div className="flex gap-3">
-            <Button 
-              onClick={handleGoogleLogin} 
-              variant="outline"
-              className="border-gray-300 hover:bg-gray-50 flex items-center gap-2"
-            >
-              <SiGoogle className="h-4 w-4 text-red-500" />
-              Google
-            </Button>
+            {googleEnabled && (
+              <Button 
+                onClick={handleGoogleLogin} 
+                variant="outline"
+                className="border-gray-300 hover:bg-gray-50 flex items-center gap-2"
+              >
+                <SiGoogle className="h-4 w-4 text-red-500" />
+                Google
+              </Button>
+            )}
             <Button onClick={handleLogin} className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700">
               Sign In
             </Button>
@@ -144,16 +161,20 @@ export default function Landing() {
           </p>
           <div className="flex flex-col items-center gap-6">
             <div className="flex flex-col sm:flex-row gap-4 justify-center items-center">
-              <Button 
-                onClick={handleGoogleLogin}
-                size="lg" 
-                variant="outline"
-                className="border-2 border-gray-300 hover:bg-gray-50 text-gray-700 px-8 py-4 text-lg font-semibold rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 flex items-center gap-3"
-              >
-                <SiGoogle className="h-5 w-5 text-red-500" />
-                Continue with Google
-              </Button>
-              <div className="text-gray-400 text-sm">or</div>
+              {googleEnabled && (
+                <>
+                  <Button 
+                    onClick={handleGoogleLogin}
+                    size="lg" 
+                    variant="outline"
+                    className="border-2 border-gray-300 hover:bg-gray-50 text-gray-700 px-8 py-4 text-lg font-semibold rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 flex items-center gap-3"
+                  >
+                    <SiGoogle className="h-5 w-5 text-red-500" />
+                    Continue with Google
+                  </Button>
+                  <div className="text-gray-400 text-sm">or</div>
+                </>
+              )}
               <Button 
                 onClick={handleLogin}
                 size="lg" 
@@ -281,6 +302,8 @@ export default function Landing() {
           <span>© 2025 Teleprompter / Autocue. All rights reserved.</span>
         </div>
       </footer>
+
+      <LocalLoginDialog isOpen={showLocalLogin} onClose={() => setShowLocalLogin(false)} />
     </div>
   );
 }
\ No newline at end of file
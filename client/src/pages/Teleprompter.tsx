@@ -24,6 +24,8 @@ import {
 } from "lucide-react";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import { DeliveryCueBadge, emphasisClassName } from "@/components/DeliveryCue";
+import { parseCues } from "@shared/cues";
 
 interface TeleprompterProps {
   content: string;
@@ -75,6 +77,9 @@ export default function Teleprompter({ content, onExit }: TeleprompterProps) {
     return { displayContent: cleanContent, navMarkers: markers };
   }, [content]);
 
+  // Delivery cues like [PAUSE] are shown as annotations rather than as text
+  const cueSegments = useMemo(() => parseCues(displayContent), [displayContent]);
+
   // Update refs when state changes
   useEffect(() => {
     scrollSpeedRef.current = scrollSpeed;
@@ -358,17 +363,24 @@ export default function Teleprompter({ content, onExit }: TeleprompterProps) {
           }}
         >
           <div className="text-center whitespace-pre-wrap">
-            {displayContent.split('').map((char, index) => {
-              const isMarker = navMarkers.some(marker => marker.position === index);
-              return (
-                <span
-                  key={index}
-                  className={isMarker ? 'text-violet-400' : ''}
-                >
-                  {char}
-                </span>
-              );
-            })}
+            {cueSegments.map((segment) =>
+              segment.type === 'cue' ? (
+                <DeliveryCueBadge key={`cue-${segment.offset}`} cue={segment.cue} />
+              ) : (
+                segment.text.split('').map((char, charIndex) => {
+                  const index = segment.offset + charIndex;
+                  const isMarker = navMarkers.some(marker => marker.position === index);
+                  return (
+                    <span
+                      key={index}
+                      className={[isMarker && 'text-violet-400', segment.emphasis && emphasisClassName].filter(Boolean).join(' ')}
+                    >
+                      {char}
+                    </span>
+                  );
+                })
+              )
+            )}
           </div>
         </div>
       </div>
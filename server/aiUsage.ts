@@ -0,0 +1,84 @@
+import type { AIOperation } from "@shared/schema";
+import { type LLMUsage, type UsageMeter, llm } from "./llm";
+import { storage } from "./storage";
+
+// Accounting for model calls: every call the AI routes make is logged to ai_usage_logs with
+// its tokens and an estimated cost, which the admin console totals and the tier token
+// budgets in server/quotas.ts are checked against.
+
+interface ModelPrice {
+  input: number; // US dollars per million prompt tokens
+  output: number; // US dollars per million completion tokens
+}
+
+// List prices. Providers report dated model names (gpt-4o-2024-08-06), which match by prefix.
+const defaultModelPrices: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1": { input: 2, output: 8 },
+  stub: { input: 0, output: 0 },
+};
+
+// AI_MODEL_PRICES adds or overrides prices as JSON, e.g. {"llama-3-70b": {"input": 0.6, "output": 0.8}}
+// for a self-hosted model. Calls to models without a price are logged at no cost.
+function loadModelPrices(): Record<string, ModelPrice> {
+  const prices = { ...defaultModelPrices };
+  if (!process.env.AI_MODEL_PRICES) return prices;
+
+  const overrides = JSON.parse(process.env.AI_MODEL_PRICES) as Record<string, Partial<ModelPrice>>;
+  for (const [model, price] of Object.entries(overrides)) {
+    const { input, output } = price ?? {};
+    if (typeof input !== "number" || typeof output !== "number" || input < 0 || output < 0) {
+      throw new Error(`Invalid AI_MODEL_PRICES: ${model} needs non-negative "input" and "output" prices`);
+    }
+    prices[model] = { input, output };
+  }
+  return prices;
+}
+
+const modelPrices = loadModelPrices();
+const unpricedModels = new Set<string>();
+
+function priceFor(model: string): ModelPrice | undefined {
+  if (modelPrices[model]) return modelPrices[model];
+  // The longest matching prefix, so gpt-4o-mini-2024-07-18 isn't priced as gpt-4o
+  const prefix = Object.keys(modelPrices)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? modelPrices[prefix] : undefined;
+}
+
+// In millionths of a dollar, so totals add up exactly
+export function estimateCostMicros(usage: LLMUsage): number {
+  const price = priceFor(usage.model);
+  if (!price) {
+    if (!unpricedModels.has(usage.model)) {
+      unpricedModels.add(usage.model);
+      console.warn(`No price for model "${usage.model}"; its AI usage is logged at no cost. Set AI_MODEL_PRICES to add one.`);
+    }
+    return 0;
+  }
+  return Math.round(usage.promptTokens * price.input + usage.completionTokens * price.output);
+}
+
+// Logs each call made for the user. Accounting failures are reported but don't fail the request.
+export function aiUsageMeter(userId: string, operation: AIOperation): UsageMeter {
+  return async (usage) => {
+    try {
+      await storage.logAIUsage({
+        userId,
+        operation,
+        provider: llm.name,
+        model: usage.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        estimatedTokens: usage.estimated,
+        costMicros: estimateCostMicros(usage),
+      });
+    } catch (error) {
+      console.error("Error logging AI usage:", error);
+    }
+  };
+}
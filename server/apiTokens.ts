@@ -0,0 +1,64 @@
+import { createHash, randomBytes } from "crypto";
+import type { Request } from "express";
+import type { ApiToken, ApiTokenScope } from "@shared/schema";
+import { storage } from "./storage";
+
+const TOKEN_PREFIX = "tp_";
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// The plaintext token is only ever returned once, when it is created
+export function generateApiToken() {
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashApiToken(token), tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 6) };
+}
+
+// AI features under /api/scripts/:id: translation and the co-writing conversation
+const aiScriptRoute = /^\/api\/scripts\/[^/]+\/(translate|chat)(\/|$)/;
+
+// API tokens only reach the script library and teleprompter settings. Everything else
+// (billing, teams, token management, AI features) stays session-only.
+export function requiredScopeFor(method: string, path: string): ApiTokenScope | null {
+  if (aiScriptRoute.test(path)) {
+    return null;
+  }
+  if (path === "/api/scripts" || path.startsWith("/api/scripts/") || path === "/api/folders" || path.startsWith("/api/folders/")) {
+    return method === "GET" ? "scripts:read" : "scripts:write";
+  }
+  if (path === "/api/settings") {
+    return "settings";
+  }
+  return null;
+}
+
+export function getBearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return undefined;
+  return header.slice("Bearer ".length).trim() || undefined;
+}
+
+export type ApiTokenCheck =
+  | { ok: true; token: ApiToken }
+  | { ok: false; status: 401 | 403; message: string };
+
+export async function checkApiToken(req: Request, bearer: string): Promise<ApiTokenCheck> {
+  const token = await storage.getApiTokenByHash(hashApiToken(bearer));
+  if (!token || token.revokedAt || (token.expiresAt && token.expiresAt < new Date())) {
+    return { ok: false, status: 401, message: "Invalid or expired API token" };
+  }
+
+  const scope = requiredScopeFor(req.method, req.path);
+  if (!scope) {
+    return { ok: false, status: 403, message: "This endpoint is not available to API tokens" };
+  }
+  // Write access to scripts implies read access
+  const granted = token.scopes.includes(scope) || (scope === "scripts:read" && token.scopes.includes("scripts:write"));
+  if (!granted) {
+    return { ok: false, status: 403, message: `API token is missing the ${scope} scope` };
+  }
+
+  await storage.touchApiToken(token.id);
+  return { ok: true, token };
+}
@@ -0,0 +1,228 @@
+import { Strategy as GoogleStrategy } from "passport-google-oauth20";
+import passport from "passport";
+import session from "express-session";
+import type { Express, RequestHandler } from "express";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { storage } from "./storage";
+import { replitAuthProvider } from "./replitAuth";
+import { localAuthProvider } from "./localAuth";
+import { checkApiToken, getBearerToken } from "./apiTokens";
+
+// What passport keeps in the session. Every provider fills in claims.sub with the
+// user id, which is all isAuthenticated and the routes rely on.
+export interface SessionUser {
+  claims: {
+    sub: string;
+    email?: string;
+    first_name?: string;
+    last_name?: string;
+    profile_image_url?: string;
+    [claim: string]: unknown;
+  };
+  access_token?: string;
+  refresh_token?: string;
+  expires_at?: number; // unix seconds; sessions without it last as long as the cookie
+  apiTokenId?: number; // set when the request was authenticated with a personal API token
+}
+
+export interface AuthProvider {
+  name: string;
+  // Registers passport strategies plus the /api/login, /api/logout and callback routes
+  setup(app: Express): Promise<void>;
+  // Renews an expired session in place; providers without refresh tokens omit it
+  refresh?(user: SessionUser): Promise<void>;
+}
+
+const providers: Record<string, AuthProvider> = {
+  replit: replitAuthProvider,
+  local: localAuthProvider,
+};
+
+// AUTH_PROVIDER=local signs in with a link printed to the server console, for running outside Replit
+export const authProviderName = process.env.AUTH_PROVIDER ?? "replit";
+
+function getAuthProvider(): AuthProvider {
+  const provider = providers[authProviderName];
+  if (!provider) {
+    throw new Error(`Unknown AUTH_PROVIDER "${authProviderName}". Use one of: ${Object.keys(providers).join(", ")}`);
+  }
+  return provider;
+}
+
+export const isGoogleAuthEnabled = !!(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET);
+
+let sessionStore: session.Store | undefined;
+
+// Signs the session cookie. Local sign-in is for development, so it gets a fixed secret when
+// SESSION_SECRET is unset; every other provider must be given one.
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (authProviderName === "local") {
+    console.warn("SESSION_SECRET is not set; using the development secret for AUTH_PROVIDER=local");
+    return "telescroll-local-development-secret";
+  }
+  throw new Error(`SESSION_SECRET must be set for AUTH_PROVIDER=${authProviderName}`);
+}
+
+export function getSession() {
+  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+  if (process.env.STORAGE_BACKEND === "memory") {
+    // Sessions live alongside the in-memory storage and are lost on restart
+    const MemoryStore = createMemoryStore(session);
+    sessionStore = new MemoryStore({ checkPeriod: sessionTtl });
+  } else {
+    const pgStore = connectPg(session);
+    sessionStore = new pgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: false,
+      ttl: sessionTtl,
+      tableName: "sessions",
+    });
+  }
+  return session({
+    secret: getSessionSecret(),
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: "auto", // https behind the proxy, but still usable on http://localhost
+      maxAge: sessionTtl,
+    },
+  });
+}
+
+// Signs the user out everywhere. The PostgreSQL session rows are purged by storage.deleteUserData,
+// since connect-pg-simple can't list sessions; stores that can, like memorystore, are swept here.
+export async function destroyUserSessions(userId: string): Promise<void> {
+  const store = sessionStore;
+  if (!store?.all) return;
+
+  const all = await new Promise<Record<string, any>>((resolve, reject) => {
+    store.all!((error, sessions) => (error ? reject(error) : resolve(sessions ?? {})));
+  });
+  const sids = Object.entries(all)
+    .filter(([, sess]) => (sess?.passport?.user as SessionUser | undefined)?.claims?.sub === userId)
+    .map(([sid]) => sid);
+  await Promise.all(sids.map(sid => new Promise<void>((resolve, reject) => {
+    store.destroy(sid, (error) => (error ? reject(error) : resolve()));
+  })));
+}
+
+async function upsertGoogleUser(
+  profile: any,
+) {
+  await storage.upsertUser({
+    id: `google_${profile.id}`,
+    email: profile.emails?.[0]?.value,
+    firstName: profile.name?.givenName,
+    lastName: profile.name?.familyName,
+    profileImageUrl: profile.photos?.[0]?.value,
+  });
+}
+
+// Google sign-in is offered next to whichever provider is configured
+function setupGoogleAuth(app: Express) {
+  passport.use(new GoogleStrategy({
+    clientID: process.env.GOOGLE_CLIENT_ID!,
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
+    callbackURL: "/api/auth/google/callback"
+  },
+  async (accessToken, refreshToken, profile, done) => {
+    try {
+      await upsertGoogleUser(profile);
+      const user: SessionUser = {
+        claims: {
+          sub: `google_${profile.id}`,
+          email: profile.emails?.[0]?.value,
+          first_name: profile.name?.givenName,
+          last_name: profile.name?.familyName,
+          profile_image_url: profile.photos?.[0]?.value,
+        },
+        access_token: accessToken,
+        refresh_token: refreshToken,
+      };
+      return done(null, user);
+    } catch (error) {
+      return done(error as Error);
+    }
+  }));
+
+  app.get("/api/auth/google",
+    passport.authenticate("google", { scope: ["profile", "email"] })
+  );
+
+  app.get("/api/auth/google/callback",
+    passport.authenticate("google", { failureRedirect: "/" }),
+    (req, res) => {
+      res.redirect("/");
+    }
+  );
+}
+
+export async function setupAuth(app: Express) {
+  const provider = getAuthProvider();
+
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  if (isGoogleAuthEnabled) {
+    setupGoogleAuth(app);
+  }
+  await provider.setup(app);
+
+  // Lets the landing page show the right sign-in options
+  app.get("/api/auth/providers", (_req, res) => {
+    res.json({ provider: provider.name, google: isGoogleAuthEnabled });
+  });
+}
+
+// Accepts either a browser session or an "Authorization: Bearer <token>" personal API token
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  const bearer = getBearerToken(req);
+  if (bearer) {
+    try {
+      const result = await checkApiToken(req, bearer);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      const tokenUser: SessionUser = { claims: { sub: result.token.userId }, apiTokenId: result.token.id };
+      req.user = tokenUser;
+      return next();
+    } catch (error) {
+      console.error("Error checking API token:", error);
+      return res.status(500).json({ message: "Failed to check API token" });
+    }
+  }
+
+  const user = req.user as SessionUser | undefined;
+
+  if (!req.isAuthenticated() || !user?.claims?.sub) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (!user.expires_at || now <= user.expires_at) {
+    return next();
+  }
+
+  const provider = getAuthProvider();
+  if (!user.refresh_token || !provider.refresh) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  try {
+    await provider.refresh(user);
+    return next();
+  } catch (error) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+};
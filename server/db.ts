@@ -5,9 +5,10 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
+// The in-memory backend never queries the pool, so it doesn't need a database
+if (!process.env.DATABASE_URL && process.env.STORAGE_BACKEND !== "memory") {
   throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
+    "DATABASE_URL must be set. Did you forget to provision a database? Set STORAGE_BACKEND=memory to run without one.",
   );
 }
 
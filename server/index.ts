@@ -1,9 +1,21 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startTeleprompterSessionSweeper } from "./teleprompterSessions";
 import { setupVite, serveStatic, log } from "./vite";
 
+declare module "http" {
+  interface IncomingMessage {
+    rawBody: unknown;
+  }
+}
+
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body around for Stripe webhook signature verification
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -38,6 +50,7 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = await registerRoutes(app);
+  startTeleprompterSessionSweeper();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
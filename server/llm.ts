@@ -0,0 +1,119 @@
+import { createOpenAIProvider } from "./openaiLLM";
+import { stubLLMProvider } from "./stubLLM";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+}
+
+// Tokens used by one call, for the AI usage accounting in server/aiUsage.ts
+export interface LLMUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean; // counted from the text because the provider reported no usage
+}
+
+export interface LLMCompletion {
+  text: string;
+  usage: LLMUsage;
+}
+
+// Receives the usage of every call made for one request
+export type UsageMeter = (usage: LLMUsage) => Promise<void>;
+
+// A chat model. Providers throw on failure; callers add the context to the message.
+export interface LLMProvider {
+  name: string;
+  model: string; // the configured model; usage reports the one that actually answered
+  complete(request: ChatRequest): Promise<LLMCompletion>;
+  // Yields the reply in chunks as it is written and returns the usage once it is finished.
+  // Aborting the signal stops the generation and the generator throws.
+  stream(request: ChatRequest, signal?: AbortSignal): AsyncGenerator<string, LLMUsage>;
+}
+
+// Roughly four characters a token for English text with the OpenAI tokenizers
+const CHARS_PER_TOKEN = 4;
+
+// For providers, and for generations cut short, that have no usage from the model
+export function estimateUsage(model: string, request: ChatRequest, completion: string): LLMUsage {
+  const promptChars = request.messages.reduce((total, message) => total + message.content.length, 0);
+  return {
+    model,
+    promptTokens: Math.ceil(promptChars / CHARS_PER_TOKEN),
+    completionTokens: Math.ceil(completion.length / CHARS_PER_TOKEN),
+    estimated: true,
+  };
+}
+
+const providers: Record<string, () => LLMProvider> = {
+  openai: () => {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("LLM_PROVIDER=openai needs OPENAI_API_KEY. Set LLM_PROVIDER=stub to run with the offline stub instead.");
+    }
+    return createOpenAIProvider("openai", {
+      apiKey: process.env.OPENAI_API_KEY,
+      model: process.env.LLM_MODEL ?? "gpt-4o",
+    });
+  },
+  // Any server speaking the OpenAI chat completions API, such as a self-hosted model
+  "openai-compatible": () => {
+    if (!process.env.LLM_BASE_URL || !process.env.LLM_MODEL) {
+      throw new Error("LLM_PROVIDER=openai-compatible needs LLM_BASE_URL and LLM_MODEL");
+    }
+    return createOpenAIProvider("openai-compatible", {
+      baseURL: process.env.LLM_BASE_URL,
+      apiKey: process.env.LLM_API_KEY ?? "not-needed",
+      model: process.env.LLM_MODEL,
+    });
+  },
+  stub: () => stubLLMProvider,
+};
+
+// OpenAI unless LLM_PROVIDER says otherwise. The stub is only used when asked for, never as
+// a fallback for a missing key.
+export const llmProviderName = process.env.LLM_PROVIDER ?? "openai";
+
+function createLLMProvider(): LLMProvider {
+  const create = providers[llmProviderName];
+  if (!create) {
+    throw new Error(`Unknown LLM_PROVIDER "${llmProviderName}". Use one of: ${Object.keys(providers).join(", ")}`);
+  }
+  return create();
+}
+
+// Stands in for a provider that couldn't be configured. The AI routes answer 503 before
+// they get here (see requireLLM in routes.ts).
+function unconfiguredProvider(reason: string): LLMProvider {
+  return {
+    name: llmProviderName,
+    model: "",
+    complete: async () => {
+      throw new Error(reason);
+    },
+    stream: async function* (): AsyncGenerator<string, LLMUsage> {
+      throw new Error(reason);
+    },
+  };
+}
+
+// A missing or invalid configuration only disables the AI features; the rest of the server
+// starts as usual
+function loadLLMProvider(): { provider: LLMProvider; error: string | null } {
+  try {
+    return { provider: createLLMProvider(), error: null };
+  } catch (error: any) {
+    console.error(`AI features are unavailable: ${error.message}`);
+    return { provider: unconfiguredProvider(error.message), error: error.message };
+  }
+}
+
+const loaded = loadLLMProvider();
+export const llm: LLMProvider = loaded.provider;
+export const llmConfigurationError: string | null = loaded.error;
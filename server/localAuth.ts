@@ -0,0 +1,86 @@
+import { randomBytes, randomUUID } from "crypto";
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import type { AuthProvider, SessionUser } from "./auth";
+
+// Development sign-in without an identity provider: the user enters an email address
+// and a single-use sign-in link is printed to the server console instead of being mailed.
+
+const LINK_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+// Pending links only need to survive until they are clicked, so they stay in process memory
+const pendingLinks = new Map<string, { email: string; expiresAt: number }>();
+
+const localLoginSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+});
+
+async function findOrCreateUser(email: string) {
+  const existing = await storage.getUserByEmail(email);
+  if (existing) return existing;
+  return await storage.upsertUser({ id: `local_${randomUUID()}`, email });
+}
+
+export const localAuthProvider: AuthProvider = {
+  name: "local",
+
+  async setup(app: Express) {
+    // The landing page renders the email form
+    app.get("/api/login", (_req, res) => {
+      res.redirect("/");
+    });
+
+    app.post("/api/login/local", (req, res) => {
+      const parsed = localLoginSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "A valid email address is required" });
+      }
+
+      const now = Date.now();
+      pendingLinks.forEach((link, token) => {
+        if (link.expiresAt < now) pendingLinks.delete(token);
+      });
+
+      const token = randomBytes(32).toString("hex");
+      pendingLinks.set(token, { email: parsed.data.email, expiresAt: now + LINK_TTL_MS });
+
+      const url = `${req.protocol}://${req.get("host")}/api/login/local/verify?token=${token}`;
+      console.log(`Sign-in link for ${parsed.data.email} (valid for 15 minutes): ${url}`);
+      res.json({ message: "Sign-in link printed to the server console" });
+    });
+
+    app.get("/api/login/local/verify", async (req, res, next) => {
+      const token = typeof req.query.token === "string" ? req.query.token : "";
+      const link = pendingLinks.get(token);
+      pendingLinks.delete(token);
+      if (!link || link.expiresAt < Date.now()) {
+        return res.redirect("/");
+      }
+
+      try {
+        const dbUser = await findOrCreateUser(link.email);
+        const user: SessionUser = {
+          claims: {
+            sub: dbUser.id,
+            email: dbUser.email ?? undefined,
+            first_name: dbUser.firstName ?? undefined,
+            last_name: dbUser.lastName ?? undefined,
+          },
+        };
+        req.login(user, (error) => {
+          if (error) return next(error);
+          res.redirect("/");
+        });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    app.get("/api/logout", (req, res) => {
+      req.logout(() => {
+        res.redirect("/");
+      });
+    });
+  },
+};
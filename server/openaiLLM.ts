@@ -0,0 +1,53 @@
+import OpenAI from "openai";
+import { type ChatRequest, type LLMProvider, type LLMUsage, estimateUsage } from "./llm";
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  model: string;
+  baseURL?: string; // defaults to the OpenAI API
+}
+
+function reportedUsage(model: string, usage: OpenAI.CompletionUsage): LLMUsage {
+  return { model, promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens, estimated: false };
+}
+
+export function createOpenAIProvider(name: string, options: OpenAIProviderOptions): LLMProvider {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+
+  const params = (request: ChatRequest) => ({
+    model: options.model,
+    messages: request.messages,
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+  });
+
+  return {
+    name,
+    model: options.model,
+
+    async complete(request) {
+      const response = await client.chat.completions.create(params(request));
+      const text = response.choices[0].message.content ?? "";
+      return { text, usage: response.usage ? reportedUsage(response.model, response.usage) : estimateUsage(options.model, request, text) };
+    },
+
+    async *stream(request, signal) {
+      // Servers that support it send the usage in a last chunk without choices
+      const stream = await client.chat.completions.create(
+        { ...params(request), stream: true, stream_options: { include_usage: true } },
+        { signal },
+      );
+      let completion = "";
+      let usage: LLMUsage | null = null;
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) {
+          completion += text;
+          yield text;
+        }
+        if (chunk.usage) usage = reportedUsage(chunk.model, chunk.usage);
+      }
+      return usage ?? estimateUsage(options.model, request, completion);
+    },
+  };
+}
@@ -0,0 +1,110 @@
+import type { BillingInterval, Plan, PlanPrice, SubscriptionTier } from "@shared/plans";
+import { featuresForTier } from "@shared/entitlements";
+
+interface PriceDefinition {
+  envVar: string; // holds the Stripe price ID for this tier/interval
+  interval: BillingInterval;
+  amount: number;
+}
+
+interface PlanDefinition extends Omit<Plan, "prices" | "entitlements"> {
+  prices: PriceDefinition[];
+}
+
+const CURRENCY = "gbp";
+
+const planDefinitions: PlanDefinition[] = [
+  {
+    tier: "free",
+    name: "Free",
+    description: "Perfect for getting started",
+    prices: [],
+    features: [
+      "1 hour total usage",
+      "Basic teleprompter",
+      "File import (.txt, .docx)",
+      "Standard keyboard controls",
+    ],
+  },
+  {
+    tier: "pro",
+    name: "Pro",
+    description: "For regular speakers",
+    popular: true,
+    prices: [
+      { envVar: "STRIPE_PRICE_PRO_MONTHLY", interval: "month", amount: 199 },
+      { envVar: "STRIPE_PRICE_PRO_ANNUAL", interval: "year", amount: 1990 },
+    ],
+    features: [
+      "Unlimited usage",
+      "2 hours of voice transcription a month",
+      "Advanced teleprompter controls",
+      "Priority support",
+      "All file formats",
+    ],
+  },
+  {
+    tier: "premium",
+    name: "Premium",
+    description: "For professionals",
+    prices: [
+      { envVar: "STRIPE_PRICE_PREMIUM_MONTHLY", interval: "month", amount: 499 },
+      { envVar: "STRIPE_PRICE_PREMIUM_ANNUAL", interval: "year", amount: 4990 },
+    ],
+    features: [
+      "Everything in Pro",
+      "AI Script Assistant (200 requests a month)",
+      "Improve Existing Script",
+      "10 hours of voice input a month",
+      "Script generation (news, speeches, etc.)",
+      "Script improvement suggestions",
+    ],
+  },
+  {
+    tier: "team",
+    name: "Team",
+    description: "For production teams",
+    perSeat: true,
+    prices: [
+      { envVar: "STRIPE_PRICE_TEAM_MONTHLY", interval: "month", amount: 499 },
+      { envVar: "STRIPE_PRICE_TEAM_ANNUAL", interval: "year", amount: 4990 },
+    ],
+    features: [
+      "Everything in Premium for every seat",
+      "Shared team script library",
+      "Owner, editor and presenter roles",
+      "One bill for the whole team",
+    ],
+  },
+];
+
+// Prices whose Stripe price ID is not configured are left out of the catalog,
+// so they can neither be shown nor purchased.
+export function getPlans(): Plan[] {
+  return planDefinitions.map(({ prices, ...plan }) => ({
+    ...plan,
+    entitlements: featuresForTier(plan.tier),
+    prices: prices
+      .filter((price) => !!process.env[price.envVar])
+      .map((price): PlanPrice => ({
+        priceId: process.env[price.envVar]!,
+        interval: price.interval,
+        amount: price.amount,
+        currency: CURRENCY,
+      })),
+  }));
+}
+
+export function findPlanByPriceId(priceId: string): { plan: Plan; price: PlanPrice } | undefined {
+  for (const plan of getPlans()) {
+    const price = plan.prices.find((p) => p.priceId === priceId);
+    if (price) {
+      return { plan, price };
+    }
+  }
+  return undefined;
+}
+
+export function tierForPriceId(priceId: string): SubscriptionTier | undefined {
+  return findPlanByPriceId(priceId)?.plan.tier;
+}
@@ -0,0 +1,140 @@
+import type { User } from "@shared/schema";
+import type { SubscriptionTier } from "@shared/plans";
+import { type Feature, isFeature } from "@shared/entitlements";
+import {
+  type QuotaLimits,
+  type QuotaStatus,
+  defaultAITokenBudgets,
+  defaultQuotaLimits,
+  quotaUnits,
+  isQuotaExhausted,
+  quotaUsed,
+} from "@shared/quotas";
+import { billingPeriodContaining, usageAnchor } from "@shared/usage";
+import { storage } from "./storage";
+
+// QUOTA_LIMITS overrides the default allowances as JSON keyed by tier and feature, e.g.
+// {"premium": {"ai_assistant": 300}}. A null limit makes the feature unlimited for that tier.
+function loadQuotaLimits(): Record<SubscriptionTier, QuotaLimits> {
+  const limits = Object.fromEntries(
+    Object.entries(defaultQuotaLimits).map(([tier, features]) => [tier, { ...features }]),
+  ) as Record<SubscriptionTier, QuotaLimits>;
+  if (!process.env.QUOTA_LIMITS) return limits;
+
+  const overrides = JSON.parse(process.env.QUOTA_LIMITS) as Record<string, Record<string, unknown>>;
+  for (const [tier, features] of Object.entries(overrides)) {
+    if (!Object.hasOwn(limits, tier)) {
+      throw new Error(`Invalid QUOTA_LIMITS: unknown tier "${tier}"`);
+    }
+    for (const [feature, limit] of Object.entries(features)) {
+      if (!isFeature(feature)) {
+        throw new Error(`Invalid QUOTA_LIMITS: unknown feature "${feature}"`);
+      }
+      if (limit === null) {
+        delete limits[tier as SubscriptionTier][feature];
+      } else if (Number.isInteger(limit) && (limit as number) >= 0) {
+        limits[tier as SubscriptionTier][feature] = limit as number;
+      } else {
+        throw new Error(`Invalid QUOTA_LIMITS: ${tier}.${feature} must be a whole number or null`);
+      }
+    }
+  }
+  return limits;
+}
+
+// AI_TOKEN_BUDGETS overrides the AI token budgets as JSON keyed by tier, e.g. {"premium": 3000000}.
+// null removes the budget for that tier.
+function loadAITokenBudgets(): Record<SubscriptionTier, number | null> {
+  const budgets = { ...defaultAITokenBudgets };
+  if (!process.env.AI_TOKEN_BUDGETS) return budgets;
+
+  const overrides = JSON.parse(process.env.AI_TOKEN_BUDGETS) as Record<string, unknown>;
+  for (const [tier, budget] of Object.entries(overrides)) {
+    if (!Object.hasOwn(budgets, tier)) {
+      throw new Error(`Invalid AI_TOKEN_BUDGETS: unknown tier "${tier}"`);
+    }
+    if (budget !== null && !(Number.isInteger(budget) && (budget as number) >= 0)) {
+      throw new Error(`Invalid AI_TOKEN_BUDGETS: ${tier} must be a whole number or null`);
+    }
+    budgets[tier as SubscriptionTier] = budget as number | null;
+  }
+  return budgets;
+}
+
+const quotaLimits = loadQuotaLimits();
+const aiTokenBudgets = loadAITokenBudgets();
+
+export function quotaLimitsForTier(tier: string): QuotaLimits {
+  return quotaLimits[tier as SubscriptionTier] ?? {};
+}
+
+export function aiTokenBudgetForTier(tier: string): number | null {
+  return aiTokenBudgets[tier as SubscriptionTier] ?? null;
+}
+
+// The user's allowances in the current billing period, for every feature their tier limits,
+// followed by the AI token budget if the tier has one. pendingSeconds counts usage that is
+// not logged yet, such as an open teleprompter session.
+export async function getQuotaStatuses(
+  user: User,
+  tier: string,
+  pendingSeconds: Partial<Record<Feature, number>> = {},
+): Promise<QuotaStatus[]> {
+  const limits = quotaLimitsForTier(tier);
+  const features = (Object.keys(limits) as Feature[]).filter((feature) => limits[feature] !== undefined);
+  const tokenBudget = aiTokenBudgetForTier(tier);
+  if (features.length === 0 && tokenBudget === null) return [];
+
+  const period = billingPeriodContaining(usageAnchor(user), new Date());
+  const rows = features.length > 0 ? await storage.getDailyUsage(user.id, period.start, period.end) : [];
+
+  const statuses: QuotaStatus[] = features.map((feature) => {
+    const usage = { seconds: pendingSeconds[feature] ?? 0, events: 0 };
+    for (const row of rows) {
+      if (row.feature !== feature) continue;
+      usage.seconds += row.seconds;
+      usage.events += row.events;
+    }
+    const limit = limits[feature]!;
+    const used = quotaUsed(feature, usage);
+    return {
+      feature,
+      unit: quotaUnits[feature],
+      limit,
+      used,
+      remaining: Math.max(0, limit - used),
+      periodStart: period.start.toISOString(),
+      resetsAt: period.end.toISOString(),
+    };
+  });
+
+  if (tokenBudget !== null) {
+    const [totals] = await storage.getAIUsageTotals(period.start, period.end, { userId: user.id });
+    const used = totals.promptTokens + totals.completionTokens;
+    statuses.push({
+      feature: "ai_assistant",
+      unit: "tokens",
+      limit: tokenBudget,
+      used,
+      remaining: Math.max(0, tokenBudget - used),
+      periodStart: period.start.toISOString(),
+      resetsAt: period.end.toISOString(),
+    });
+  }
+  return statuses;
+}
+
+// The feature's allowance that has run out, if any, or else its first one. Undefined when the
+// tier has no quota for the feature.
+export async function getQuotaStatus(
+  user: User,
+  tier: string,
+  feature: Feature,
+  pendingSeconds = 0,
+): Promise<QuotaStatus | undefined> {
+  const hasTokenBudget = feature === "ai_assistant" && aiTokenBudgetForTier(tier) !== null;
+  if (quotaLimitsForTier(tier)[feature] === undefined && !hasTokenBudget) return undefined;
+  const statuses = (await getQuotaStatuses(user, tier, { [feature]: pendingSeconds }))
+    .filter((status) => status.feature === feature);
+  return statuses.find(isQuotaExhausted) ?? statuses[0];
+}
@@ -1,24 +1,79 @@
-import type { Express, Request } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
+import { createHash } from "crypto";
 import multer from "multer";
-import Stripe from "stripe";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import { generateScript, improveScript } from "./openai";
-import { insertTeleprompterSettingsSchema, insertScriptSchema, insertUsageLogSchema } from "@shared/schema";
+import { setupAuth, isAuthenticated, destroyUserSessions } from "./auth";
+import { continueScriptChat, editSelection, generateScript, improveScript, streamScript, translateScript } from "./scriptWriter";
+import { openEventStream } from "./sse";
+import { aiUsageMeter } from "./aiUsage";
+import { llmConfigurationError } from "./llm";
+import {
+  insertTeleprompterSettingsSchema,
+  insertScriptSchema,
+  insertScriptFolderSchema,
+  insertScriptTemplateSchema,
+  scriptSearchSchema,
+  createApiTokenSchema,
+  adminUserSearchSchema,
+  adminNoteSchema,
+  grantComplimentaryTierSchema,
+  setUserRoleSchema,
+  usageSummaryQuerySchema,
+  aiUsageQuerySchema,
+  scriptEditSchema,
+  translateScriptSchema,
+  scriptChatRequestSchema,
+  insertOrganizationSchema,
+  organizationRoles,
+  scriptRevisionSources,
+  type OrganizationRole,
+  type AdminAction,
+  type User,
+  type Script,
+  type ScriptTemplate,
+  type ScriptRevisionSource,
+} from "@shared/schema";
+import { diffLines } from "@shared/diff";
+import { buildEditHunks, type ScriptEditResult } from "@shared/scriptEdits";
+import { languageName } from "@shared/languages";
+import {
+  addUtcDays,
+  billingPeriodContaining,
+  billingPeriodsBetween,
+  bucketUsage,
+  startOfUtcDay,
+  usageAnchor,
+  type BillingPeriod,
+  type UsageSummary,
+} from "@shared/usage";
 import mammoth from "mammoth";
+import JSZip from "jszip";
 import { z } from "zod";
 import { JSDOM } from "jsdom";
 import MarkdownIt from "markdown-it";
 import { transcribeAudio } from "./speech";
-
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
-}
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2023-10-16",
-});
+import { stripe, handleStripeEvent, cancelSubscriptionNow, currentPeriodEnd, isEndedStatus, paymentClientSecret } from "./stripe";
+import { generateApiToken } from "./apiTokens";
+import {
+  HEARTBEAT_INTERVAL_SECONDS,
+  startTeleprompterSession,
+  recordHeartbeat,
+  endTeleprompterSession,
+} from "./teleprompterSessions";
+import { getPlans, findPlanByPriceId } from "./plans";
+import { aiTokenBudgetForTier, getQuotaStatus, getQuotaStatuses } from "./quotas";
+import {
+  type EntitlementSubject,
+  type Feature,
+  entitlements,
+  canUseFeature,
+  isTrialExpired,
+  requiredTierFor,
+  upgradeMessage,
+  usageLimitForTier,
+} from "@shared/entitlements";
+import { type QuotaStatus, isQuotaExhausted, quotaExceededMessage, trialQuotaStatus } from "@shared/quotas";
 
 interface MulterRequest extends Request {
   file?: any;
@@ -74,6 +129,130 @@ const audioUpload = multer({
   }
 });
 
+function sendUpgradeRequired(res: Response, subject: EntitlementSubject, feature: Feature) {
+  res.status(403).json({
+    message: upgradeMessage(subject, feature),
+    upgrade: true,
+    trialExpired: isTrialExpired(subject),
+    requiredTier: requiredTierFor(feature),
+    quota: trialQuotaStatus(subject, feature),
+  });
+}
+
+// 429 with the allowance that ran out; Retry-After points at the start of the next period
+function sendQuotaExceeded(res: Response, quota: QuotaStatus) {
+  if (quota.resetsAt) {
+    res.setHeader("Retry-After", Math.max(0, Math.ceil((new Date(quota.resetsAt).getTime() - Date.now()) / 1000)));
+  }
+  res.status(429).json({ message: quotaExceededMessage(quota), quotaExceeded: true, quota });
+}
+
+// Rejects the request with a 403 unless the user's tier (or remaining free trial)
+// includes the feature, or with a 429 once the tier's allowance for the current
+// billing period is used up. Must run after isAuthenticated.
+function requireFeature(feature: Feature): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const tier = await storage.getEffectiveTier(userId);
+      if (!user || !tier) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const subject = { tier, usageMinutes: await storage.getUserUsage(userId) };
+      if (!canUseFeature(subject, feature)) {
+        return sendUpgradeRequired(res, subject, feature);
+      }
+
+      const quota = await getQuotaStatus(user, tier, feature);
+      if (quota && isQuotaExhausted(quota)) {
+        return sendQuotaExceeded(res, quota);
+      }
+      next();
+    } catch (error) {
+      console.error(`Error checking ${feature} entitlement:`, error);
+      res.status(500).json({ message: "Failed to check feature access" });
+    }
+  };
+}
+
+// The AI routes answer 503 when the model provider isn't configured (see server/llm.ts)
+const requireLLM: RequestHandler = (req, res, next) => {
+  if (llmConfigurationError) {
+    return res.status(503).json({ message: "AI provider not configured" });
+  }
+  next();
+};
+
+// Loads the caller's membership of the organization in req.params.id and rejects
+// the request unless their role is one of the allowed roles.
+function requireOrganizationRole(...roles: OrganizationRole[]): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      const organizationId = parseInt(req.params.id);
+      const member = await storage.getOrganizationMember(organizationId, req.user.claims.sub);
+      if (!member) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      if (!roles.includes(member.role as OrganizationRole)) {
+        return res.status(403).json({ message: `This action requires the ${roles.join(" or ")} role` });
+      }
+      req.membership = member;
+      next();
+    } catch (error) {
+      console.error('Error checking organization membership:', error);
+      res.status(500).json({ message: "Failed to check organization access" });
+    }
+  };
+}
+
+// ADMIN_EMAILS (comma separated) bootstraps the first admins; they can promote others from the console
+const adminEmails = (process.env.ADMIN_EMAILS ?? "")
+  .split(",")
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean);
+
+function isAdmin(user: User): boolean {
+  return user.role === "admin" || (!!user.email && adminEmails.includes(user.email.toLowerCase()));
+}
+
+// Rejects the request with a 403 unless the caller is an admin. Must run after isAuthenticated.
+const requireAdmin: RequestHandler = async (req: any, res, next) => {
+  try {
+    const user = await storage.getUser(req.user.claims.sub);
+    if (!user || !isAdmin(user)) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+    next();
+  } catch (error) {
+    console.error('Error checking admin access:', error);
+    res.status(500).json({ message: "Failed to check admin access" });
+  }
+};
+
+// Largest ranges GET /api/usage/summary will bucket
+const MAX_USAGE_DAYS = 366;
+const MAX_USAGE_PERIODS = 36;
+
+const deleteAccountSchema = z.object({
+  confirm: z.literal("DELETE"),
+});
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+// "42-morning-news-intro.txt": the id keeps names unique, the slug keeps them readable
+function scriptFileName(script: Script): string {
+  const slug = script.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${script.id}-${slug || "untitled"}.txt`;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication middleware
   await setupAuth(app);
@@ -86,13 +265,147 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      res.json(user);
+      res.json({ ...user, isAdmin: isAdmin(user) });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
+  // Personal API tokens. Managed from a browser session only: tokens can't reach these routes.
+  // The hash never leaves the server; the plaintext token is returned once, on creation.
+  app.get("/api/tokens", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const tokens = await storage.getApiTokens(userId);
+      res.json(tokens.map(({ tokenHash, ...token }) => token));
+    } catch (error) {
+      console.error("Error getting API tokens:", error);
+      res.status(500).json({ message: "Failed to get API tokens" });
+    }
+  });
+
+  app.post("/api/tokens", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { name, scopes, expiresInDays } = createApiTokenSchema.parse(req.body);
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+
+      const created = await storage.createApiToken({
+        userId,
+        name,
+        tokenHash,
+        tokenPrefix,
+        scopes: Array.from(new Set(scopes)),
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+
+      const { tokenHash: _hash, ...apiToken } = created;
+      res.json({ ...apiToken, token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid token data" });
+      } else {
+        console.error("Error creating API token:", error);
+        res.status(500).json({ message: "Failed to create API token" });
+      }
+    }
+  });
+
+  app.delete("/api/tokens/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const revoked = !Number.isNaN(id) && await storage.revokeApiToken(userId, id);
+      if (!revoked) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      res.json({ message: "API token revoked" });
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+
+  // Account data export: every record as JSON, plus each script as a plain text file
+  app.get("/api/account/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const data = await storage.getUserDataExport(userId);
+      if (!data) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const zip = new JSZip();
+      zip.file("account.json", toJson({ user: data.user, settings: data.settings, organizations: data.organizations }));
+      zip.file("scripts.json", toJson(data.scripts));
+      zip.file("script-folders.json", toJson(data.scriptFolders));
+      zip.file("script-templates.json", toJson(data.scriptTemplates));
+      zip.file("script-revisions.json", toJson(data.scriptRevisions));
+      zip.file("script-chats.json", toJson(data.scriptChatMessages));
+      zip.file("usage.json", toJson(data.usageLogs));
+      zip.file("ai-usage.json", toJson(data.aiUsageLogs));
+      zip.file("teleprompter-sessions.json", toJson(data.teleprompterSessions));
+      zip.file("api-tokens.json", toJson(data.apiTokens));
+      for (const script of data.scripts) {
+        zip.file(`scripts/${scriptFileName(script)}`, script.content);
+      }
+
+      const archive = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+      const date = new Date().toISOString().slice(0, 10);
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="teleprompter-export-${date}.zip"`);
+      res.send(archive);
+    } catch (error) {
+      console.error("Error exporting account data:", error);
+      res.status(500).json({ message: "Failed to export account data" });
+    }
+  });
+
+  // Account deletion: cancels paid subscriptions, erases the user's data and signs them out everywhere
+  app.delete("/api/account", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      deleteAccountSchema.parse(req.body);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Teams the user is alone in are deleted with the account; any other team they own
+      // needs a second owner first so it isn't left unmanaged.
+      const subscriptionIds = user.stripeSubscriptionId ? [user.stripeSubscriptionId] : [];
+      for (const organization of await storage.getUserOrganizations(userId)) {
+        const members = await storage.getOrganizationMembers(organization.id);
+        if (members.length <= 1) {
+          if (organization.stripeSubscriptionId) subscriptionIds.push(organization.stripeSubscriptionId);
+        } else if (organization.role === "owner" && members.filter(m => m.role === "owner").length === 1) {
+          return res.status(409).json({ message: `Make someone else an owner of ${organization.name} before deleting your account` });
+        }
+      }
+
+      for (const subscriptionId of subscriptionIds) {
+        await cancelSubscriptionNow(subscriptionId);
+      }
+      await storage.deleteUserData(userId);
+      await destroyUserSessions(userId);
+
+      req.logout(() => {
+        req.session.destroy(() => {
+          res.clearCookie("connect.sid");
+          res.json({ message: "Account deleted" });
+        });
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Type "DELETE" to confirm account deletion' });
+      } else {
+        console.error("Error deleting account:", error);
+        res.status(500).json({ message: "Failed to delete account" });
+      }
+    }
+  });
+
   // Subscription status route
   app.get('/api/subscription-status', isAuthenticated, async (req: any, res) => {
     try {
@@ -103,13 +416,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
 
-      const usageLimit = user.subscriptionTier === 'free' ? 60 : null; // 60 minutes for free tier
+      const usage = await storage.getUserUsage(userId);
+      const tier = await storage.getEffectiveTier(userId) ?? user.subscriptionTier;
       
       res.json({
-        tier: user.subscriptionTier,
+        tier,
         status: user.subscriptionStatus,
-        usage: user.usageMinutes,
-        usageLimit,
+        usage,
+        usageLimit: usageLimitForTier(tier),
       });
     } catch (error) {
       console.error("Error fetching subscription status:", error);
@@ -117,6 +431,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Usage per feature, by UTC day or by billing period (monthly from the Stripe billing
+  // cycle anchor, or from the signup date for users without a subscription)
+  app.get("/api/usage/summary", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { groupBy, from, to } = usageSummaryQuerySchema.parse(req.query);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const now = new Date();
+      const anchor = usageAnchor(user, now);
+      const rangeEnd = to ?? now;
+      let ranges: BillingPeriod[];
+      if (groupBy === "day") {
+        const first = startOfUtcDay(from ?? addUtcDays(rangeEnd, -29));
+        const days = Math.floor((rangeEnd.getTime() - first.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+        if (days < 1 || days > MAX_USAGE_DAYS) {
+          return res.status(400).json({ message: `Choose a range of 1 to ${MAX_USAGE_DAYS} days` });
+        }
+        ranges = Array.from({ length: days }, (_, i) => ({ start: addUtcDays(first, i), end: addUtcDays(first, i + 1) }));
+      } else {
+        // The current period and the five before it
+        let rangeStart = from ?? rangeEnd;
+        for (let i = 0; !from && i < 5; i++) {
+          rangeStart = addUtcDays(billingPeriodContaining(anchor, rangeStart).start, -1);
+        }
+        ranges = rangeStart <= rangeEnd ? billingPeriodsBetween(anchor, rangeStart, rangeEnd) : [];
+        if (ranges.length < 1 || ranges.length > MAX_USAGE_PERIODS) {
+          return res.status(400).json({ message: `Choose a range of 1 to ${MAX_USAGE_PERIODS} billing periods` });
+        }
+      }
+
+      const rows = await storage.getDailyUsage(userId, ranges[0].start, ranges[ranges.length - 1].end);
+      const features = Array.from(new Set([...Object.keys(entitlements), ...rows.map(row => row.feature)]));
+      const { buckets, totals } = bucketUsage(rows, ranges, features);
+      const currentPeriod = billingPeriodContaining(anchor, now);
+
+      const summary: UsageSummary = {
+        groupBy,
+        from: ranges[0].start.toISOString(),
+        to: ranges[ranges.length - 1].end.toISOString(),
+        features,
+        totals,
+        buckets,
+        currentPeriod: { start: currentPeriod.start.toISOString(), end: currentPeriod.end.toISOString() },
+      };
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid usage range" });
+      } else {
+        console.error("Error fetching usage summary:", error);
+        res.status(500).json({ message: "Failed to fetch usage summary" });
+      }
+    }
+  });
+
+  // Allowances of the current billing period for the features the user's tier limits
+  app.get("/api/quotas", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const tier = await storage.getEffectiveTier(userId);
+      if (!user || !tier) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(await getQuotaStatuses(user, tier));
+    } catch (error) {
+      console.error("Error fetching quotas:", error);
+      res.status(500).json({ message: "Failed to fetch quotas" });
+    }
+  });
+
+  // Plan catalog (public - used by the pricing UI)
+  app.get('/api/plans', (req, res) => {
+    res.json(getPlans());
+  });
+
   // Subscription and billing routes
   app.post('/api/create-subscription', isAuthenticated, async (req: any, res) => {
     const userId = req.user.claims.sub;
@@ -126,6 +520,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ error: 'Price ID is required' });
     }
 
+    const catalogEntry = findPlanByPriceId(priceId);
+    if (!catalogEntry) {
+      return res.status(400).json({ error: 'Unknown price ID' });
+    }
+    if (catalogEntry.plan.perSeat) {
+      return res.status(400).json({ error: 'Team plans are purchased for an organization' });
+    }
+
     try {
       let user = await storage.getUser(userId);
       if (!user) {
@@ -138,7 +540,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (subscription.status === 'active') {
           return res.json({
             subscriptionId: subscription.id,
-            clientSecret: subscription.latest_invoice?.payment_intent?.client_secret,
+            clientSecret: paymentClientSecret(subscription),
           });
         }
       }
@@ -166,16 +568,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update user with Stripe info
       await storage.updateUserStripeInfo(userId, customerId, subscription.id);
       
-      // Update subscription tier based on price
-      let tier = 'free';
-      if (priceId.includes('pro')) tier = 'pro';
-      if (priceId.includes('premium')) tier = 'premium';
-      
-      await storage.updateUserSubscription(userId, tier, subscription.status);
+      // Update subscription tier from the plan catalog
+      await storage.updateUserSubscription(userId, catalogEntry.plan.tier, subscription.status);
 
       res.json({
         subscriptionId: subscription.id,
-        clientSecret: subscription.latest_invoice?.payment_intent?.client_secret,
+        clientSecret: paymentClientSecret(subscription),
       });
     } catch (error: any) {
       console.error('Subscription creation error:', error);
@@ -183,172 +581,723 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get user subscription status
-  app.get('/api/subscription-status', isAuthenticated, async (req: any, res) => {
+  // Stripe webhook - keeps users.subscriptionTier/subscriptionStatus in sync with Stripe
+  app.post('/api/stripe/webhook', async (req, res) => {
+    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      console.error('Stripe webhook received but STRIPE_WEBHOOK_SECRET is not set');
+      return res.status(500).json({ error: 'Webhook not configured' });
+    }
+
+    const signature = req.headers['stripe-signature'];
+    if (!signature || !req.rawBody) {
+      return res.status(400).json({ error: 'Missing Stripe signature' });
+    }
+
+    let event;
+    try {
+      event = stripe.webhooks.constructEvent(req.rawBody as Buffer, signature, webhookSecret);
+    } catch (error: any) {
+      console.error('Stripe webhook signature verification failed:', error.message);
+      return res.status(400).json({ error: 'Invalid Stripe signature' });
+    }
+
+    try {
+      await handleStripeEvent(event);
+      res.json({ received: true });
+    } catch (error: any) {
+      console.error('Stripe webhook handling error:', error);
+      res.status(500).json({ error: 'Failed to process webhook' });
+    }
+  });
+
+  // Current plan, renewal date and cancellation state for the billing section
+  app.get('/api/billing/subscription', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      
       if (!user) {
         return res.status(404).json({ error: 'User not found' });
       }
 
-      const usage = await storage.getUserUsage(userId);
-      
+      if (!user.stripeSubscriptionId) {
+        return res.json({
+          tier: user.subscriptionTier,
+          status: user.subscriptionStatus,
+          priceId: null,
+          interval: null,
+          currentPeriodEnd: null,
+          cancelAtPeriodEnd: false,
+          hasBillingAccount: !!user.stripeCustomerId,
+        });
+      }
+
+      const subscription = await stripe.subscriptions.retrieve(user.stripeSubscriptionId);
+      const item = subscription.items.data[0];
+
       res.json({
         tier: user.subscriptionTier,
         status: user.subscriptionStatus,
-        usage: usage,
-        usageLimit: user.subscriptionTier === 'free' ? 60 : null
+        priceId: item?.price.id ?? null,
+        interval: item?.price.recurring?.interval ?? null,
+        currentPeriodEnd: currentPeriodEnd(subscription).toISOString(),
+        cancelAtPeriodEnd: subscription.cancel_at_period_end,
+        hasBillingAccount: true,
       });
-    } catch (error) {
-      console.error('Error fetching subscription status:', error);
-      res.status(500).json({ error: 'Failed to fetch subscription status' });
+    } catch (error: any) {
+      console.error('Error fetching billing subscription:', error);
+      res.status(500).json({ error: error.message });
     }
   });
 
-  // AI Script Generation (Premium feature)
-  app.post('/api/generate-script', isAuthenticated, async (req: any, res) => {
+  // Stripe Customer Portal for card updates, invoices and cancellation
+  app.post('/api/billing/portal', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const canUse = await storage.canUseFeature(userId, 'ai_assistant');
-      
-      if (!canUse) {
-        const totalUsage = await storage.getUserUsage(userId);
-        if (totalUsage >= 60) {
-          return res.status(403).json({ 
-            error: 'You\'ve reached the 60-minute trial limit. Upgrade to Pro for unlimited usage or Premium for AI script assistance and voice input features.',
-            upgrade: true,
-            trialExpired: true
-          });
-        } else {
-          return res.status(403).json({ 
-            error: 'AI Script Assistant requires Premium subscription',
-            upgrade: true 
-          });
-        }
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
       }
-
-      const { scriptType, topic, duration, tone, audience, keyPoints, additionalInstructions } = req.body;
-      
-      if (!scriptType || !topic || !duration) {
-        return res.status(400).json({ error: 'Missing required fields: scriptType, topic, duration' });
+      if (!user.stripeCustomerId) {
+        return res.status(400).json({ error: 'No billing account found. Subscribe to a plan first.' });
       }
 
-      const script = await generateScript({
-        scriptType,
-        topic,
-        duration,
-        tone,
-        audience,
-        keyPoints,
-        additionalInstructions
-      });
-
-      // Log usage
-      await storage.logUsage({
-        userId,
-        feature: 'ai_assistant',
-        duration: 0 // AI generation doesn't count towards time usage
+      const session = await stripe.billingPortal.sessions.create({
+        customer: user.stripeCustomerId,
+        return_url: `${req.protocol}://${req.get('host')}/`,
       });
 
-      res.json({ script });
+      res.json({ url: session.url });
     } catch (error: any) {
-      console.error('Script generation error:', error);
+      console.error('Billing portal error:', error);
       res.status(500).json({ error: error.message });
     }
   });
 
-  // AI Script Improvement (Premium feature)
-  app.post('/api/improve-script', isAuthenticated, async (req: any, res) => {
+  // Preview the prorated amount for switching to another plan or interval
+  app.post('/api/billing/preview-change', isAuthenticated, async (req: any, res) => {
+    const userId = req.user.claims.sub;
+    const { priceId } = req.body;
+
+    const catalogEntry = priceId ? findPlanByPriceId(priceId) : undefined;
+    if (!catalogEntry) {
+      return res.status(400).json({ error: 'Unknown price ID' });
+    }
+    if (catalogEntry.plan.perSeat) {
+      return res.status(400).json({ error: 'Team plans are purchased for an organization' });
+    }
+
     try {
-      const userId = req.user.claims.sub;
-      const canUse = await storage.canUseFeature(userId, 'ai_assistant');
-      
-      if (!canUse) {
-        const totalUsage = await storage.getUserUsage(userId);
-        if (totalUsage >= 60) {
-          return res.status(403).json({ 
-            error: 'You\'ve reached the 60-minute trial limit. Upgrade to Pro for unlimited usage or Premium for AI script assistance and voice input features.',
-            upgrade: true,
-            trialExpired: true
-          });
-        } else {
-          return res.status(403).json({ 
-            error: 'AI Script Assistant requires Premium subscription',
-            upgrade: true 
-          });
-        }
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (!user.stripeCustomerId || !user.stripeSubscriptionId) {
+        return res.status(400).json({ error: 'No active subscription to change' });
       }
 
-      const { content, instructions } = req.body;
-      
-      if (!content || !instructions) {
-        return res.status(400).json({ error: 'Missing required fields: content, instructions' });
+      const subscription = await stripe.subscriptions.retrieve(user.stripeSubscriptionId);
+      const item = subscription.items.data[0];
+      if (!item) {
+        return res.status(400).json({ error: 'No active subscription to change' });
+      }
+      if (item.price.id === priceId) {
+        return res.status(400).json({ error: 'You are already on this plan' });
       }
 
-      const improvedScript = await improveScript(content, instructions);
+      const prorationDate = Math.floor(Date.now() / 1000);
+      const preview = await stripe.invoices.createPreview({
+        customer: user.stripeCustomerId,
+        subscription: subscription.id,
+        subscription_details: {
+          items: [{ id: item.id, price: priceId }],
+          proration_behavior: 'create_prorations',
+          proration_date: prorationDate,
+        },
+      });
 
-      res.json({ script: improvedScript });
+      res.json({
+        tier: catalogEntry.plan.tier,
+        interval: catalogEntry.price.interval,
+        amountDue: preview.amount_due,
+        currency: preview.currency,
+        prorationDate,
+      });
     } catch (error: any) {
-      console.error('Script improvement error:', error);
+      console.error('Plan change preview error:', error);
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Start teleprompter session (log usage)
-  app.post("/api/teleprompter/start", isAuthenticated, async (req: any, res) => {
+  // Switch plan or billing interval, prorated from the previewed date
+  app.post('/api/billing/change-plan', isAuthenticated, async (req: any, res) => {
+    const userId = req.user.claims.sub;
+    const { priceId, prorationDate } = req.body;
+
+    const catalogEntry = priceId ? findPlanByPriceId(priceId) : undefined;
+    if (!catalogEntry) {
+      return res.status(400).json({ error: 'Unknown price ID' });
+    }
+    if (catalogEntry.plan.perSeat) {
+      return res.status(400).json({ error: 'Team plans are purchased for an organization' });
+    }
+
     try {
-      const userId = req.user.claims.sub;
-      
-      // Check if user can use teleprompter
-      const canUse = await storage.canUseFeature(userId, 'teleprompter');
-      if (!canUse) {
-        const totalUsage = await storage.getUserUsage(userId);
-        if (totalUsage >= 60) {
-          return res.status(403).json({ 
-            error: 'You\'ve reached the 60-minute trial limit. Upgrade to Pro for unlimited usage or Premium for AI script assistance and voice input features.',
-            upgrade: true,
-            trialExpired: true
-          });
-        }
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (!user.stripeSubscriptionId) {
+        return res.status(400).json({ error: 'No active subscription to change' });
       }
 
-      res.json({ success: true, message: "Teleprompter session started" });
-    } catch (error) {
-      console.error('Error starting teleprompter session:', error);
-      res.status(500).json({ error: 'Failed to start teleprompter session' });
+      const subscription = await stripe.subscriptions.retrieve(user.stripeSubscriptionId);
+      const item = subscription.items.data[0];
+      if (!item) {
+        return res.status(400).json({ error: 'No active subscription to change' });
+      }
+      if (item.price.id === priceId) {
+        return res.status(400).json({ error: 'You are already on this plan' });
+      }
+
+      const updated = await stripe.subscriptions.update(subscription.id, {
+        items: [{ id: item.id, price: priceId }],
+        proration_behavior: 'create_prorations',
+        proration_date: typeof prorationDate === 'number' ? prorationDate : undefined,
+        cancel_at_period_end: false,
+      });
+
+      await storage.updateUserSubscription(userId, catalogEntry.plan.tier, updated.status);
+
+      res.json({ tier: catalogEntry.plan.tier, status: updated.status });
+    } catch (error: any) {
+      console.error('Plan change error:', error);
+      res.status(500).json({ error: error.message });
     }
   });
 
-  // Log teleprompter usage time
-  app.post("/api/teleprompter/log-usage", isAuthenticated, async (req: any, res) => {
+  // Cancel at the end of the current period, or undo a pending cancellation
+  app.post('/api/billing/cancel', isAuthenticated, async (req: any, res) => {
+    const userId = req.user.claims.sub;
+    const cancel = req.body.cancel !== false;
+
     try {
-      const userId = req.user.claims.sub;
-      const { duration } = req.body; // duration in seconds
-      
-      if (!duration || duration < 0) {
-        return res.status(400).json({ error: 'Invalid duration' });
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (!user.stripeSubscriptionId) {
+        return res.status(400).json({ error: 'No active subscription' });
       }
 
-      await storage.logUsage({
-        userId,
-        feature: 'teleprompter',
-        duration: Math.floor(duration)
+      const subscription = await stripe.subscriptions.update(user.stripeSubscriptionId, {
+        cancel_at_period_end: cancel,
       });
 
-      res.json({ success: true });
-    } catch (error) {
-      console.error('Error logging teleprompter usage:', error);
-      res.status(500).json({ error: 'Failed to log usage' });
+      res.json({ cancelAtPeriodEnd: subscription.cancel_at_period_end });
+    } catch (error: any) {
+      console.error('Subscription cancellation error:', error);
+      res.status(500).json({ error: error.message });
     }
   });
 
-  // Get teleprompter settings
-  app.get("/api/settings", isAuthenticated, async (req: any, res) => {
+  // Invoice and payment history for the billing section
+  app.get('/api/billing/invoices', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      let settings = await storage.getTeleprompterSettings(userId);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (!user.stripeCustomerId) {
+        return res.json({ invoices: [], hasMore: false });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit) || 12, 100);
+      const startingAfter = typeof req.query.startingAfter === 'string' ? req.query.startingAfter : undefined;
+
+      const result = await stripe.invoices.list({
+        customer: user.stripeCustomerId,
+        limit,
+        starting_after: startingAfter,
+      });
+
+      res.json({
+        invoices: result.data.map((invoice) => ({
+          id: invoice.id,
+          number: invoice.number,
+          status: invoice.status,
+          amountDue: invoice.amount_due,
+          amountPaid: invoice.amount_paid,
+          currency: invoice.currency,
+          created: new Date(invoice.created * 1000).toISOString(),
+          periodStart: new Date(invoice.period_start * 1000).toISOString(),
+          periodEnd: new Date(invoice.period_end * 1000).toISOString(),
+          hostedInvoiceUrl: invoice.hosted_invoice_url ?? null,
+          invoicePdf: invoice.invoice_pdf ?? null,
+        })),
+        hasMore: result.has_more,
+      });
+    } catch (error: any) {
+      console.error('Error listing invoices:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // The generator writes from a built-in script type, or from a user or team template picked by templateId
+  const findGenerationTemplate = async (userId: string, templateId: unknown) => {
+    const id = typeof templateId === "number" ? templateId : parseInt(String(templateId));
+    return Number.isNaN(id) ? undefined : await storage.getScriptTemplate(userId, id);
+  };
+
+  // AI Script Generation (Premium feature)
+  app.post('/api/generate-script', isAuthenticated, requireLLM, requireFeature('ai_assistant'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { scriptType, templateId, topic, duration, tone, audience, keyPoints, additionalInstructions } = req.body;
+      
+      if ((!scriptType && !templateId) || !topic || !duration) {
+        return res.status(400).json({ error: 'Missing required fields: scriptType or templateId, topic, duration' });
+      }
+
+      const template = templateId ? await findGenerationTemplate(userId, templateId) : undefined;
+      if (templateId && !template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+
+      const script = await generateScript({
+        scriptType: scriptType ?? 'custom',
+        template: template?.prompt,
+        topic,
+        duration,
+        tone: tone || template?.defaultTone || undefined,
+        audience,
+        keyPoints,
+        additionalInstructions
+      }, aiUsageMeter(userId, 'generate_script'));
+
+      // Log usage
+      await storage.logUsage({
+        userId,
+        feature: 'ai_assistant',
+        duration: 0 // AI generation doesn't count towards time usage
+      });
+
+      res.json({ script });
+    } catch (error: any) {
+      console.error('Script generation error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Streaming variant of /api/generate-script. The script arrives as Server-Sent Events:
+  // a "token" event per chunk of text, then "done" with the whole script, or "error".
+  // Closing the connection cancels the generation.
+  app.post('/api/generate-script/stream', isAuthenticated, requireLLM, requireFeature('ai_assistant'), async (req: any, res) => {
+    const userId = req.user.claims.sub;
+    const { scriptType, templateId, topic, duration, tone, audience, keyPoints, additionalInstructions } = req.body;
+
+    if ((!scriptType && !templateId) || !topic || !duration) {
+      return res.status(400).json({ error: 'Missing required fields: scriptType or templateId, topic, duration' });
+    }
+
+    let template: ScriptTemplate | undefined;
+    try {
+      template = templateId ? await findGenerationTemplate(userId, templateId) : undefined;
+    } catch (error: any) {
+      console.error('Error loading script template:', error);
+      return res.status(500).json({ error: error.message });
+    }
+    if (templateId && !template) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+    const events = openEventStream(res);
+
+    let script = "";
+    try {
+      const chunks = streamScript({
+        scriptType: scriptType ?? 'custom',
+        template: template?.prompt,
+        topic,
+        duration,
+        tone: tone || template?.defaultTone || undefined,
+        audience,
+        keyPoints,
+        additionalInstructions
+      }, aiUsageMeter(userId, 'generate_script'), controller.signal);
+      for await (const text of chunks) {
+        script += text;
+        events.send("token", { text });
+      }
+      events.send("done", { script });
+    } catch (error: any) {
+      if (!controller.signal.aborted) {
+        console.error('Script generation error:', error);
+        events.send("error", { message: error.message });
+      }
+    }
+
+    // A cancelled generation still counts once the model has started writing
+    if (script) {
+      try {
+        await storage.logUsage({ userId, feature: 'ai_assistant', duration: 0 });
+      } catch (error) {
+        console.error('Error logging AI usage:', error);
+      }
+    }
+    events.close();
+  });
+
+  // AI Script Improvement (Premium feature)
+  app.post('/api/improve-script', isAuthenticated, requireLLM, requireFeature('ai_assistant'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { content, instructions } = req.body;
+      
+      if (!content || !instructions) {
+        return res.status(400).json({ error: 'Missing required fields: content, instructions' });
+      }
+
+      const improvedScript = await improveScript(content, instructions, aiUsageMeter(userId, 'improve_script'));
+
+      // Counts as an AI request towards the period's allowance
+      await storage.logUsage({
+        userId,
+        feature: 'ai_assistant',
+        duration: 0
+      });
+
+      res.json({ script: improvedScript });
+    } catch (error: any) {
+      console.error('Script improvement error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Structured AI edit of a selected passage, returned as hunks the editor accepts or rejects
+  app.post('/api/edit-script-selection', isAuthenticated, requireLLM, requireFeature('ai_assistant'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const edit = scriptEditSchema.parse(req.body);
+      const replacement = await editSelection(edit, aiUsageMeter(userId, 'edit_selection'));
+
+      await storage.logUsage({
+        userId,
+        feature: 'ai_assistant',
+        duration: 0
+      });
+
+      const result: ScriptEditResult = {
+        operation: edit.operation,
+        selectionStart: edit.selectionStart,
+        selectionEnd: edit.selectionEnd,
+        replacement,
+        hunks: buildEditHunks(edit.content, edit.selectionStart, edit.selectionEnd, replacement),
+      };
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0]?.message ?? "Invalid edit request" });
+      } else {
+        console.error('Script edit error:', error);
+        res.status(500).json({ message: error.message });
+      }
+    }
+  });
+
+  // Teleprompter sessions are timed on the server from heartbeats; see server/teleprompterSessions.ts
+  app.post("/api/teleprompter/start", isAuthenticated, requireFeature('teleprompter'), async (req: any, res) => {
+    try {
+      const session = await startTeleprompterSession(req.user.claims.sub);
+      res.json({ sessionId: session.id, heartbeatIntervalSeconds: HEARTBEAT_INTERVAL_SECONDS });
+    } catch (error) {
+      console.error("Error starting teleprompter session:", error);
+      res.status(500).json({ message: "Failed to start teleprompter session" });
+    }
+  });
+
+  app.post("/api/teleprompter/sessions/:id/heartbeat", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const session = Number.isNaN(id) ? undefined : await recordHeartbeat(userId, id);
+      if (!session) {
+        return res.status(404).json({ message: "Teleprompter session not found or already ended" });
+      }
+
+      // Free users are stopped once the trial runs out, and subscribers once their allowance for
+      // the period does, counting the minutes of this session
+      const user = await storage.getUser(userId);
+      const tier = await storage.getEffectiveTier(userId);
+      if (!user || !tier) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const subject = {
+        tier,
+        usageMinutes: await storage.getUserUsage(userId) + Math.floor(session.activeSeconds / 60),
+      };
+      if (!canUseFeature(subject, 'teleprompter')) {
+        await storage.closeTeleprompterSession(session.id, "limit");
+        return sendUpgradeRequired(res, subject, 'teleprompter');
+      }
+      const quota = await getQuotaStatus(user, tier, 'teleprompter', session.activeSeconds);
+      if (quota && isQuotaExhausted(quota)) {
+        await storage.closeTeleprompterSession(session.id, "limit");
+        return sendQuotaExceeded(res, quota);
+      }
+
+      res.json({ activeSeconds: session.activeSeconds });
+    } catch (error) {
+      console.error("Error recording teleprompter heartbeat:", error);
+      res.status(500).json({ message: "Failed to record heartbeat" });
+    }
+  });
+
+  app.post("/api/teleprompter/sessions/:id/end", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const session = Number.isNaN(id) ? undefined : await endTeleprompterSession(req.user.claims.sub, id, "ended");
+      if (!session) {
+        return res.status(404).json({ message: "Teleprompter session not found or already ended" });
+      }
+      res.json({ activeSeconds: session.activeSeconds });
+    } catch (error) {
+      console.error("Error ending teleprompter session:", error);
+      res.status(500).json({ message: "Failed to end teleprompter session" });
+    }
+  });
+
+  // Start video recording (entitlement check before the browser starts capturing)
+  app.post("/api/video-recording/start", isAuthenticated, requireFeature('video_recording'), async (req: any, res) => {
+    res.json({ success: true });
+  });
+
+  // Organizations the user belongs to, with their role in each
+  app.get("/api/organizations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const organizations = await storage.getUserOrganizations(userId);
+      res.json(organizations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get organizations" });
+    }
+  });
+
+  // Create organization (creator becomes owner)
+  app.post("/api/organizations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const organizationData = insertOrganizationSchema.parse(req.body);
+      const organization = await storage.createOrganization(organizationData, userId);
+      res.json({ ...organization, role: "owner" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid organization data" });
+      } else {
+        res.status(500).json({ message: "Failed to create organization" });
+      }
+    }
+  });
+
+  // List members
+  app.get("/api/organizations/:id/members", isAuthenticated, requireOrganizationRole(...organizationRoles), async (req: any, res) => {
+    try {
+      const members = await storage.getOrganizationMembers(parseInt(req.params.id));
+      res.json(members);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get members" });
+    }
+  });
+
+  // Add member by email (the person must have signed in at least once)
+  app.post("/api/organizations/:id/members", isAuthenticated, requireOrganizationRole("owner"), async (req: any, res) => {
+    try {
+      const organizationId = parseInt(req.params.id);
+      const { email, role } = z.object({
+        email: z.string().email(),
+        role: z.enum(organizationRoles).default("presenter"),
+      }).parse(req.body);
+
+      const user = await storage.getUserByEmail(email);
+      if (!user) {
+        return res.status(404).json({ message: "No account found for that email. Ask them to sign in first." });
+      }
+      if (await storage.getOrganizationMember(organizationId, user.id)) {
+        return res.status(409).json({ message: "Already a member" });
+      }
+
+      const organization = await storage.getOrganization(organizationId);
+      const members = await storage.getOrganizationMembers(organizationId);
+      if (organization && members.length >= organization.seats) {
+        return res.status(403).json({ message: "All seats are in use. Add seats to invite more members.", upgrade: true });
+      }
+
+      const member = await storage.addOrganizationMember({ organizationId, userId: user.id, role });
+      res.json(member);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid member data" });
+      } else {
+        res.status(500).json({ message: "Failed to add member" });
+      }
+    }
+  });
+
+  // Change a member's role
+  app.patch("/api/organizations/:id/members/:userId", isAuthenticated, requireOrganizationRole("owner"), async (req: any, res) => {
+    try {
+      const organizationId = parseInt(req.params.id);
+      const { role } = z.object({ role: z.enum(organizationRoles) }).parse(req.body);
+
+      if (role !== "owner" && req.params.userId === req.user.claims.sub) {
+        const owners = (await storage.getOrganizationMembers(organizationId)).filter(m => m.role === "owner");
+        if (owners.length === 1) {
+          return res.status(400).json({ message: "An organization needs at least one owner" });
+        }
+      }
+
+      const member = await storage.updateOrganizationMemberRole(organizationId, req.params.userId, role);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.json(member);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid role" });
+      } else {
+        res.status(500).json({ message: "Failed to update member" });
+      }
+    }
+  });
+
+  // Remove a member (owners can remove anyone, members can leave)
+  app.delete("/api/organizations/:id/members/:userId", isAuthenticated, requireOrganizationRole(...organizationRoles), async (req: any, res) => {
+    try {
+      const organizationId = parseInt(req.params.id);
+      const targetUserId = req.params.userId;
+      const isSelf = targetUserId === req.user.claims.sub;
+
+      if (!isSelf && req.membership.role !== "owner") {
+        return res.status(403).json({ message: "This action requires the owner role" });
+      }
+
+      const members = await storage.getOrganizationMembers(organizationId);
+      const target = members.find(m => m.userId === targetUserId);
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (target.role === "owner" && members.filter(m => m.role === "owner").length === 1) {
+        return res.status(400).json({ message: "An organization needs at least one owner" });
+      }
+
+      await storage.removeOrganizationMember(organizationId, targetUserId);
+      res.json({ message: "Member removed successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  // Subscribe the organization to the seat-based team plan
+  app.post("/api/organizations/:id/subscription", isAuthenticated, requireOrganizationRole("owner"), async (req: any, res) => {
+    const organizationId = parseInt(req.params.id);
+    const { priceId } = req.body;
+    const seats = parseInt(req.body.seats);
+
+    const catalogEntry = priceId ? findPlanByPriceId(priceId) : undefined;
+    if (!catalogEntry || !catalogEntry.plan.perSeat) {
+      return res.status(400).json({ error: 'Unknown team price ID' });
+    }
+
+    try {
+      const organization = await storage.getOrganization(organizationId);
+      if (!organization) {
+        return res.status(404).json({ error: 'Organization not found' });
+      }
+      // A second subscription would bill the team twice; seat changes go through PATCH .../seats
+      if (organization.stripeSubscriptionId && !isEndedStatus(organization.subscriptionStatus)) {
+        return res.status(409).json({ error: 'Organization already has a team subscription' });
+      }
+
+      const members = await storage.getOrganizationMembers(organizationId);
+      if (!seats || seats < members.length) {
+        return res.status(400).json({ error: `Seats must cover all ${members.length} current members` });
+      }
+
+      let customerId = organization.stripeCustomerId;
+      if (!customerId) {
+        const user = await storage.getUser(req.user.claims.sub);
+        const customer = await stripe.customers.create({
+          email: user?.email || undefined,
+          name: organization.name,
+          metadata: { organizationId: String(organizationId) }
+        });
+        customerId = customer.id;
+      }
+
+      const subscription = await stripe.subscriptions.create({
+        customer: customerId,
+        items: [{ price: priceId, quantity: seats }],
+        payment_behavior: 'default_incomplete',
+        expand: ['latest_invoice.payment_intent'],
+        metadata: { organizationId: String(organizationId) },
+      });
+
+      await storage.updateOrganizationSubscription(organizationId, {
+        stripeCustomerId: customerId,
+        stripeSubscriptionId: subscription.id,
+        subscriptionTier: catalogEntry.plan.tier,
+        subscriptionStatus: subscription.status,
+        seats,
+      });
+
+      res.json({
+        subscriptionId: subscription.id,
+        clientSecret: paymentClientSecret(subscription),
+      });
+    } catch (error: any) {
+      console.error('Team subscription creation error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Change the number of seats on the team subscription
+  app.patch("/api/organizations/:id/seats", isAuthenticated, requireOrganizationRole("owner"), async (req: any, res) => {
+    const organizationId = parseInt(req.params.id);
+    const seats = parseInt(req.body.seats);
+
+    try {
+      const organization = await storage.getOrganization(organizationId);
+      if (!organization?.stripeSubscriptionId) {
+        return res.status(400).json({ error: 'Organization has no team subscription' });
+      }
+
+      const members = await storage.getOrganizationMembers(organizationId);
+      if (!seats || seats < members.length) {
+        return res.status(400).json({ error: `Seats must cover all ${members.length} current members` });
+      }
+
+      const subscription = await stripe.subscriptions.retrieve(organization.stripeSubscriptionId);
+      await stripe.subscriptions.update(subscription.id, {
+        items: [{ id: subscription.items.data[0].id, quantity: seats }],
+        proration_behavior: 'create_prorations',
+      });
+
+      const updated = await storage.updateOrganizationSubscription(organizationId, { seats });
+      res.json(updated);
+    } catch (error: any) {
+      console.error('Seat update error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Get teleprompter settings
+  app.get("/api/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      let settings = await storage.getTeleprompterSettings(userId);
       if (!settings) {
         // Create default settings if none exist
         settings = await storage.createTeleprompterSettings({
@@ -361,93 +1310,638 @@ export async function registerRoutes(app: Express): Promise<Server> {
           hideCursor: true,
         });
       }
-      res.json(settings);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get settings" });
+    }
+  });
+
+  // Update teleprompter settings
+  app.patch("/api/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updateData = insertTeleprompterSettingsSchema.partial().parse(req.body);
+      const settings = await storage.updateTeleprompterSettings(userId, updateData);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid settings data" });
+      } else {
+        res.status(500).json({ message: "Failed to update settings" });
+      }
+    }
+  });
+
+  // Where the saved text came from, recorded on the revision; "restore" is set by the server only
+  const saveSourceSchema = z.object({
+    source: z.enum(scriptRevisionSources).exclude(["restore"]).default("manual"),
+  });
+
+  const recordRevision = (script: Script, authorId: string, source: ScriptRevisionSource) =>
+    storage.createScriptRevision({
+      scriptId: script.id,
+      authorId,
+      source,
+      title: script.title,
+      content: script.content,
+    });
+
+  // A script can only be filed in a folder of the same library (personal, or the same team)
+  const isFolderInLibrary = async (userId: string, folderId: number, organizationId: number | null | undefined) => {
+    const folder = await storage.getScriptFolder(userId, folderId);
+    return !!folder && folder.organizationId === (organizationId ?? null);
+  };
+
+  // Get all scripts
+  app.get("/api/scripts", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const scripts = await storage.getScripts(userId);
+      res.json(scripts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get scripts" });
+    }
+  });
+
+  // Search the script library: full-text over title and content, filters and paging
+  app.get("/api/scripts/search", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const query = scriptSearchSchema.parse(req.query);
+      const { scripts, total } = await storage.searchScripts(userId, query);
+      res.json({ scripts, total, page: query.page, pageSize: query.pageSize });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid search parameters" });
+      } else {
+        console.error("Error searching scripts:", error);
+        res.status(500).json({ message: "Failed to search scripts" });
+      }
+    }
+  });
+
+  // Script types and tags in use, with counts, for the library filters
+  app.get("/api/scripts/facets", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const facets = await storage.getScriptFacets(userId);
+      res.json(facets);
+    } catch (error) {
+      console.error("Error getting script facets:", error);
+      res.status(500).json({ message: "Failed to get script facets" });
+    }
+  });
+
+  // Get specific script
+  app.get("/api/scripts/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const script = Number.isNaN(id) ? undefined : await storage.getScript(userId, id);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      res.json(script);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get script" });
+    }
+  });
+
+  // Create script
+  app.post("/api/scripts", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      // Translations are only linked to their original through /api/scripts/:id/translate
+      const scriptData = insertScriptSchema.omit({ translatedFromId: true }).parse({ ...req.body, userId });
+
+      // Team scripts can only be created by editors and owners
+      if (scriptData.organizationId) {
+        const member = await storage.getOrganizationMember(scriptData.organizationId, userId);
+        if (!member || member.role === "presenter") {
+          return res.status(403).json({ message: "You don't have permission to add scripts to this team" });
+        }
+      }
+
+      if (scriptData.folderId && !await isFolderInLibrary(userId, scriptData.folderId, scriptData.organizationId)) {
+        return res.status(400).json({ message: "Folder not found" });
+      }
+
+      const { source } = saveSourceSchema.parse(req.body);
+      const script = await storage.createScript(scriptData);
+      await recordRevision(script, userId, source);
+      res.json(script);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid script data" });
+      } else {
+        res.status(500).json({ message: "Failed to create script" });
+      }
+    }
+  });
+
+  // Update script
+  app.patch("/api/scripts/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      // Ownership and team membership cannot be changed through an update
+      const updateData = insertScriptSchema.omit({ userId: true, organizationId: true, translatedFromId: true }).partial().parse(req.body);
+      const { source } = saveSourceSchema.parse(req.body);
+
+      if (updateData.folderId && !Number.isNaN(id)) {
+        const existing = await storage.getScript(userId, id);
+        if (existing && !await isFolderInLibrary(userId, updateData.folderId, existing.organizationId)) {
+          return res.status(400).json({ message: "Folder not found" });
+        }
+      }
+
+      const script = Number.isNaN(id) ? undefined : await storage.updateScript(userId, id, updateData);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      if (updateData.title !== undefined || updateData.content !== undefined) {
+        await recordRevision(script, userId, source);
+      }
+      res.json(script);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid script data" });
+      } else {
+        res.status(500).json({ message: "Failed to update script" });
+      }
+    }
+  });
+
+  // Delete script
+  app.delete("/api/scripts/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const deleted = !Number.isNaN(id) && await storage.deleteScript(userId, id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      res.json({ message: "Script deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete script" });
+    }
+  });
+
+  // Script folders
+  app.get("/api/folders", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const folders = await storage.getScriptFolders(userId);
+      res.json(folders);
+    } catch (error) {
+      console.error("Error getting folders:", error);
+      res.status(500).json({ message: "Failed to get folders" });
+    }
+  });
+
+  app.post("/api/folders", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const folderData = insertScriptFolderSchema.parse({ ...req.body, userId });
+
+      // Like team scripts, team folders can only be created by editors and owners
+      if (folderData.organizationId) {
+        const member = await storage.getOrganizationMember(folderData.organizationId, userId);
+        if (!member || member.role === "presenter") {
+          return res.status(403).json({ message: "You don't have permission to add folders to this team" });
+        }
+      }
+
+      const folder = await storage.createScriptFolder(folderData);
+      res.json(folder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid folder data" });
+      } else {
+        console.error("Error creating folder:", error);
+        res.status(500).json({ message: "Failed to create folder" });
+      }
+    }
+  });
+
+  app.patch("/api/folders/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const { name } = insertScriptFolderSchema.pick({ name: true }).parse(req.body);
+      const folder = Number.isNaN(id) ? undefined : await storage.updateScriptFolder(userId, id, name);
+      if (!folder) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+      res.json(folder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid folder data" });
+      } else {
+        console.error("Error renaming folder:", error);
+        res.status(500).json({ message: "Failed to rename folder" });
+      }
+    }
+  });
+
+  app.delete("/api/folders/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const deleted = !Number.isNaN(id) && await storage.deleteScriptFolder(userId, id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+      res.json({ message: "Folder deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting folder:", error);
+      res.status(500).json({ message: "Failed to delete folder" });
+    }
+  });
+
+  // Script templates for the AI assistant. The built-in ones live in shared/scriptTemplates.ts.
+  app.get("/api/script-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const templates = await storage.getScriptTemplates(userId);
+      res.json(templates);
+    } catch (error) {
+      console.error("Error getting script templates:", error);
+      res.status(500).json({ message: "Failed to get script templates" });
+    }
+  });
+
+  app.post("/api/script-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const templateData = insertScriptTemplateSchema.parse({ ...req.body, userId });
+
+      // Like team folders, team templates can only be created by editors and owners
+      if (templateData.organizationId) {
+        const member = await storage.getOrganizationMember(templateData.organizationId, userId);
+        if (!member || member.role === "presenter") {
+          return res.status(403).json({ message: "You don't have permission to add templates to this team" });
+        }
+      }
+
+      const template = await storage.createScriptTemplate(templateData);
+      res.json(template);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get settings" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0]?.message ?? "Invalid template data" });
+      } else {
+        console.error("Error creating script template:", error);
+        res.status(500).json({ message: "Failed to create script template" });
+      }
     }
   });
 
-  // Update teleprompter settings
-  app.patch("/api/settings", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/script-templates/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const updateData = insertTeleprompterSettingsSchema.partial().parse(req.body);
-      const settings = await storage.updateTeleprompterSettings(userId, updateData);
-      res.json(settings);
+      const id = parseInt(req.params.id);
+      const updateData = insertScriptTemplateSchema
+        .pick({ name: true, prompt: true, defaultTone: true })
+        .partial()
+        .parse(req.body);
+      const template = Number.isNaN(id) ? undefined : await storage.updateScriptTemplate(userId, id, updateData);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      res.json(template);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Invalid settings data" });
+        res.status(400).json({ message: error.errors[0]?.message ?? "Invalid template data" });
       } else {
-        res.status(500).json({ message: "Failed to update settings" });
+        console.error("Error updating script template:", error);
+        res.status(500).json({ message: "Failed to update script template" });
       }
     }
   });
 
-  // Get all scripts
-  app.get("/api/scripts", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/script-templates/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const scripts = await storage.getScripts(userId);
-      res.json(scripts);
+      const id = parseInt(req.params.id);
+      const deleted = !Number.isNaN(id) && await storage.deleteScriptTemplate(userId, id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      res.json({ message: "Template deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to get scripts" });
+      console.error("Error deleting script template:", error);
+      res.status(500).json({ message: "Failed to delete script template" });
     }
   });
 
-  // Get specific script
-  app.get("/api/scripts/:id", isAuthenticated, async (req: any, res) => {
+  // List revisions of a script, newest first
+  app.get("/api/scripts/:id/revisions", isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
-      const script = await storage.getScript(id);
+      const script = Number.isNaN(id) ? undefined : await storage.getScript(userId, id);
       if (!script) {
         return res.status(404).json({ message: "Script not found" });
       }
-      res.json(script);
+      const revisions = await storage.getScriptRevisions(script.id);
+      res.json(revisions);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get script" });
+      console.error("Error getting script revisions:", error);
+      res.status(500).json({ message: "Failed to get script revisions" });
     }
   });
 
-  // Create script
-  app.post("/api/scripts", isAuthenticated, async (req: any, res) => {
+  // Diff a revision against the current script, or against another revision with ?against=<revisionId>
+  app.get("/api/scripts/:id/revisions/:revisionId/diff", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const scriptData = insertScriptSchema.parse({ ...req.body, userId });
-      const script = await storage.createScript(scriptData);
+      const id = parseInt(req.params.id);
+      const revisionId = parseInt(req.params.revisionId);
+      const script = Number.isNaN(id) ? undefined : await storage.getScript(userId, id);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+
+      const revision = Number.isNaN(revisionId) ? undefined : await storage.getScriptRevision(script.id, revisionId);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      let target: { title: string; content: string } = script;
+      if (req.query.against) {
+        const againstId = parseInt(req.query.against as string);
+        const against = Number.isNaN(againstId) ? undefined : await storage.getScriptRevision(script.id, againstId);
+        if (!against) {
+          return res.status(404).json({ message: "Revision not found" });
+        }
+        target = against;
+      }
+
+      res.json({
+        titleChanged: revision.title !== target.title,
+        parts: diffLines(revision.content, target.content),
+      });
+    } catch (error) {
+      console.error("Error diffing script revision:", error);
+      res.status(500).json({ message: "Failed to diff script revision" });
+    }
+  });
+
+  // Restore a script to an earlier revision; the restore itself becomes a new revision
+  app.post("/api/scripts/:id/revisions/:revisionId/restore", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const revisionId = parseInt(req.params.revisionId);
+      const existing = Number.isNaN(id) ? undefined : await storage.getScript(userId, id);
+      if (!existing) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+
+      const revision = Number.isNaN(revisionId) ? undefined : await storage.getScriptRevision(existing.id, revisionId);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const script = await storage.updateScript(userId, existing.id, {
+        title: revision.title,
+        content: revision.content,
+      });
+      if (!script) {
+        return res.status(403).json({ message: "You don't have permission to edit this script" });
+      }
+      await recordRevision(script, userId, "restore");
       res.json(script);
     } catch (error) {
+      console.error("Error restoring script revision:", error);
+      res.status(500).json({ message: "Failed to restore script revision" });
+    }
+  });
+
+  // The original of a script and all its translations, whichever of them :id is
+  app.get("/api/scripts/:id/translations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const script = Number.isNaN(id) ? undefined : await storage.getScript(userId, id);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+
+      const originalId = script.translatedFromId ?? script.id;
+      const original = originalId === script.id ? script : await storage.getScript(userId, originalId);
+      res.json({
+        original: original ?? null,
+        translations: await storage.getScriptTranslations(userId, originalId),
+      });
+    } catch (error) {
+      console.error("Error fetching script translations:", error);
+      res.status(500).json({ message: "Failed to fetch translations" });
+    }
+  });
+
+  // Translates a script into a sibling script linked to the original. Translating into a
+  // language that already has a translation updates it, keeping the old text in its history.
+  app.post("/api/scripts/:id/translate", isAuthenticated, requireLLM, requireFeature('ai_assistant'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const { language } = translateScriptSchema.parse(req.body);
+      const source = Number.isNaN(id) ? undefined : await storage.getScript(userId, id);
+      if (!source) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      if (source.language === language) {
+        return res.status(400).json({ message: `This script is already in ${languageName(language)}` });
+      }
+
+      // Presenters can read team scripts but not add to them
+      if (source.organizationId) {
+        const member = await storage.getOrganizationMember(source.organizationId, userId);
+        if (!member || member.role === "presenter") {
+          return res.status(403).json({ message: "You don't have permission to add scripts to this team" });
+        }
+      }
+
+      // Translating a translation links the result to the same original
+      const originalId = source.translatedFromId ?? source.id;
+      const original = originalId === source.id ? source : await storage.getScript(userId, originalId);
+      const existing = (await storage.getScriptTranslations(userId, originalId)).find(script => script.language === language);
+
+      const content = await translateScript(source.content, language, source.language, aiUsageMeter(userId, 'translate_script'));
+      await storage.logUsage({
+        userId,
+        feature: 'ai_assistant',
+        duration: 0
+      });
+
+      const script = existing
+        ? await storage.updateScript(userId, existing.id, { content })
+        : await storage.createScript({
+            userId,
+            organizationId: source.organizationId,
+            folderId: source.folderId,
+            title: `${(original ?? source).title} (${languageName(language)})`,
+            content,
+            scriptType: source.scriptType,
+            tags: source.tags,
+            generatedByAi: true,
+            language,
+            translatedFromId: originalId,
+          });
+      if (!script) {
+        return res.status(403).json({ message: "You don't have permission to edit this script" });
+      }
+      await recordRevision(script, userId, "ai");
+      res.json(script);
+    } catch (error: any) {
       if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Invalid script data" });
+        res.status(400).json({ message: "Unsupported language" });
       } else {
-        res.status(500).json({ message: "Failed to create script" });
+        console.error("Error translating script:", error);
+        res.status(500).json({ message: error.message });
       }
     }
   });
 
-  // Update script
-  app.patch("/api/scripts/:id", isAuthenticated, async (req: any, res) => {
+  // AI co-writing: each user has one conversation per script, kept on the server. Assistant
+  // turns propose a new version of the script, which the user accepts or rejects.
+  const contentHash = (content: string) => createHash("sha256").update(content).digest("hex");
+
+  app.get("/api/scripts/:id/chat", isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
-      const updateData = insertScriptSchema.partial().parse(req.body);
-      const script = await storage.updateScript(id, updateData);
-      res.json(script);
+      const script = Number.isNaN(id) ? undefined : await storage.getScript(userId, id);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      res.json(await storage.getScriptChatMessages(script.id, userId));
     } catch (error) {
+      console.error("Error getting script chat:", error);
+      res.status(500).json({ message: "Failed to get conversation" });
+    }
+  });
+
+  app.post("/api/scripts/:id/chat", isAuthenticated, requireLLM, requireFeature('ai_assistant'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const { message } = scriptChatRequestSchema.parse(req.body);
+      const script = Number.isNaN(id) ? undefined : await storage.getScript(userId, id);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+
+      const history = await storage.getScriptChatMessages(script.id, userId);
+      const reply = await continueScriptChat(script.content, history, message, aiUsageMeter(userId, 'script_chat'));
+      await storage.logUsage({
+        userId,
+        feature: 'ai_assistant',
+        duration: 0
+      });
+
+      // Both turns are stored once the reply is in, so a failed request leaves no trace
+      const userMessage = await storage.createScriptChatMessage({
+        scriptId: script.id,
+        userId,
+        role: "user",
+        content: message,
+      });
+      const proposes = reply.script !== null && reply.script !== script.content.trim();
+      const assistantMessage = await storage.createScriptChatMessage({
+        scriptId: script.id,
+        userId,
+        role: "assistant",
+        content: reply.reply || (proposes ? "Here is a revised version." : "I left the script as it is."),
+        proposedContent: proposes ? reply.script : null,
+        baseContentHash: proposes ? contentHash(script.content) : null,
+        proposalStatus: proposes ? "pending" : null,
+      });
+      res.json({ message: userMessage, reply: assistantMessage });
+    } catch (error: any) {
       if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Invalid script data" });
+        res.status(400).json({ message: error.errors[0]?.message ?? "Invalid message" });
       } else {
-        res.status(500).json({ message: "Failed to update script" });
+        console.error("Error in script chat:", error);
+        res.status(500).json({ message: error.message });
       }
     }
   });
 
-  // Delete script
-  app.delete("/api/scripts/:id", isAuthenticated, async (req: any, res) => {
+  // Applies a proposed version as a new revision, if the script hasn't changed since it was proposed
+  app.post("/api/scripts/:id/chat/:messageId/accept", isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const id = parseInt(req.params.id);
-      await storage.deleteScript(id);
-      res.json({ message: "Script deleted successfully" });
+      const messageId = parseInt(req.params.messageId);
+      const existing = Number.isNaN(id) ? undefined : await storage.getScript(userId, id);
+      if (!existing) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+
+      const message = Number.isNaN(messageId) ? undefined : await storage.getScriptChatMessage(existing.id, userId, messageId);
+      if (!message || message.proposedContent === null) {
+        return res.status(404).json({ message: "Suggestion not found" });
+      }
+      if (message.proposalStatus !== "pending") {
+        return res.status(400).json({ message: `This suggestion was already ${message.proposalStatus}` });
+      }
+      if (message.baseContentHash !== contentHash(existing.content)) {
+        return res.status(409).json({ message: "The script has changed since this suggestion was made. Ask again to revise the current version." });
+      }
+
+      const script = await storage.updateScript(userId, existing.id, { content: message.proposedContent });
+      if (!script) {
+        return res.status(403).json({ message: "You don't have permission to edit this script" });
+      }
+      const revision = await recordRevision(script, userId, "ai");
+      const accepted = await storage.updateScriptChatProposal(message.id, "accepted", revision.id);
+      res.json({ script, message: accepted });
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete script" });
+      console.error("Error accepting script chat suggestion:", error);
+      res.status(500).json({ message: "Failed to apply suggestion" });
+    }
+  });
+
+  app.post("/api/scripts/:id/chat/:messageId/reject", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const messageId = parseInt(req.params.messageId);
+      const script = Number.isNaN(id) ? undefined : await storage.getScript(userId, id);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+
+      const message = Number.isNaN(messageId) ? undefined : await storage.getScriptChatMessage(script.id, userId, messageId);
+      if (!message || message.proposedContent === null) {
+        return res.status(404).json({ message: "Suggestion not found" });
+      }
+      if (message.proposalStatus !== "pending") {
+        return res.status(400).json({ message: `This suggestion was already ${message.proposalStatus}` });
+      }
+      res.json(await storage.updateScriptChatProposal(message.id, "rejected", null));
+    } catch (error) {
+      console.error("Error rejecting script chat suggestion:", error);
+      res.status(500).json({ message: "Failed to reject suggestion" });
+    }
+  });
+
+  // Starts the conversation over; accepted suggestions stay in the script's history
+  app.delete("/api/scripts/:id/chat", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const id = parseInt(req.params.id);
+      const script = Number.isNaN(id) ? undefined : await storage.getScript(userId, id);
+      if (!script) {
+        return res.status(404).json({ message: "Script not found" });
+      }
+      await storage.clearScriptChat(script.id, userId);
+      res.json({ message: "Conversation cleared" });
+    } catch (error) {
+      console.error("Error clearing script chat:", error);
+      res.status(500).json({ message: "Failed to clear conversation" });
     }
   });
 
@@ -516,19 +2010,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Speech transcription endpoint with usage tracking
-  app.post("/api/transcribe", isAuthenticated, audioUpload.single('audio'), async (req: any, res) => {
+  app.post("/api/transcribe", isAuthenticated, requireFeature('voice_input'), audioUpload.single('audio'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      
-      // Check if user can use voice input (Free users have 1 hour grace period, then upgrade required)
-      const canUse = await storage.canUseFeature(userId, 'voice_input');
-      if (!canUse) {
-        return res.status(403).json({ 
-          message: "You've reached the 60-minute trial limit. Upgrade to Pro for unlimited usage or Premium for AI script assistance and voice input features.",
-          upgrade: true,
-          trialExpired: true
-        });
-      }
 
       if (!req.file) {
         return res.status(400).json({ message: "No audio file provided" });
@@ -585,6 +2069,202 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin console: support tooling for looking up users and fixing their plan or trial.
+  // Every change is recorded in the admin audit trail.
+  const recordAdminAction = (req: any, action: AdminAction, targetUserId: string, details: Record<string, unknown>) =>
+    storage.createAdminAuditLog({ adminId: req.user.claims.sub, action, targetUserId, details });
+
+  app.get("/api/admin/users", isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const query = adminUserSearchSchema.parse(req.query);
+      const result = await storage.searchUsers(query);
+      res.json({ ...result, page: query.page, pageSize: query.pageSize });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid search parameters" });
+      } else {
+        console.error("Error searching users:", error);
+        res.status(500).json({ message: "Failed to search users" });
+      }
+    }
+  });
+
+  app.get("/api/admin/users/:id", isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const tier = await storage.getEffectiveTier(user.id) ?? user.subscriptionTier;
+      // AI usage in the current billing period, which the tier's token budget applies to
+      const period = billingPeriodContaining(usageAnchor(user), new Date());
+      const [aiTotals] = await storage.getAIUsageTotals(period.start, period.end, { userId: user.id });
+      res.json({
+        user: { ...user, isAdmin: isAdmin(user) },
+        effectiveTier: tier,
+        trialUsage: await storage.getUserUsage(user.id),
+        usageLimit: usageLimitForTier(tier),
+        aiUsage: {
+          periodStart: period.start.toISOString(),
+          resetsAt: period.end.toISOString(),
+          tokenBudget: aiTokenBudgetForTier(tier),
+          totals: aiTotals,
+          byOperation: await storage.getAIUsageTotals(period.start, period.end, { userId: user.id, groupBy: "operation" }),
+        },
+        organizations: await storage.getUserOrganizations(user.id),
+        usageLogs: await storage.getUsageLogs(user.id, 100),
+        auditLogs: await storage.getAdminAuditLogs(user.id, 50),
+      });
+    } catch (error) {
+      console.error("Error fetching user for admin:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+  app.post("/api/admin/users/:id/complimentary-tier", isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const { tier, expiresAt, note } = grantComplimentaryTierSchema.parse(req.body);
+      const existing = await storage.getUser(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = await storage.setComplimentaryTier(existing.id, tier, expiresAt);
+      await recordAdminAction(req, "grant_complimentary_tier", user.id, {
+        tier,
+        expiresAt,
+        previousTier: existing.complimentaryTier,
+        previousExpiresAt: existing.complimentaryTierExpiresAt,
+        note,
+      });
+      res.json(user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0]?.message ?? "Invalid complimentary tier" });
+      } else {
+        console.error("Error granting complimentary tier:", error);
+        res.status(500).json({ message: "Failed to grant complimentary tier" });
+      }
+    }
+  });
+
+  app.delete("/api/admin/users/:id/complimentary-tier", isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const { note } = adminNoteSchema.parse(req.body ?? {});
+      const existing = await storage.getUser(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!existing.complimentaryTier) {
+        return res.status(400).json({ message: "User has no complimentary tier" });
+      }
+
+      const user = await storage.setComplimentaryTier(existing.id, null, null);
+      await recordAdminAction(req, "revoke_complimentary_tier", user.id, {
+        previousTier: existing.complimentaryTier,
+        previousExpiresAt: existing.complimentaryTierExpiresAt,
+        note,
+      });
+      res.json(user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid note" });
+      } else {
+        console.error("Error revoking complimentary tier:", error);
+        res.status(500).json({ message: "Failed to revoke complimentary tier" });
+      }
+    }
+  });
+
+  // Trial usage counts from the reset onwards; the usage logs themselves are kept
+  app.post("/api/admin/users/:id/reset-trial", isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const { note } = adminNoteSchema.parse(req.body ?? {});
+      const existing = await storage.getUser(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const minutesUsed = await storage.getUserUsage(existing.id);
+      const user = await storage.resetTrialUsage(existing.id);
+      await recordAdminAction(req, "reset_trial", user.id, { minutesUsed, note });
+      res.json(user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid note" });
+      } else {
+        console.error("Error resetting trial:", error);
+        res.status(500).json({ message: "Failed to reset trial" });
+      }
+    }
+  });
+
+  app.patch("/api/admin/users/:id/role", isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const { role, note } = setUserRoleSchema.parse(req.body);
+      const existing = await storage.getUser(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (existing.id === req.user.claims.sub && role !== "admin") {
+        return res.status(400).json({ message: "You can't remove your own admin role" });
+      }
+
+      const user = await storage.setUserRole(existing.id, role);
+      await recordAdminAction(req, "set_role", user.id, { role, previousRole: existing.role, note });
+      res.json({ ...user, isAdmin: isAdmin(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid role" });
+      } else {
+        console.error("Error setting user role:", error);
+        res.status(500).json({ message: "Failed to set user role" });
+      }
+    }
+  });
+
+  app.get("/api/admin/audit-log", isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const targetUserId = typeof req.query.userId === "string" ? req.query.userId : undefined;
+      res.json(await storage.getAdminAuditLogs(targetUserId, 200));
+    } catch (error) {
+      console.error("Error fetching admin audit log:", error);
+      res.status(500).json({ message: "Failed to fetch admin audit log" });
+    }
+  });
+
+  app.get("/api/admin/ai-usage", isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const query = aiUsageQuerySchema.parse(req.query);
+      const to = query.to ?? new Date();
+      const from = query.from ?? addUtcDays(to, -30);
+      if (from >= to) {
+        return res.status(400).json({ message: "The start of the range must be before its end" });
+      }
+
+      const topUsers = await storage.getAIUsageTotals(from, to, { groupBy: "user", limit: 20 });
+      const [totals] = await storage.getAIUsageTotals(from, to);
+      res.json({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        totals,
+        byModel: await storage.getAIUsageTotals(from, to, { groupBy: "model" }),
+        byOperation: await storage.getAIUsageTotals(from, to, { groupBy: "operation" }),
+        topUsers: await Promise.all(topUsers.map(async (group) => ({
+          ...group,
+          email: group.key ? (await storage.getUser(group.key))?.email ?? null : null,
+        }))),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid date range" });
+      }
+      console.error("Error fetching AI usage:", error);
+      res.status(500).json({ message: "Failed to fetch AI usage" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,332 @@
+import type { ScriptEditRequest } from "@shared/schema";
+import { type ScriptLanguage, languageName, languageNames } from "@shared/languages";
+import { cueInstructions, stripCues } from "@shared/cues";
+import { builtInScriptTemplate, fallbackTemplatePrompt, renderTemplatePrompt } from "@shared/scriptTemplates";
+import { type ChatMessage, type ChatRequest, type LLMUsage, type UsageMeter, estimateUsage, llm } from "./llm";
+
+// Prompts for the AI script assistant. The model behind them is configured in server/llm.ts.
+// Every function takes the meter that accounts for the tokens its calls use.
+
+async function complete(request: ChatRequest, meter: UsageMeter): Promise<string> {
+  const { text, usage } = await llm.complete(request);
+  await meter(usage);
+  return text;
+}
+
+export interface ScriptGenerationRequest {
+  scriptType: string;
+  template?: string; // prompt of a user or team template; otherwise the built-in one for scriptType is used
+  topic: string;
+  duration: number; // in minutes
+  tone?: string;
+  audience?: string;
+  keyPoints?: string[];
+  additionalInstructions?: string;
+}
+
+const SCRIPT_WRITER_PROMPT = "You are an expert speech writer and teleprompter script specialist. Create engaging, well-structured scripts that are easy to read aloud with natural pacing and clear formatting.";
+
+function scriptGenerationPrompt(request: ScriptGenerationRequest): string {
+  const { scriptType, topic, duration, tone = "professional", audience = "general", keyPoints = [], additionalInstructions = "" } = request;
+
+  const template = request.template ?? builtInScriptTemplate(scriptType)?.prompt ?? fallbackTemplatePrompt;
+  let prompt = renderTemplatePrompt(template, { topic, duration, audience, tone });
+
+  // Add key points if provided
+  if (keyPoints.length > 0) {
+    prompt += `\n\nKey points to include: ${keyPoints.join(", ")}.`;
+  }
+
+  // Add additional instructions
+  if (additionalInstructions) {
+    prompt += `\n\nAdditional instructions: ${additionalInstructions}`;
+  }
+
+  prompt += `\n\nFormat the script with clear paragraph breaks and natural pacing for teleprompter use. ${cueInstructions} Make it exactly the right length for ${duration} minutes of speaking at a normal pace (approximately ${duration * 150} spoken words, not counting cues).`;
+
+  return prompt;
+}
+
+function scriptGenerationRequest(request: ScriptGenerationRequest): ChatRequest {
+  return {
+    messages: [
+      {
+        role: "system",
+        content: SCRIPT_WRITER_PROMPT
+      },
+      {
+        role: "user",
+        content: scriptGenerationPrompt(request)
+      }
+    ],
+    maxTokens: Math.min(4000, request.duration * 200), // Adjust based on duration
+    temperature: 0.7,
+  };
+}
+
+export async function generateScript(request: ScriptGenerationRequest, meter: UsageMeter): Promise<string> {
+  try {
+    const script = await complete(scriptGenerationRequest(request), meter);
+    return script || "Failed to generate script content.";
+  } catch (error: any) {
+    console.error(`LLM error (${llm.name}):`, error);
+    throw new Error("Failed to generate script: " + error.message);
+  }
+}
+
+// Yields the script in chunks as the model writes it. Aborting the signal cancels the
+// completion, and the generator then throws the abort error.
+export async function* streamScript(request: ScriptGenerationRequest, meter: UsageMeter, signal?: AbortSignal): AsyncGenerator<string> {
+  const chatRequest = scriptGenerationRequest(request);
+  let script = "";
+  let usage: LLMUsage | null = null;
+  try {
+    const chunks = llm.stream(chatRequest, signal);
+    for (let next = await chunks.next(); ; next = await chunks.next()) {
+      if (next.done) {
+        usage = next.value;
+        break;
+      }
+      script += next.value;
+      yield next.value;
+    }
+  } catch (error: any) {
+    if (signal?.aborted) throw error;
+    console.error(`LLM error (${llm.name}):`, error);
+    throw new Error("Failed to generate script: " + error.message);
+  } finally {
+    // A cancelled generation still used the tokens the model wrote before it stopped
+    if (usage || script) {
+      await meter(usage ?? estimateUsage(llm.model, chatRequest, script));
+    }
+  }
+}
+
+export async function improveScript(content: string, instructions: string, meter: UsageMeter): Promise<string> {
+  try {
+    const script = await complete({
+      messages: [
+        {
+          role: "system",
+          content: `You are an expert script editor. Improve scripts while maintaining their core message and structure. Focus on clarity, flow, and teleprompter readability. Keep the script's delivery cues unless the instructions say otherwise. ${cueInstructions}`
+        },
+        {
+          role: "user",
+          content: `Please improve this script based on these instructions: "${instructions}"\n\nOriginal script:\n${content}`
+        }
+      ],
+      maxTokens: 4000,
+      temperature: 0.3,
+    }, meter);
+    return script || "Failed to improve script content.";
+  } catch (error: any) {
+    console.error(`LLM error (${llm.name}):`, error);
+    throw new Error("Failed to improve script: " + error.message);
+  }
+}
+
+// One earlier turn of a co-writing conversation. Proposals the model made are not sent back;
+// the current script, which includes the accepted ones, is.
+export interface ScriptChatTurn {
+  role: string; // user or assistant, as stored
+  content: string;
+  proposalStatus: string | null;
+}
+
+export interface ScriptChatReply {
+  reply: string;
+  script: string | null; // the whole revised script, or null when the turn only answers
+}
+
+// The most recent turns the model sees; older ones drop out of its context
+const CHAT_HISTORY_TURNS = 20;
+
+function chatTurnContent(turn: ScriptChatTurn): string {
+  switch (turn.proposalStatus) {
+    case "accepted":
+      return `${turn.content}\n(The user accepted this version.)`;
+    case "rejected":
+      return `${turn.content}\n(The user rejected this version.)`;
+    case "pending":
+      return `${turn.content}\n(The user has not reviewed this version; it is not applied.)`;
+    default:
+      return turn.content;
+  }
+}
+
+// The reply has a short note in <note> tags and the revised script in <revised_script> tags.
+// A reply without either tag is taken as the revised script, as in improveScript.
+function parseChatReply(text: string): ScriptChatReply {
+  const note = text.match(/<note>([\s\S]*?)(?:<\/note>|$)/i)?.[1].trim();
+  const script = text.match(/<revised_script>([\s\S]*?)(?:<\/revised_script>|$)/i)?.[1].trim();
+  if (note === undefined && script === undefined) {
+    return { reply: "", script: text.trim() || null };
+  }
+  return { reply: note ?? "", script: script || null };
+}
+
+// Continues a co-writing conversation about a script with the user's next message
+export async function continueScriptChat(content: string, history: ScriptChatTurn[], message: string, meter: UsageMeter): Promise<ScriptChatReply> {
+  try {
+    const reply = await complete({
+      messages: [
+        {
+          role: "system",
+          content: `You are an expert script editor working with the user on a teleprompter script over several turns. Each request applies to the current script, which already includes the changes the user accepted. When the user asks for a change, reply with one or two sentences in <note></note> tags saying what you changed, then the whole revised script in <revised_script></revised_script> tags, with nothing else around them. When the user only asks a question, answer it in <note></note> tags and leave out the script. Keep the script's delivery cues unless asked otherwise. ${cueInstructions}`
+        },
+        ...history.slice(-CHAT_HISTORY_TURNS).map((turn): ChatMessage => ({
+          role: turn.role === "assistant" ? "assistant" : "user",
+          content: chatTurnContent(turn),
+        })),
+        {
+          role: "user",
+          content: `${message}\n\nCurrent script:\n${content}`
+        }
+      ],
+      maxTokens: Math.min(8000, Math.ceil(content.length / 2) + 1000),
+      temperature: 0.5,
+    }, meter);
+    return parseChatReply(reply);
+  } catch (error: any) {
+    console.error(`LLM error (${llm.name}):`, error);
+    throw new Error("Failed to continue the conversation: " + error.message);
+  }
+}
+
+// Spoken at about 150 words a minute, as in the generation prompt
+const WORDS_PER_SECOND = 2.5;
+
+// How much of the script around the selection the model sees, so the rewrite still fits in
+const EDIT_CONTEXT_CHARS = 1500;
+
+function editInstruction(edit: ScriptEditRequest, words: number): string {
+  switch (edit.operation) {
+    case "shorten": {
+      const targetWords = Math.max(1, Math.round(edit.targetSeconds! * WORDS_PER_SECOND));
+      return `Shorten the passage so it takes about ${edit.targetSeconds} seconds to read aloud (roughly ${targetWords} words; it is ${words} words now). Keep the key points and drop repetition and filler.`;
+    }
+    case "expand":
+      return "Expand the passage with supporting detail, examples or transitions, to roughly one and a half times its length. Do not introduce claims the rest of the script contradicts.";
+    case "simplify":
+      return "Rewrite the passage at a plain reading level: short sentences, common words, no jargon. Keep the meaning.";
+    case "conversational":
+      return "Make the passage sound more conversational, as if spoken naturally to the audience: contractions, direct address and a relaxed rhythm, without becoming sloppy.";
+    case "fix_tongue_twisters":
+      return "Rephrase anything that is hard to say aloud — tongue-twisters, clusters of similar sounds, long noun stacks, awkward number or acronym runs — and leave the rest of the passage word for word.";
+  }
+}
+
+// Rewrites the selected passage of a script. Only the passage comes back; the surrounding
+// whitespace of the selection is kept so the result drops straight into its place.
+export async function editSelection(edit: ScriptEditRequest, meter: UsageMeter): Promise<string> {
+  const selected = edit.content.slice(edit.selectionStart, edit.selectionEnd);
+  const before = edit.content.slice(Math.max(0, edit.selectionStart - EDIT_CONTEXT_CHARS), edit.selectionStart);
+  const after = edit.content.slice(edit.selectionEnd, edit.selectionEnd + EDIT_CONTEXT_CHARS);
+  const words = stripCues(selected).split(/\s+/).filter(Boolean).length;
+
+  try {
+    const rewritten = await complete({
+      messages: [
+        {
+          role: "system",
+          content: `You are an expert script editor for teleprompter scripts. You rewrite one passage of a script as instructed. Reply with the rewritten passage only: no quotes, labels or commentary, and nothing from outside the passage. Keep the passage's delivery cues where they still fit. ${cueInstructions}`
+        },
+        {
+          role: "user",
+          content: `${editInstruction(edit, words)}\n\nText before the passage (context only):\n${before}\n\nPASSAGE:\n${selected.trim()}\n\nText after the passage (context only):\n${after}`
+        }
+      ],
+      maxTokens: Math.min(4000, Math.max(200, words * 4)),
+      temperature: 0.4,
+    }, meter);
+
+    const leading = selected.match(/^\s*/)![0];
+    const trailing = selected.match(/\s*$/)![0];
+    return leading + rewritten.trim() + trailing;
+  } catch (error: any) {
+    console.error(`LLM error (${llm.name}):`, error);
+    throw new Error("Failed to edit selection: " + error.message);
+  }
+}
+
+// Cue markers inserted from the editor; translations must keep them
+const MARKER = "■";
+
+function countMarkers(text: string): number {
+  return text.split(MARKER).length - 1;
+}
+
+// The word start closest to position, so a restored marker doesn't split a word
+function nearestWordStart(text: string, position: number): number {
+  const isWordStart = (i: number) => i <= 0 || i >= text.length || /\s/.test(text[i - 1]);
+  for (let distance = 0; distance <= text.length; distance++) {
+    if (isWordStart(position - distance)) return Math.max(0, position - distance);
+    if (isWordStart(position + distance)) return Math.min(text.length, position + distance);
+  }
+  return position;
+}
+
+// If the model dropped or added markers, put the original ones back at the same relative positions
+function keepMarkers(original: string, translated: string): string {
+  if (countMarkers(original) === countMarkers(translated)) return translated;
+  const stripped = translated.split(MARKER).join("");
+  const positions: number[] = [];
+  for (let i = original.indexOf(MARKER); i !== -1; i = original.indexOf(MARKER, i + 1)) {
+    positions.push(nearestWordStart(stripped, Math.round((i / original.length) * stripped.length)));
+  }
+  let result = stripped;
+  for (const position of positions.reverse()) {
+    result = result.slice(0, position) + MARKER + result.slice(position);
+  }
+  return result;
+}
+
+// Translates a script paragraph by paragraph. The paragraphs go to the model as a JSON array and
+// come back one for one, so blank lines between them are kept exactly, as are the markers.
+export async function translateScript(content: string, language: ScriptLanguage, sourceLanguage: string | null, meter: UsageMeter): Promise<string> {
+  const pieces = content.split(/(\n\s*\n)/); // paragraphs at even indices, the breaks between them at odd ones
+  const indices = pieces
+    .map((_, index) => index)
+    .filter((index) => index % 2 === 0 && pieces[index].split(MARKER).join("").trim());
+  if (indices.length === 0) return content;
+
+  const from = sourceLanguage && Object.hasOwn(languageNames, sourceLanguage) ? ` from ${languageName(sourceLanguage)}` : "";
+  let reply: string;
+  try {
+    reply = await complete({
+      messages: [
+        {
+          role: "system",
+          content: `You are a professional translator of speeches and teleprompter scripts. Translate naturally for speaking aloud, keeping the tone, names and numbers. Keep every ${MARKER} marker where it belongs in the sentence, and keep delivery cues such as [PAUSE], [SLOW], [LOOK UP] and [EMPHASIS]...[/EMPHASIS] exactly as written, untranslated, around the translated words.`
+        },
+        {
+          role: "user",
+          content: `Translate each paragraph in this JSON array${from} into ${languageNames[language]}. Reply with only a JSON array of strings with exactly ${indices.length} translated paragraphs, in the same order.\n\n${JSON.stringify(indices.map((index) => pieces[index].trim()))}`
+        }
+      ],
+      maxTokens: Math.min(16000, Math.ceil(content.length / 2) + 500),
+      temperature: 0.3,
+    }, meter);
+  } catch (error: any) {
+    console.error(`LLM error (${llm.name}):`, error);
+    throw new Error("Failed to translate script: " + error.message);
+  }
+
+  let translated: unknown;
+  try {
+    translated = JSON.parse(reply.slice(reply.indexOf("["), reply.lastIndexOf("]") + 1));
+  } catch {
+    translated = null;
+  }
+  if (!Array.isArray(translated) || translated.length !== indices.length || translated.some((text) => typeof text !== "string")) {
+    throw new Error("Failed to translate script: the translation did not keep the paragraph structure, please try again");
+  }
+
+  indices.forEach((index, i) => {
+    const original = pieces[index];
+    const leading = original.match(/^\s*/)![0];
+    const trailing = original.match(/\s*$/)![0];
+    pieces[index] = leading + keepMarkers(original.trim(), (translated as string[])[i].trim()) + trailing;
+  });
+  return pieces.join("");
+}
@@ -0,0 +1,26 @@
+import type { Response } from "express";
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+}
+
+// Switches the response to a Server-Sent Events stream. Each event's data is sent as JSON.
+export function openEventStream(res: Response): EventStream {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no"); // stop proxies from holding events back
+  res.flushHeaders();
+
+  return {
+    send(event, data) {
+      if (res.writableEnded) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (!res.writableEnded) res.end();
+    },
+  };
+}
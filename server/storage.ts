@@ -1,26 +1,167 @@
 import {
+  sessions,
   users,
   teleprompterSettings,
   scripts,
   usageLogs,
+  aiUsageLogs,
+  stripeEvents,
+  organizations,
+  organizationMembers,
+  scriptRevisions,
+  scriptChatMessages,
+  scriptFolders,
+  scriptTemplates,
+  apiTokens,
+  adminAuditLogs,
+  teleprompterSessions,
   type User,
   type UpsertUser,
   type TeleprompterSettings,
   type InsertTeleprompterSettings,
   type Script,
   type InsertScript,
+  type ScriptFolder,
+  type InsertScriptFolder,
+  type ScriptTemplate,
+  type InsertScriptTemplate,
+  type ScriptSearchQuery,
+  type ScriptRevision,
+  type InsertScriptRevision,
+  type ScriptChatMessage,
+  type InsertScriptChatMessage,
+  type ScriptChatProposalStatus,
   type UsageLog,
   type InsertUsageLog,
+  type AIUsageLog,
+  type InsertAIUsageLog,
+  type AIUsageGrouping,
+  type StripeEvent,
+  type ApiToken,
+  type InsertApiToken,
+  type Organization,
+  type InsertOrganization,
+  type OrganizationMember,
+  type InsertOrganizationMember,
+  type OrganizationRole,
+  type UserRole,
+  type AdminAuditLog,
+  type InsertAdminAuditLog,
+  type AdminUserSearchQuery,
+  type TeleprompterSession,
+  type TeleprompterSessionEndReason,
 } from "@shared/schema";
+import { canUseFeature, highestTier } from "@shared/entitlements";
 import { db } from "./db";
-import { eq, sum } from "drizzle-orm";
+import { and, arrayContains, asc, count, desc, eq, gte, ilike, inArray, isNull, lt, or, sql, sum, type SQL } from "drizzle-orm";
+
+export type UserOrganization = Organization & { role: OrganizationRole };
+
+export type OrganizationMemberWithUser = OrganizationMember & {
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+};
+
+export interface ScriptSearchResult {
+  scripts: Script[];
+  total: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface ScriptFacets {
+  scriptTypes: FacetCount[];
+  tags: FacetCount[];
+}
+
+// Usage of one feature on one UTC day
+export interface DailyUsage {
+  day: string; // yyyy-mm-dd
+  feature: string;
+  seconds: number;
+  events: number;
+}
+
+export interface UserSearchResult {
+  users: User[];
+  total: number;
+}
+
+// AI calls, tokens and cost over a period
+export interface AIUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costMicros: number;
+}
+
+// Totals of one group: a user id, model or operation, or null for the ungrouped total
+export type AIUsageGroup = AIUsageTotals & { key: string | null };
+
+// Everything stored about a user, for the account data export
+export interface UserDataExport {
+  user: User;
+  settings: TeleprompterSettings | null;
+  organizations: UserOrganization[];
+  scripts: Script[]; // scripts the user created, personal and team
+  scriptFolders: ScriptFolder[];
+  scriptTemplates: ScriptTemplate[];
+  scriptRevisions: ScriptRevision[]; // history of the exported scripts
+  scriptChatMessages: ScriptChatMessage[]; // the user's conversations with the AI assistant
+  usageLogs: UsageLog[];
+  aiUsageLogs: AIUsageLog[];
+  teleprompterSessions: TeleprompterSession[];
+  apiTokens: Omit<ApiToken, "tokenHash">[];
+}
+
+// A template keeps its library; only its content can change
+export type ScriptTemplateUpdate = Partial<Pick<InsertScriptTemplate, "name" | "prompt" | "defaultTone">>;
+
+export interface OrganizationSubscriptionUpdate {
+  stripeCustomerId?: string;
+  stripeSubscriptionId?: string;
+  subscriptionTier?: string;
+  subscriptionStatus?: string;
+  seats?: number;
+}
 
 export interface IStorage {
   // User operations (required for authentication)
   getUser(id: string): Promise<User | undefined>;
+  getUserByStripeCustomerId(customerId: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
   updateUserStripeInfo(userId: string, customerId: string, subscriptionId: string): Promise<User>;
   updateUserSubscription(userId: string, tier: string, status: string): Promise<User>;
+  setBillingCycleAnchor(userId: string, anchor: Date | null): Promise<User>;
+  
+  // Stripe webhook idempotency
+  hasProcessedStripeEvent(eventId: string): Promise<boolean>;
+  markStripeEventProcessed(eventId: string, type: string): Promise<void>;
+  
+  // Personal API tokens
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiTokens(userId: string): Promise<ApiToken[]>; // newest first, including revoked ones
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  revokeApiToken(userId: string, id: number): Promise<boolean>;
+  touchApiToken(id: number): Promise<void>; // records when the token was last used
+  
+  // Organizations
+  createOrganization(organization: InsertOrganization, ownerId: string): Promise<Organization>;
+  getOrganization(id: number): Promise<Organization | undefined>;
+  getOrganizationByStripeCustomerId(customerId: string): Promise<Organization | undefined>;
+  getUserOrganizations(userId: string): Promise<UserOrganization[]>;
+  getOrganizationMember(organizationId: number, userId: string): Promise<OrganizationMember | undefined>;
+  getOrganizationMembers(organizationId: number): Promise<OrganizationMemberWithUser[]>;
+  addOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember>;
+  updateOrganizationMemberRole(organizationId: number, userId: string, role: OrganizationRole): Promise<OrganizationMember | undefined>; // undefined if not a member
+  removeOrganizationMember(organizationId: number, userId: string): Promise<void>;
+  updateOrganizationSubscription(organizationId: number, update: OrganizationSubscriptionUpdate): Promise<Organization>;
+  getEffectiveTier(userId: string): Promise<string | undefined>; // highest of the user's own and paid-up team tiers
   
   // Settings
   getTeleprompterSettings(userId: string): Promise<TeleprompterSettings | undefined>;
@@ -28,33 +169,373 @@ export interface IStorage {
   updateTeleprompterSettings(userId: string, settings: Partial<InsertTeleprompterSettings>): Promise<TeleprompterSettings>;
   
   // Scripts
-  getScripts(userId: string): Promise<Script[]>;
-  getScript(id: number): Promise<Script | undefined>;
+  getScripts(userId: string): Promise<Script[]>; // personal scripts plus those of the user's organizations
+  // Ownership-aware: scripts the user cannot access behave as if they don't exist
+  getScript(userId: string, id: number): Promise<Script | undefined>;
+  getScriptTranslations(userId: string, originalId: number): Promise<Script[]>; // the ones the user can read, oldest first
   createScript(script: InsertScript): Promise<Script>;
-  updateScript(id: number, script: Partial<InsertScript>): Promise<Script>;
-  deleteScript(id: number): Promise<void>;
+  updateScript(userId: string, id: number, script: Partial<InsertScript>): Promise<Script | undefined>;
+  deleteScript(userId: string, id: number): Promise<boolean>;
+  searchScripts(userId: string, query: ScriptSearchQuery): Promise<ScriptSearchResult>;
+  getScriptFacets(userId: string): Promise<ScriptFacets>;
+  
+  // Script folders (same access rules as scripts)
+  getScriptFolders(userId: string): Promise<ScriptFolder[]>;
+  getScriptFolder(userId: string, id: number): Promise<ScriptFolder | undefined>;
+  createScriptFolder(folder: InsertScriptFolder): Promise<ScriptFolder>;
+  updateScriptFolder(userId: string, id: number, name: string): Promise<ScriptFolder | undefined>;
+  deleteScriptFolder(userId: string, id: number): Promise<boolean>; // scripts in it become unfiled
+
+  // Script templates for the AI assistant (same access rules as scripts)
+  getScriptTemplates(userId: string): Promise<ScriptTemplate[]>;
+  getScriptTemplate(userId: string, id: number): Promise<ScriptTemplate | undefined>;
+  createScriptTemplate(template: InsertScriptTemplate): Promise<ScriptTemplate>;
+  updateScriptTemplate(userId: string, id: number, template: ScriptTemplateUpdate): Promise<ScriptTemplate | undefined>;
+  deleteScriptTemplate(userId: string, id: number): Promise<boolean>;
+  
+  // Script revisions (callers check script access first)
+  createScriptRevision(revision: InsertScriptRevision): Promise<ScriptRevision>;
+  getScriptRevisions(scriptId: number): Promise<ScriptRevision[]>; // newest first
+  getScriptRevision(scriptId: number, revisionId: number): Promise<ScriptRevision | undefined>;
+
+  // AI co-writing conversations, one per script and user (callers check script access first)
+  getScriptChatMessages(scriptId: number, userId: string): Promise<ScriptChatMessage[]>; // oldest first
+  getScriptChatMessage(scriptId: number, userId: string, id: number): Promise<ScriptChatMessage | undefined>;
+  createScriptChatMessage(message: InsertScriptChatMessage): Promise<ScriptChatMessage>;
+  updateScriptChatProposal(id: number, status: ScriptChatProposalStatus, revisionId: number | null): Promise<ScriptChatMessage | undefined>;
+  clearScriptChat(scriptId: number, userId: string): Promise<void>;
   
   // Usage tracking
   logUsage(usage: InsertUsageLog): Promise<UsageLog>;
-  getUserUsage(userId: string, feature?: string): Promise<number>; // returns total minutes used
+  getUserUsage(userId: string, feature?: string): Promise<number>; // returns total minutes used since the last trial reset
+  getDailyUsage(userId: string, from: Date, to: Date): Promise<DailyUsage[]>; // from inclusive, to exclusive
   canUseFeature(userId: string, feature: string): Promise<boolean>;
+
+  // AI usage accounting (see server/aiUsage.ts)
+  logAIUsage(usage: InsertAIUsageLog): Promise<AIUsageLog>;
+  // from inclusive, to exclusive; optionally for one user. Grouped rows come most expensive first.
+  getAIUsageTotals(from: Date, to: Date, options?: { userId?: string; groupBy?: AIUsageGrouping; limit?: number }): Promise<AIUsageGroup[]>;
+
+  // Teleprompter sessions (the timing rules live in server/teleprompterSessions.ts)
+  createTeleprompterSession(userId: string): Promise<TeleprompterSession>;
+  getTeleprompterSession(userId: string, id: number): Promise<TeleprompterSession | undefined>;
+  // Credits the time since the previous heartbeat, at most maxGapSeconds. Undefined unless the session is open.
+  recordTeleprompterHeartbeat(userId: string, id: number, maxGapSeconds: number): Promise<TeleprompterSession | undefined>;
+  // Closes an open session and logs its active time as teleprompter usage. Undefined if it was already closed.
+  closeTeleprompterSession(id: number, reason: TeleprompterSessionEndReason): Promise<TeleprompterSession | undefined>;
+  getStaleTeleprompterSessions(lastHeartbeatBefore: Date): Promise<TeleprompterSession[]>; // open sessions only
+
+  // Account data
+  getUserDataExport(userId: string): Promise<UserDataExport | undefined>;
+  // Erases the user with their personal data, and any organization they are the only member of.
+  // Scripts they wrote for teams that still have other members stay with the team.
+  deleteUserData(userId: string): Promise<void>;
+
+  // Admin console
+  searchUsers(query: AdminUserSearchQuery): Promise<UserSearchResult>; // matches email, name or id; newest first
+  getUsageLogs(userId: string, limit: number): Promise<UsageLog[]>; // newest first
+  setUserRole(userId: string, role: UserRole): Promise<User>;
+  setComplimentaryTier(userId: string, tier: string | null, expiresAt: Date | null): Promise<User>;
+  resetTrialUsage(userId: string): Promise<User>;
+  createAdminAuditLog(entry: InsertAdminAuditLog): Promise<AdminAuditLog>;
+  getAdminAuditLogs(targetUserId: string | undefined, limit: number): Promise<AdminAuditLog[]>; // newest first
+}
+
+// A complimentary tier granted from the admin console counts until it expires
+function complimentaryTiers(user: User): string[] {
+  const active = user.complimentaryTier && (!user.complimentaryTierExpiresAt || user.complimentaryTierExpiresAt > new Date());
+  return active ? [user.complimentaryTier!] : [];
+}
+
+// A team's tier counts for its members only while the subscription is paid up, so not while
+// the first payment is still incomplete
+const entitledTeamStatuses = ["active", "trialing"];
+
+function teamTiers(organizations: Organization[]): string[] {
+  return organizations
+    .filter((organization) => entitledTeamStatuses.includes(organization.subscriptionStatus))
+    .map((organization) => organization.subscriptionTier);
 }
 
+// In-memory backend for development and tests without PostgreSQL (STORAGE_BACKEND=memory).
+// Mirrors DatabaseStorage, including column defaults and access rules; data is lost on restart.
 export class MemStorage implements IStorage {
+  private users: Map<string, User>;
+  private stripeEvents: Map<string, StripeEvent>;
+  private apiTokens: Map<number, ApiToken>;
+  private organizations: Map<number, Organization>;
+  private organizationMembers: Map<number, OrganizationMember>;
   private settings: Map<string, TeleprompterSettings>;
   private scripts: Map<number, Script>;
+  private scriptFolders: Map<number, ScriptFolder>;
+  private scriptTemplates: Map<number, ScriptTemplate>;
+  private scriptRevisions: Map<number, ScriptRevision>;
+  private scriptChatMessages: Map<number, ScriptChatMessage>;
+  private usageLogs: Map<number, UsageLog>;
+  private aiUsageLogs: Map<number, AIUsageLog>;
+  private adminAuditLogs: Map<number, AdminAuditLog>;
+  private teleprompterSessions: Map<number, TeleprompterSession>;
+  private currentApiTokenId: number;
+  private currentOrganizationId: number;
+  private currentMemberId: number;
   private currentSettingsId: number;
   private currentScriptId: number;
+  private currentFolderId: number;
+  private currentTemplateId: number;
+  private currentRevisionId: number;
+  private currentChatMessageId: number;
+  private currentUsageId: number;
+  private currentAIUsageId: number;
+  private currentAuditLogId: number;
+  private currentSessionId: number;
 
   constructor() {
+    this.users = new Map();
+    this.stripeEvents = new Map();
+    this.apiTokens = new Map();
+    this.organizations = new Map();
+    this.organizationMembers = new Map();
     this.settings = new Map();
     this.scripts = new Map();
+    this.scriptFolders = new Map();
+    this.scriptTemplates = new Map();
+    this.scriptRevisions = new Map();
+    this.scriptChatMessages = new Map();
+    this.usageLogs = new Map();
+    this.aiUsageLogs = new Map();
+    this.adminAuditLogs = new Map();
+    this.teleprompterSessions = new Map();
+    this.currentApiTokenId = 1;
+    this.currentOrganizationId = 1;
+    this.currentMemberId = 1;
     this.currentSettingsId = 1;
     this.currentScriptId = 1;
+    this.currentFolderId = 1;
+    this.currentTemplateId = 1;
+    this.currentRevisionId = 1;
+    this.currentChatMessageId = 1;
+    this.currentUsageId = 1;
+    this.currentAIUsageId = 1;
+    this.currentAuditLogId = 1;
+    this.currentSessionId = 1;
+  }
+
+  // User operations (required for authentication)
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.stripeCustomerId === customerId);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const existing = this.users.get(userData.id);
+    const now = new Date();
+    const user: User = existing
+      ? { ...existing, ...userData, updatedAt: now }
+      : {
+          id: userData.id,
+          email: userData.email ?? null,
+          firstName: userData.firstName ?? null,
+          lastName: userData.lastName ?? null,
+          profileImageUrl: userData.profileImageUrl ?? null,
+          stripeCustomerId: userData.stripeCustomerId ?? null,
+          stripeSubscriptionId: userData.stripeSubscriptionId ?? null,
+          subscriptionTier: userData.subscriptionTier ?? "free",
+          subscriptionStatus: userData.subscriptionStatus ?? "active",
+          usageMinutes: userData.usageMinutes ?? 0,
+          role: userData.role ?? "user",
+          complimentaryTier: userData.complimentaryTier ?? null,
+          complimentaryTierExpiresAt: userData.complimentaryTierExpiresAt ?? null,
+          trialResetAt: userData.trialResetAt ?? null,
+          billingCycleAnchor: userData.billingCycleAnchor ?? null,
+          createdAt: now,
+          updatedAt: now,
+        };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  private updateUser(userId: string, changes: Partial<User>): User {
+    const existing = this.users.get(userId);
+    if (!existing) {
+      throw new Error('User not found');
+    }
+    const user: User = { ...existing, ...changes, updatedAt: new Date() };
+    this.users.set(userId, user);
+    return user;
+  }
+
+  async updateUserStripeInfo(userId: string, customerId: string, subscriptionId: string): Promise<User> {
+    return this.updateUser(userId, { stripeCustomerId: customerId, stripeSubscriptionId: subscriptionId });
+  }
+
+  async updateUserSubscription(userId: string, tier: string, status: string): Promise<User> {
+    return this.updateUser(userId, { subscriptionTier: tier, subscriptionStatus: status });
+  }
+
+  async setBillingCycleAnchor(userId: string, anchor: Date | null): Promise<User> {
+    return this.updateUser(userId, { billingCycleAnchor: anchor });
+  }
+
+  // Stripe webhook idempotency
+  async hasProcessedStripeEvent(eventId: string): Promise<boolean> {
+    return this.stripeEvents.has(eventId);
+  }
+
+  async markStripeEventProcessed(eventId: string, type: string): Promise<void> {
+    if (!this.stripeEvents.has(eventId)) {
+      this.stripeEvents.set(eventId, { id: eventId, type, processedAt: new Date() });
+    }
+  }
+
+  // Personal API tokens
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.currentApiTokenId++;
+    const token: ApiToken = {
+      ...insertToken,
+      id,
+      expiresAt: insertToken.expiresAt ?? null,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.apiTokens.set(id, token);
+    return token;
+  }
+
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter(token => token.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async revokeApiToken(userId: string, id: number): Promise<boolean> {
+    const token = this.apiTokens.get(id);
+    if (!token || token.userId !== userId || token.revokedAt) {
+      return false;
+    }
+    this.apiTokens.set(id, { ...token, revokedAt: new Date() });
+    return true;
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (token) {
+      this.apiTokens.set(id, { ...token, lastUsedAt: new Date() });
+    }
+  }
+
+  // Organizations
+  async createOrganization(insertOrganization: InsertOrganization, ownerId: string): Promise<Organization> {
+    const id = this.currentOrganizationId++;
+    const organization: Organization = {
+      id,
+      name: insertOrganization.name,
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      subscriptionTier: "free",
+      subscriptionStatus: "active",
+      seats: 1,
+      createdAt: new Date(),
+    };
+    this.organizations.set(id, organization);
+    await this.addOrganizationMember({ organizationId: id, userId: ownerId, role: "owner" });
+    return organization;
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    return this.organizations.get(id);
+  }
+
+  async getOrganizationByStripeCustomerId(customerId: string): Promise<Organization | undefined> {
+    return Array.from(this.organizations.values()).find(org => org.stripeCustomerId === customerId);
+  }
+
+  async getUserOrganizations(userId: string): Promise<UserOrganization[]> {
+    return Array.from(this.organizationMembers.values())
+      .filter(member => member.userId === userId)
+      .flatMap(member => {
+        const organization = this.organizations.get(member.organizationId);
+        return organization ? [{ ...organization, role: member.role as OrganizationRole }] : [];
+      });
+  }
+
+  async getOrganizationMember(organizationId: number, userId: string): Promise<OrganizationMember | undefined> {
+    return Array.from(this.organizationMembers.values())
+      .find(member => member.organizationId === organizationId && member.userId === userId);
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<OrganizationMemberWithUser[]> {
+    // Inner join: members without a user row are left out, as in DatabaseStorage
+    return Array.from(this.organizationMembers.values())
+      .filter(member => member.organizationId === organizationId)
+      .flatMap(member => {
+        const user = this.users.get(member.userId);
+        return user ? [{ ...member, email: user.email, firstName: user.firstName, lastName: user.lastName }] : [];
+      });
+  }
+
+  async addOrganizationMember(insertMember: InsertOrganizationMember): Promise<OrganizationMember> {
+    if (await this.getOrganizationMember(insertMember.organizationId, insertMember.userId)) {
+      throw new Error('Member already exists');
+    }
+    const id = this.currentMemberId++;
+    const member: OrganizationMember = {
+      ...insertMember,
+      id,
+      role: insertMember.role ?? "presenter",
+      createdAt: new Date(),
+    };
+    this.organizationMembers.set(id, member);
+    return member;
+  }
+
+  async updateOrganizationMemberRole(organizationId: number, userId: string, role: OrganizationRole): Promise<OrganizationMember | undefined> {
+    const existing = await this.getOrganizationMember(organizationId, userId);
+    if (!existing) return undefined;
+    const member: OrganizationMember = { ...existing, role };
+    this.organizationMembers.set(member.id, member);
+    return member;
+  }
+
+  async removeOrganizationMember(organizationId: number, userId: string): Promise<void> {
+    const member = await this.getOrganizationMember(organizationId, userId);
+    if (member) {
+      this.organizationMembers.delete(member.id);
+    }
+  }
+
+  async updateOrganizationSubscription(organizationId: number, update: OrganizationSubscriptionUpdate): Promise<Organization> {
+    const existing = this.organizations.get(organizationId);
+    if (!existing) {
+      throw new Error('Organization not found');
+    }
+    const organization: Organization = { ...existing, ...update };
+    this.organizations.set(organizationId, organization);
+    return organization;
+  }
+
+  async getEffectiveTier(userId: string): Promise<string | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) return undefined;
+
+    const memberships = await this.getUserOrganizations(userId);
+    return highestTier([user.subscriptionTier, ...complimentaryTiers(user), ...teamTiers(memberships)]);
   }
 
+  // Settings
   async getTeleprompterSettings(userId: string): Promise<TeleprompterSettings | undefined> {
-    return Array.from(this.settings.values()).find(setting => setting.userId === userId);
+    return this.settings.get(userId);
   }
 
   async createTeleprompterSettings(insertSettings: InsertTeleprompterSettings): Promise<TeleprompterSettings> {
@@ -83,33 +564,566 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  // Scripts
+  // Same rule as DatabaseStorage.accessCondition, for scripts, script folders and script templates
+  private async canAccess(row: { userId: string; organizationId: number | null }, userId: string, roles: OrganizationRole[]) {
+    if (row.organizationId === null) {
+      return row.userId === userId;
+    }
+    const member = await this.getOrganizationMember(row.organizationId, userId);
+    return !!member && roles.includes(member.role as OrganizationRole);
+  }
+
+  private async accessibleScripts(userId: string): Promise<Script[]> {
+    const accessible: Script[] = [];
+    for (const script of Array.from(this.scripts.values())) {
+      if (await this.canAccess(script, userId, ["owner", "editor", "presenter"])) {
+        accessible.push(script);
+      }
+    }
+    return accessible;
+  }
+
   async getScripts(userId: string): Promise<Script[]> {
-    return Array.from(this.scripts.values()).filter(script => script.userId === userId);
+    return await this.accessibleScripts(userId);
   }
 
-  async getScript(id: number): Promise<Script | undefined> {
-    return this.scripts.get(id);
+  async getScript(userId: string, id: number): Promise<Script | undefined> {
+    const script = this.scripts.get(id);
+    return script && await this.canAccess(script, userId, ["owner", "editor", "presenter"]) ? script : undefined;
+  }
+
+  async getScriptTranslations(userId: string, originalId: number): Promise<Script[]> {
+    return (await this.accessibleScripts(userId))
+      .filter(script => script.translatedFromId === originalId)
+      .sort((a, b) => a.id - b.id);
   }
 
   async createScript(insertScript: InsertScript): Promise<Script> {
     const id = this.currentScriptId++;
-    const script: Script = { ...insertScript, id };
+    const now = new Date();
+    const script: Script = {
+      id,
+      userId: insertScript.userId,
+      organizationId: insertScript.organizationId ?? null,
+      folderId: insertScript.folderId ?? null,
+      title: insertScript.title,
+      content: insertScript.content,
+      scriptType: insertScript.scriptType ?? null,
+      tags: insertScript.tags ?? [],
+      generatedByAi: insertScript.generatedByAi ?? false,
+      language: insertScript.language ?? null,
+      translatedFromId: insertScript.translatedFromId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
     this.scripts.set(id, script);
     return script;
   }
 
-  async updateScript(id: number, updateData: Partial<InsertScript>): Promise<Script> {
+  async updateScript(userId: string, id: number, updateData: Partial<InsertScript>): Promise<Script | undefined> {
     const existing = this.scripts.get(id);
-    if (!existing) {
-      throw new Error('Script not found');
+    if (!existing || !await this.canAccess(existing, userId, ["owner", "editor"])) {
+      return undefined;
     }
-    const updated: Script = { ...existing, ...updateData };
+    const updated: Script = { ...existing, ...updateData, updatedAt: new Date() };
     this.scripts.set(id, updated);
     return updated;
   }
 
-  async deleteScript(id: number): Promise<void> {
-    this.scripts.delete(id);
+  async deleteScript(userId: string, id: number): Promise<boolean> {
+    const existing = this.scripts.get(id);
+    if (!existing || !await this.canAccess(existing, userId, ["owner", "editor"])) {
+      return false;
+    }
+    Array.from(this.scriptRevisions.values())
+      .filter(revision => revision.scriptId === id)
+      .forEach(revision => this.scriptRevisions.delete(revision.id));
+    Array.from(this.scriptChatMessages.values())
+      .filter(message => message.scriptId === id)
+      .forEach(message => this.scriptChatMessages.delete(message.id));
+    return this.scripts.delete(id);
+  }
+
+  // Approximates PostgreSQL full-text search: every search word must appear in the
+  // title or content, and relevance is the number of occurrences
+  async searchScripts(userId: string, query: ScriptSearchQuery): Promise<ScriptSearchResult> {
+    const words = (query.q ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+    const occurrences = (script: Script) => {
+      const text = `${script.title} ${script.content}`.toLowerCase();
+      return words.map(word => text.split(word).length - 1);
+    };
+    const relevance = new Map<number, number>();
+
+    const matches = (await this.accessibleScripts(userId)).filter(script => {
+      if (words.length > 0) {
+        const counts = occurrences(script);
+        if (counts.some(count => count === 0)) return false;
+        relevance.set(script.id, counts.reduce((total, count) => total + count, 0));
+      }
+      if (query.folderId === "none" && script.folderId !== null) return false;
+      if (typeof query.folderId === "number" && script.folderId !== query.folderId) return false;
+      if (query.tag && !script.tags.includes(query.tag)) return false;
+      if (query.scriptType && script.scriptType !== query.scriptType) return false;
+      return true;
+    });
+
+    const time = (date: Date | null) => date?.getTime() ?? 0;
+    const compare: Record<ScriptSearchQuery["sort"], (a: Script, b: Script) => number> = {
+      updated: (a, b) => time(b.updatedAt) - time(a.updatedAt),
+      created: (a, b) => time(b.createdAt) - time(a.createdAt),
+      title: (a, b) => a.title.toLowerCase().localeCompare(b.title.toLowerCase()),
+      relevance: words.length > 0
+        ? (a, b) => (relevance.get(b.id) ?? 0) - (relevance.get(a.id) ?? 0)
+        : (a, b) => time(b.updatedAt) - time(a.updatedAt),
+    };
+    matches.sort((a, b) => compare[query.sort](a, b) || b.id - a.id);
+
+    const offset = (query.page - 1) * query.pageSize;
+    return { scripts: matches.slice(offset, offset + query.pageSize), total: matches.length };
+  }
+
+  async getScriptFacets(userId: string): Promise<ScriptFacets> {
+    const scriptTypes = new Map<string, number>();
+    const tags = new Map<string, number>();
+    for (const script of await this.accessibleScripts(userId)) {
+      if (script.scriptType) {
+        scriptTypes.set(script.scriptType, (scriptTypes.get(script.scriptType) ?? 0) + 1);
+      }
+      script.tags.forEach(tag => tags.set(tag, (tags.get(tag) ?? 0) + 1));
+    }
+
+    const toFacets = (counts: Map<string, number>) => Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    return { scriptTypes: toFacets(scriptTypes), tags: toFacets(tags) };
+  }
+
+  // Script folders
+  async getScriptFolders(userId: string): Promise<ScriptFolder[]> {
+    const folders: ScriptFolder[] = [];
+    for (const folder of Array.from(this.scriptFolders.values())) {
+      if (await this.canAccess(folder, userId, ["owner", "editor", "presenter"])) {
+        folders.push(folder);
+      }
+    }
+    return folders.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getScriptFolder(userId: string, id: number): Promise<ScriptFolder | undefined> {
+    const folder = this.scriptFolders.get(id);
+    return folder && await this.canAccess(folder, userId, ["owner", "editor", "presenter"]) ? folder : undefined;
+  }
+
+  async createScriptFolder(insertFolder: InsertScriptFolder): Promise<ScriptFolder> {
+    const id = this.currentFolderId++;
+    const folder: ScriptFolder = {
+      ...insertFolder,
+      id,
+      organizationId: insertFolder.organizationId ?? null,
+      createdAt: new Date(),
+    };
+    this.scriptFolders.set(id, folder);
+    return folder;
+  }
+
+  async updateScriptFolder(userId: string, id: number, name: string): Promise<ScriptFolder | undefined> {
+    const existing = this.scriptFolders.get(id);
+    if (!existing || !await this.canAccess(existing, userId, ["owner", "editor"])) {
+      return undefined;
+    }
+    const folder: ScriptFolder = { ...existing, name };
+    this.scriptFolders.set(id, folder);
+    return folder;
+  }
+
+  async deleteScriptFolder(userId: string, id: number): Promise<boolean> {
+    const existing = this.scriptFolders.get(id);
+    if (!existing || !await this.canAccess(existing, userId, ["owner", "editor"])) {
+      return false;
+    }
+    this.scriptFolders.delete(id);
+    Array.from(this.scripts.values())
+      .filter(script => script.folderId === id)
+      .forEach(script => this.scripts.set(script.id, { ...script, folderId: null }));
+    return true;
+  }
+
+  // Script templates
+  async getScriptTemplates(userId: string): Promise<ScriptTemplate[]> {
+    const templates: ScriptTemplate[] = [];
+    for (const template of Array.from(this.scriptTemplates.values())) {
+      if (await this.canAccess(template, userId, ["owner", "editor", "presenter"])) {
+        templates.push(template);
+      }
+    }
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getScriptTemplate(userId: string, id: number): Promise<ScriptTemplate | undefined> {
+    const template = this.scriptTemplates.get(id);
+    return template && await this.canAccess(template, userId, ["owner", "editor", "presenter"]) ? template : undefined;
+  }
+
+  async createScriptTemplate(insertTemplate: InsertScriptTemplate): Promise<ScriptTemplate> {
+    const id = this.currentTemplateId++;
+    const template: ScriptTemplate = {
+      ...insertTemplate,
+      id,
+      organizationId: insertTemplate.organizationId ?? null,
+      defaultTone: insertTemplate.defaultTone ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.scriptTemplates.set(id, template);
+    return template;
+  }
+
+  async updateScriptTemplate(userId: string, id: number, updateData: ScriptTemplateUpdate): Promise<ScriptTemplate | undefined> {
+    const existing = this.scriptTemplates.get(id);
+    if (!existing || !await this.canAccess(existing, userId, ["owner", "editor"])) {
+      return undefined;
+    }
+    const template: ScriptTemplate = { ...existing, ...updateData, updatedAt: new Date() };
+    this.scriptTemplates.set(id, template);
+    return template;
+  }
+
+  async deleteScriptTemplate(userId: string, id: number): Promise<boolean> {
+    const existing = this.scriptTemplates.get(id);
+    if (!existing || !await this.canAccess(existing, userId, ["owner", "editor"])) {
+      return false;
+    }
+    return this.scriptTemplates.delete(id);
+  }
+
+  // Script revisions
+  async createScriptRevision(insertRevision: InsertScriptRevision): Promise<ScriptRevision> {
+    const id = this.currentRevisionId++;
+    const revision: ScriptRevision = {
+      ...insertRevision,
+      id,
+      source: insertRevision.source ?? "manual",
+      createdAt: new Date(),
+    };
+    this.scriptRevisions.set(id, revision);
+    return revision;
+  }
+
+  async getScriptRevisions(scriptId: number): Promise<ScriptRevision[]> {
+    return Array.from(this.scriptRevisions.values())
+      .filter(revision => revision.scriptId === scriptId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getScriptRevision(scriptId: number, revisionId: number): Promise<ScriptRevision | undefined> {
+    const revision = this.scriptRevisions.get(revisionId);
+    return revision && revision.scriptId === scriptId ? revision : undefined;
+  }
+
+  // AI co-writing conversations
+  async getScriptChatMessages(scriptId: number, userId: string): Promise<ScriptChatMessage[]> {
+    return Array.from(this.scriptChatMessages.values())
+      .filter(message => message.scriptId === scriptId && message.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getScriptChatMessage(scriptId: number, userId: string, id: number): Promise<ScriptChatMessage | undefined> {
+    const message = this.scriptChatMessages.get(id);
+    return message && message.scriptId === scriptId && message.userId === userId ? message : undefined;
+  }
+
+  async createScriptChatMessage(insertMessage: InsertScriptChatMessage): Promise<ScriptChatMessage> {
+    const id = this.currentChatMessageId++;
+    const message: ScriptChatMessage = {
+      ...insertMessage,
+      id,
+      proposedContent: insertMessage.proposedContent ?? null,
+      baseContentHash: insertMessage.baseContentHash ?? null,
+      proposalStatus: insertMessage.proposalStatus ?? null,
+      revisionId: insertMessage.revisionId ?? null,
+      createdAt: new Date(),
+    };
+    this.scriptChatMessages.set(id, message);
+    return message;
+  }
+
+  async updateScriptChatProposal(id: number, status: ScriptChatProposalStatus, revisionId: number | null): Promise<ScriptChatMessage | undefined> {
+    const existing = this.scriptChatMessages.get(id);
+    if (!existing) return undefined;
+    const message: ScriptChatMessage = { ...existing, proposalStatus: status, revisionId };
+    this.scriptChatMessages.set(id, message);
+    return message;
+  }
+
+  async clearScriptChat(scriptId: number, userId: string): Promise<void> {
+    this.scriptChatMessages.forEach((message, id) => {
+      if (message.scriptId === scriptId && message.userId === userId) this.scriptChatMessages.delete(id);
+    });
+  }
+
+  // Usage tracking
+  async logUsage(insertUsage: InsertUsageLog): Promise<UsageLog> {
+    const id = this.currentUsageId++;
+    const usage: UsageLog = {
+      id,
+      userId: insertUsage.userId,
+      feature: insertUsage.feature,
+      duration: insertUsage.duration ?? null,
+      timestamp: new Date(),
+    };
+    this.usageLogs.set(id, usage);
+    return usage;
+  }
+
+  async getUserUsage(userId: string, feature?: string): Promise<number> {
+    const trialResetAt = this.users.get(userId)?.trialResetAt;
+    const totalDuration = Array.from(this.usageLogs.values())
+      .filter(usage => usage.userId === userId && (!feature || usage.feature === feature))
+      .filter(usage => !trialResetAt || (usage.timestamp && usage.timestamp >= trialResetAt))
+      .reduce((total, usage) => total + (usage.duration ?? 0), 0);
+    return Math.floor(totalDuration / 60); // Convert seconds to minutes
+  }
+
+  async getDailyUsage(userId: string, from: Date, to: Date): Promise<DailyUsage[]> {
+    const days = new Map<string, DailyUsage>();
+    Array.from(this.usageLogs.values())
+      .filter(usage => usage.userId === userId && usage.timestamp && usage.timestamp >= from && usage.timestamp < to)
+      .forEach(usage => {
+        const day = usage.timestamp!.toISOString().slice(0, 10);
+        const key = `${day}:${usage.feature}`;
+        const entry = days.get(key) ?? { day, feature: usage.feature, seconds: 0, events: 0 };
+        entry.seconds += usage.duration ?? 0;
+        entry.events += 1;
+        days.set(key, entry);
+      });
+    return Array.from(days.values()).sort((a, b) => a.day.localeCompare(b.day));
+  }
+
+  async canUseFeature(userId: string, feature: string): Promise<boolean> {
+    const tier = await this.getEffectiveTier(userId);
+    if (!tier) return false;
+
+    const usageMinutes = await this.getUserUsage(userId);
+    return canUseFeature({ tier, usageMinutes }, feature);
+  }
+
+  // AI usage accounting
+  async logAIUsage(insertUsage: InsertAIUsageLog): Promise<AIUsageLog> {
+    const id = this.currentAIUsageId++;
+    const usage: AIUsageLog = {
+      ...insertUsage,
+      id,
+      estimatedTokens: insertUsage.estimatedTokens ?? false,
+      costMicros: insertUsage.costMicros ?? 0,
+      createdAt: new Date(),
+    };
+    this.aiUsageLogs.set(id, usage);
+    return usage;
+  }
+
+  async getAIUsageTotals(
+    from: Date,
+    to: Date,
+    options: { userId?: string; groupBy?: AIUsageGrouping; limit?: number } = {},
+  ): Promise<AIUsageGroup[]> {
+    const { userId, groupBy, limit } = options;
+    const groups = new Map<string | null, AIUsageGroup>();
+    if (!groupBy) {
+      groups.set(null, { key: null, calls: 0, promptTokens: 0, completionTokens: 0, costMicros: 0 });
+    }
+    Array.from(this.aiUsageLogs.values())
+      .filter(usage => usage.createdAt >= from && usage.createdAt < to && (!userId || usage.userId === userId))
+      .forEach(usage => {
+        const key = groupBy === "user" ? usage.userId : groupBy ? usage[groupBy] : null;
+        const group = groups.get(key) ?? { key, calls: 0, promptTokens: 0, completionTokens: 0, costMicros: 0 };
+        group.calls += 1;
+        group.promptTokens += usage.promptTokens;
+        group.completionTokens += usage.completionTokens;
+        group.costMicros += usage.costMicros;
+        groups.set(key, group);
+      });
+    const sorted = Array.from(groups.values()).sort((a, b) => b.costMicros - a.costMicros || b.calls - a.calls);
+    return limit ? sorted.slice(0, limit) : sorted;
+  }
+
+  // Teleprompter sessions
+  async createTeleprompterSession(userId: string): Promise<TeleprompterSession> {
+    const id = this.currentSessionId++;
+    const now = new Date();
+    const session: TeleprompterSession = {
+      id,
+      userId,
+      startedAt: now,
+      lastHeartbeatAt: now,
+      activeSeconds: 0,
+      endedAt: null,
+      endReason: null,
+    };
+    this.teleprompterSessions.set(id, session);
+    return session;
+  }
+
+  async getTeleprompterSession(userId: string, id: number): Promise<TeleprompterSession | undefined> {
+    const session = this.teleprompterSessions.get(id);
+    return session && session.userId === userId ? session : undefined;
+  }
+
+  async recordTeleprompterHeartbeat(userId: string, id: number, maxGapSeconds: number): Promise<TeleprompterSession | undefined> {
+    const existing = await this.getTeleprompterSession(userId, id);
+    if (!existing || existing.endedAt) return undefined;
+
+    const now = new Date();
+    const gapSeconds = Math.max(0, (now.getTime() - existing.lastHeartbeatAt.getTime()) / 1000);
+    const session: TeleprompterSession = {
+      ...existing,
+      lastHeartbeatAt: now,
+      activeSeconds: existing.activeSeconds + Math.floor(Math.min(gapSeconds, maxGapSeconds)),
+    };
+    this.teleprompterSessions.set(id, session);
+    return session;
+  }
+
+  async closeTeleprompterSession(id: number, reason: TeleprompterSessionEndReason): Promise<TeleprompterSession | undefined> {
+    const existing = this.teleprompterSessions.get(id);
+    if (!existing || existing.endedAt) return undefined;
+
+    const session: TeleprompterSession = { ...existing, endedAt: new Date(), endReason: reason };
+    this.teleprompterSessions.set(id, session);
+    if (session.activeSeconds > 0) {
+      await this.logUsage({ userId: session.userId, feature: "teleprompter", duration: session.activeSeconds });
+    }
+    return session;
+  }
+
+  async getStaleTeleprompterSessions(lastHeartbeatBefore: Date): Promise<TeleprompterSession[]> {
+    return Array.from(this.teleprompterSessions.values())
+      .filter(session => !session.endedAt && session.lastHeartbeatAt < lastHeartbeatBefore);
+  }
+
+  // Account data
+  async getUserDataExport(userId: string): Promise<UserDataExport | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    const userScripts = Array.from(this.scripts.values()).filter(script => script.userId === userId);
+    const scriptIds = new Set(userScripts.map(script => script.id));
+    return {
+      user,
+      settings: this.settings.get(userId) ?? null,
+      organizations: await this.getUserOrganizations(userId),
+      scripts: userScripts,
+      scriptFolders: Array.from(this.scriptFolders.values()).filter(folder => folder.userId === userId),
+      scriptTemplates: Array.from(this.scriptTemplates.values()).filter(template => template.userId === userId),
+      scriptRevisions: Array.from(this.scriptRevisions.values()).filter(revision => scriptIds.has(revision.scriptId)),
+      scriptChatMessages: Array.from(this.scriptChatMessages.values()).filter(message => message.userId === userId),
+      usageLogs: Array.from(this.usageLogs.values()).filter(usage => usage.userId === userId),
+      aiUsageLogs: Array.from(this.aiUsageLogs.values()).filter(usage => usage.userId === userId),
+      teleprompterSessions: Array.from(this.teleprompterSessions.values()).filter(session => session.userId === userId),
+      apiTokens: Array.from(this.apiTokens.values())
+        .filter(token => token.userId === userId)
+        .map(({ tokenHash, ...token }) => token),
+    };
+  }
+
+  async deleteUserData(userId: string): Promise<void> {
+    const members = Array.from(this.organizationMembers.values());
+    const soleMemberOf = new Set(
+      members
+        .filter(member => member.userId === userId)
+        .map(member => member.organizationId)
+        .filter(organizationId => members.filter(member => member.organizationId === organizationId).length === 1),
+    );
+    const isErased = (row: { userId: string; organizationId: number | null }) =>
+      row.organizationId === null ? row.userId === userId : soleMemberOf.has(row.organizationId);
+
+    const erasedScriptIds = new Set<number>();
+    this.scripts.forEach((script, id) => {
+      if (isErased(script)) {
+        erasedScriptIds.add(id);
+        this.scripts.delete(id);
+      }
+    });
+    this.scriptRevisions.forEach((revision, id) => {
+      if (erasedScriptIds.has(revision.scriptId)) this.scriptRevisions.delete(id);
+    });
+    this.scriptChatMessages.forEach((message, id) => {
+      if (message.userId === userId || erasedScriptIds.has(message.scriptId)) this.scriptChatMessages.delete(id);
+    });
+    this.scriptFolders.forEach((folder, id) => {
+      if (isErased(folder)) this.scriptFolders.delete(id);
+    });
+    this.scriptTemplates.forEach((template, id) => {
+      if (isErased(template)) this.scriptTemplates.delete(id);
+    });
+    this.organizationMembers.forEach((member, id) => {
+      if (member.userId === userId) this.organizationMembers.delete(id);
+    });
+    soleMemberOf.forEach(organizationId => this.organizations.delete(organizationId));
+    this.usageLogs.forEach((usage, id) => {
+      if (usage.userId === userId) this.usageLogs.delete(id);
+    });
+    this.aiUsageLogs.forEach((usage, id) => {
+      if (usage.userId === userId) this.aiUsageLogs.delete(id);
+    });
+    this.teleprompterSessions.forEach((session, id) => {
+      if (session.userId === userId) this.teleprompterSessions.delete(id);
+    });
+    this.apiTokens.forEach((token, id) => {
+      if (token.userId === userId) this.apiTokens.delete(id);
+    });
+    this.settings.delete(userId);
+    this.users.delete(userId);
+  }
+
+  // Admin console
+  async searchUsers(query: AdminUserSearchQuery): Promise<UserSearchResult> {
+    const term = query.q?.toLowerCase();
+    const matches = Array.from(this.users.values())
+      .filter(user => !term || [user.id, user.email, user.firstName, user.lastName]
+        .some(value => value?.toLowerCase().includes(term)))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+    const offset = (query.page - 1) * query.pageSize;
+    return { users: matches.slice(offset, offset + query.pageSize), total: matches.length };
+  }
+
+  async getUsageLogs(userId: string, limit: number): Promise<UsageLog[]> {
+    return Array.from(this.usageLogs.values())
+      .filter(usage => usage.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async setUserRole(userId: string, role: UserRole): Promise<User> {
+    return this.updateUser(userId, { role });
+  }
+
+  async setComplimentaryTier(userId: string, tier: string | null, expiresAt: Date | null): Promise<User> {
+    return this.updateUser(userId, { complimentaryTier: tier, complimentaryTierExpiresAt: expiresAt });
+  }
+
+  async resetTrialUsage(userId: string): Promise<User> {
+    return this.updateUser(userId, { trialResetAt: new Date() });
+  }
+
+  async createAdminAuditLog(entry: InsertAdminAuditLog): Promise<AdminAuditLog> {
+    const id = this.currentAuditLogId++;
+    const auditLog: AdminAuditLog = {
+      id,
+      adminId: entry.adminId,
+      action: entry.action,
+      targetUserId: entry.targetUserId ?? null,
+      details: entry.details ?? null,
+      createdAt: new Date(),
+    };
+    this.adminAuditLogs.set(id, auditLog);
+    return auditLog;
+  }
+
+  async getAdminAuditLogs(targetUserId: string | undefined, limit: number): Promise<AdminAuditLog[]> {
+    return Array.from(this.adminAuditLogs.values())
+      .filter(auditLog => !targetUserId || auditLog.targetUserId === targetUserId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
   }
 }
 
@@ -120,6 +1134,16 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.stripeCustomerId, customerId));
+    return user || undefined;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user || undefined;
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -168,6 +1192,157 @@ export class DatabaseStorage implements IStorage {
     }
     return user;
   }
+  async setBillingCycleAnchor(userId: string, anchor: Date | null): Promise<User> {
+    return this.updateUser(userId, { billingCycleAnchor: anchor });
+  }
+
+
+  // Stripe webhook idempotency
+  async hasProcessedStripeEvent(eventId: string): Promise<boolean> {
+    const [event] = await db.select().from(stripeEvents).where(eq(stripeEvents.id, eventId));
+    return !!event;
+  }
+
+  async markStripeEventProcessed(eventId: string, type: string): Promise<void> {
+    await db
+      .insert(stripeEvents)
+      .values({ id: eventId, type })
+      .onConflictDoNothing();
+  }
+
+  // Personal API tokens
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const [token] = await db
+      .insert(apiTokens)
+      .values(insertToken)
+      .returning();
+    return token;
+  }
+
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.id));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async revokeApiToken(userId: string, id: number): Promise<boolean> {
+    const revoked = await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .returning({ id: apiTokens.id });
+    return revoked.length > 0;
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+  }
+
+  // Organizations
+  async createOrganization(insertOrganization: InsertOrganization, ownerId: string): Promise<Organization> {
+    return await db.transaction(async (tx) => {
+      const [organization] = await tx
+        .insert(organizations)
+        .values(insertOrganization)
+        .returning();
+      await tx
+        .insert(organizationMembers)
+        .values({ organizationId: organization.id, userId: ownerId, role: "owner" });
+      return organization;
+    });
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization || undefined;
+  }
+
+  async getOrganizationByStripeCustomerId(customerId: string): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.stripeCustomerId, customerId));
+    return organization || undefined;
+  }
+
+  async getUserOrganizations(userId: string): Promise<UserOrganization[]> {
+    const rows = await db
+      .select({ organization: organizations, role: organizationMembers.role })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+      .where(eq(organizationMembers.userId, userId));
+    return rows.map(({ organization, role }) => ({ ...organization, role: role as OrganizationRole }));
+  }
+
+  async getOrganizationMember(organizationId: number, userId: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<OrganizationMemberWithUser[]> {
+    const rows = await db
+      .select({
+        member: organizationMembers,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      })
+      .from(organizationMembers)
+      .innerJoin(users, eq(organizationMembers.userId, users.id))
+      .where(eq(organizationMembers.organizationId, organizationId));
+    return rows.map(({ member, ...user }) => ({ ...member, ...user }));
+  }
+
+  async addOrganizationMember(insertMember: InsertOrganizationMember): Promise<OrganizationMember> {
+    const [member] = await db
+      .insert(organizationMembers)
+      .values(insertMember)
+      .returning();
+    return member;
+  }
+
+  async updateOrganizationMemberRole(organizationId: number, userId: string, role: OrganizationRole): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .update(organizationMembers)
+      .set({ role })
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+
+  async removeOrganizationMember(organizationId: number, userId: string): Promise<void> {
+    await db
+      .delete(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+  }
+
+  async updateOrganizationSubscription(organizationId: number, update: OrganizationSubscriptionUpdate): Promise<Organization> {
+    const [organization] = await db
+      .update(organizations)
+      .set(update)
+      .where(eq(organizations.id, organizationId))
+      .returning();
+
+    if (!organization) {
+      throw new Error('Organization not found');
+    }
+    return organization;
+  }
+
+  async getEffectiveTier(userId: string): Promise<string | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) return undefined;
+
+    const memberships = await this.getUserOrganizations(userId);
+    return highestTier([user.subscriptionTier, ...complimentaryTiers(user), ...teamTiers(memberships)]);
+  }
 
   // Settings
   async getTeleprompterSettings(userId: string): Promise<TeleprompterSettings | undefined> {
@@ -197,15 +1372,37 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Scripts
+  // Personal rows of the user, plus team rows of organizations where they hold one of the roles.
+  // Used for scripts, script folders and script templates.
+  private async accessCondition(table: typeof scripts | typeof scriptFolders | typeof scriptTemplates, userId: string, roles: OrganizationRole[]) {
+    const memberships = await this.getUserOrganizations(userId);
+    const organizationIds = memberships.filter((org) => roles.includes(org.role)).map((org) => org.id);
+
+    const personal = and(eq(table.userId, userId), isNull(table.organizationId));
+    return organizationIds.length > 0 ? or(personal, inArray(table.organizationId, organizationIds)) : personal;
+  }
+
   async getScripts(userId: string): Promise<Script[]> {
-    return await db.select().from(scripts).where(eq(scripts.userId, userId));
+    // Every role can read its teams' scripts
+    const access = await this.accessCondition(scripts, userId, ["owner", "editor", "presenter"]);
+    return await db.select().from(scripts).where(access);
   }
 
-  async getScript(id: number): Promise<Script | undefined> {
-    const [script] = await db.select().from(scripts).where(eq(scripts.id, id));
+  async getScript(userId: string, id: number): Promise<Script | undefined> {
+    const access = await this.accessCondition(scripts, userId, ["owner", "editor", "presenter"]);
+    const [script] = await db.select().from(scripts).where(and(eq(scripts.id, id), access));
     return script || undefined;
   }
 
+  async getScriptTranslations(userId: string, originalId: number): Promise<Script[]> {
+    const access = await this.accessCondition(scripts, userId, ["owner", "editor", "presenter"]);
+    return await db
+      .select()
+      .from(scripts)
+      .where(and(eq(scripts.translatedFromId, originalId), access))
+      .orderBy(scripts.id);
+  }
+
   async createScript(insertScript: InsertScript): Promise<Script> {
     const [script] = await db
       .insert(scripts)
@@ -214,21 +1411,253 @@ export class DatabaseStorage implements IStorage {
     return script;
   }
 
-  async updateScript(id: number, updateData: Partial<InsertScript>): Promise<Script> {
+  async updateScript(userId: string, id: number, updateData: Partial<InsertScript>): Promise<Script | undefined> {
+    const access = await this.accessCondition(scripts, userId, ["owner", "editor"]);
     const [script] = await db
       .update(scripts)
-      .set(updateData)
-      .where(eq(scripts.id, id))
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(and(eq(scripts.id, id), access))
       .returning();
-    
-    if (!script) {
-      throw new Error('Script not found');
+    return script || undefined;
+  }
+
+  async deleteScript(userId: string, id: number): Promise<boolean> {
+    const access = await this.accessCondition(scripts, userId, ["owner", "editor"]);
+    const deleted = await db
+      .delete(scripts)
+      .where(and(eq(scripts.id, id), access))
+      .returning({ id: scripts.id });
+    if (deleted.length === 0) {
+      return false;
     }
-    return script;
+    await db.delete(scriptRevisions).where(eq(scriptRevisions.scriptId, id));
+    await db.delete(scriptChatMessages).where(eq(scriptChatMessages.scriptId, id));
+    return true;
+  }
+
+  async searchScripts(userId: string, query: ScriptSearchQuery): Promise<ScriptSearchResult> {
+    const conditions: (SQL | undefined)[] = [
+      await this.accessCondition(scripts, userId, ["owner", "editor", "presenter"]),
+    ];
+
+    // Same expression as the IDX_script_search index, so PostgreSQL can use it
+    const document = sql`to_tsvector('english', ${scripts.title} || ' ' || ${scripts.content})`;
+    const tsQuery = query.q ? sql`websearch_to_tsquery('english', ${query.q})` : undefined;
+    if (tsQuery) {
+      conditions.push(sql`${document} @@ ${tsQuery}`);
+    }
+    if (query.folderId === "none") {
+      conditions.push(isNull(scripts.folderId));
+    } else if (query.folderId !== undefined) {
+      conditions.push(eq(scripts.folderId, query.folderId));
+    }
+    if (query.tag) {
+      conditions.push(arrayContains(scripts.tags, [query.tag]));
+    }
+    if (query.scriptType) {
+      conditions.push(eq(scripts.scriptType, query.scriptType));
+    }
+    const where = and(...conditions);
+
+    const orderBy: Record<ScriptSearchQuery["sort"], SQL[]> = {
+      updated: [desc(scripts.updatedAt)],
+      created: [desc(scripts.createdAt)],
+      title: [asc(sql`lower(${scripts.title})`)],
+      // Without a search term there is nothing to rank, so fall back to recently updated
+      relevance: tsQuery ? [desc(sql`ts_rank(${document}, ${tsQuery})`)] : [desc(scripts.updatedAt)],
+    };
+
+    const [{ total }] = await db.select({ total: count() }).from(scripts).where(where);
+    const results = await db
+      .select()
+      .from(scripts)
+      .where(where)
+      .orderBy(...orderBy[query.sort], desc(scripts.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return { scripts: results, total };
+  }
+
+  async getScriptFacets(userId: string): Promise<ScriptFacets> {
+    const access = await this.accessCondition(scripts, userId, ["owner", "editor", "presenter"]);
+
+    const scriptTypes = await db
+      .select({ value: scripts.scriptType, count: count() })
+      .from(scripts)
+      .where(and(access, sql`${scripts.scriptType} is not null`))
+      .groupBy(scripts.scriptType)
+      .orderBy(desc(count()));
+
+    // unnest() is a set-returning function, so it has to be grouped from a subquery
+    const scriptTags = db
+      .select({ tag: sql<string>`unnest(${scripts.tags})`.as("tag") })
+      .from(scripts)
+      .where(access)
+      .as("script_tags");
+    const tags = await db
+      .select({ value: scriptTags.tag, count: count() })
+      .from(scriptTags)
+      .groupBy(scriptTags.tag)
+      .orderBy(desc(count()), asc(scriptTags.tag));
+
+    return {
+      scriptTypes: scriptTypes.map(({ value, count }) => ({ value: value!, count })),
+      tags,
+    };
+  }
+
+  // Script folders
+  async getScriptFolders(userId: string): Promise<ScriptFolder[]> {
+    const access = await this.accessCondition(scriptFolders, userId, ["owner", "editor", "presenter"]);
+    return await db.select().from(scriptFolders).where(access).orderBy(asc(scriptFolders.name));
+  }
+
+  async getScriptFolder(userId: string, id: number): Promise<ScriptFolder | undefined> {
+    const access = await this.accessCondition(scriptFolders, userId, ["owner", "editor", "presenter"]);
+    const [folder] = await db.select().from(scriptFolders).where(and(eq(scriptFolders.id, id), access));
+    return folder || undefined;
+  }
+
+  async createScriptFolder(insertFolder: InsertScriptFolder): Promise<ScriptFolder> {
+    const [folder] = await db
+      .insert(scriptFolders)
+      .values(insertFolder)
+      .returning();
+    return folder;
+  }
+
+  async updateScriptFolder(userId: string, id: number, name: string): Promise<ScriptFolder | undefined> {
+    const access = await this.accessCondition(scriptFolders, userId, ["owner", "editor"]);
+    const [folder] = await db
+      .update(scriptFolders)
+      .set({ name })
+      .where(and(eq(scriptFolders.id, id), access))
+      .returning();
+    return folder || undefined;
+  }
+
+  async deleteScriptFolder(userId: string, id: number): Promise<boolean> {
+    const access = await this.accessCondition(scriptFolders, userId, ["owner", "editor"]);
+    return await db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(scriptFolders)
+        .where(and(eq(scriptFolders.id, id), access))
+        .returning({ id: scriptFolders.id });
+      if (deleted.length === 0) {
+        return false;
+      }
+      await tx.update(scripts).set({ folderId: null }).where(eq(scripts.folderId, id));
+      return true;
+    });
+  }
+
+  // Script templates
+  async getScriptTemplates(userId: string): Promise<ScriptTemplate[]> {
+    const access = await this.accessCondition(scriptTemplates, userId, ["owner", "editor", "presenter"]);
+    return await db.select().from(scriptTemplates).where(access).orderBy(asc(scriptTemplates.name));
+  }
+
+  async getScriptTemplate(userId: string, id: number): Promise<ScriptTemplate | undefined> {
+    const access = await this.accessCondition(scriptTemplates, userId, ["owner", "editor", "presenter"]);
+    const [template] = await db.select().from(scriptTemplates).where(and(eq(scriptTemplates.id, id), access));
+    return template || undefined;
+  }
+
+  async createScriptTemplate(insertTemplate: InsertScriptTemplate): Promise<ScriptTemplate> {
+    const [template] = await db
+      .insert(scriptTemplates)
+      .values(insertTemplate)
+      .returning();
+    return template;
+  }
+
+  async updateScriptTemplate(userId: string, id: number, updateData: ScriptTemplateUpdate): Promise<ScriptTemplate | undefined> {
+    const access = await this.accessCondition(scriptTemplates, userId, ["owner", "editor"]);
+    const [template] = await db
+      .update(scriptTemplates)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(and(eq(scriptTemplates.id, id), access))
+      .returning();
+    return template || undefined;
   }
 
-  async deleteScript(id: number): Promise<void> {
-    await db.delete(scripts).where(eq(scripts.id, id));
+  async deleteScriptTemplate(userId: string, id: number): Promise<boolean> {
+    const access = await this.accessCondition(scriptTemplates, userId, ["owner", "editor"]);
+    const deleted = await db
+      .delete(scriptTemplates)
+      .where(and(eq(scriptTemplates.id, id), access))
+      .returning({ id: scriptTemplates.id });
+    return deleted.length > 0;
+  }
+
+  // Script revisions
+  async createScriptRevision(insertRevision: InsertScriptRevision): Promise<ScriptRevision> {
+    const [revision] = await db
+      .insert(scriptRevisions)
+      .values(insertRevision)
+      .returning();
+    return revision;
+  }
+
+  async getScriptRevisions(scriptId: number): Promise<ScriptRevision[]> {
+    return await db
+      .select()
+      .from(scriptRevisions)
+      .where(eq(scriptRevisions.scriptId, scriptId))
+      .orderBy(desc(scriptRevisions.id));
+  }
+
+  async getScriptRevision(scriptId: number, revisionId: number): Promise<ScriptRevision | undefined> {
+    const [revision] = await db
+      .select()
+      .from(scriptRevisions)
+      .where(and(eq(scriptRevisions.id, revisionId), eq(scriptRevisions.scriptId, scriptId)));
+    return revision || undefined;
+  }
+
+  // AI co-writing conversations
+  async getScriptChatMessages(scriptId: number, userId: string): Promise<ScriptChatMessage[]> {
+    return await db
+      .select()
+      .from(scriptChatMessages)
+      .where(and(eq(scriptChatMessages.scriptId, scriptId), eq(scriptChatMessages.userId, userId)))
+      .orderBy(asc(scriptChatMessages.id));
+  }
+
+  async getScriptChatMessage(scriptId: number, userId: string, id: number): Promise<ScriptChatMessage | undefined> {
+    const [message] = await db
+      .select()
+      .from(scriptChatMessages)
+      .where(and(
+        eq(scriptChatMessages.id, id),
+        eq(scriptChatMessages.scriptId, scriptId),
+        eq(scriptChatMessages.userId, userId),
+      ));
+    return message || undefined;
+  }
+
+  async createScriptChatMessage(insertMessage: InsertScriptChatMessage): Promise<ScriptChatMessage> {
+    const [message] = await db
+      .insert(scriptChatMessages)
+      .values(insertMessage)
+      .returning();
+    return message;
+  }
+
+  async updateScriptChatProposal(id: number, status: ScriptChatProposalStatus, revisionId: number | null): Promise<ScriptChatMessage | undefined> {
+    const [message] = await db
+      .update(scriptChatMessages)
+      .set({ proposalStatus: status, revisionId })
+      .where(eq(scriptChatMessages.id, id))
+      .returning();
+    return message || undefined;
+  }
+
+  async clearScriptChat(scriptId: number, userId: string): Promise<void> {
+    await db
+      .delete(scriptChatMessages)
+      .where(and(eq(scriptChatMessages.scriptId, scriptId), eq(scriptChatMessages.userId, userId)));
   }
 
   // Usage tracking
@@ -241,39 +1670,289 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUserUsage(userId: string, feature?: string): Promise<number> {
-    const query = db
-      .select({ totalDuration: sum(usageLogs.duration) })
+    const user = await this.getUser(userId);
+    const [result] = await db
+      .select({ totalDuration: sum(usageLogs.duration).mapWith(Number) })
       .from(usageLogs)
-      .where(eq(usageLogs.userId, userId));
+      .where(and(
+        eq(usageLogs.userId, userId),
+        feature ? eq(usageLogs.feature, feature) : undefined,
+        user?.trialResetAt ? gte(usageLogs.timestamp, user.trialResetAt) : undefined,
+      ));
+    return Math.floor((result.totalDuration || 0) / 60); // Convert seconds to minutes
+  }
+
+  async getDailyUsage(userId: string, from: Date, to: Date): Promise<DailyUsage[]> {
+    const day = sql<string>`to_char(date_trunc('day', ${usageLogs.timestamp}), 'YYYY-MM-DD')`;
+    return await db
+      .select({
+        day,
+        feature: usageLogs.feature,
+        seconds: sql<number>`coalesce(sum(${usageLogs.duration}), 0)`.mapWith(Number),
+        events: count(),
+      })
+      .from(usageLogs)
+      .where(and(eq(usageLogs.userId, userId), gte(usageLogs.timestamp, from), lt(usageLogs.timestamp, to)))
+      .groupBy(day, usageLogs.feature)
+      .orderBy(day);
+  }
+
+  async canUseFeature(userId: string, feature: string): Promise<boolean> {
+    const tier = await this.getEffectiveTier(userId);
+    if (!tier) return false;
+
+    const usageMinutes = await this.getUserUsage(userId);
+    return canUseFeature({ tier, usageMinutes }, feature);
+  }
+
+  // AI usage accounting
+  async logAIUsage(insertUsage: InsertAIUsageLog): Promise<AIUsageLog> {
+    const [usage] = await db
+      .insert(aiUsageLogs)
+      .values(insertUsage)
+      .returning();
+    return usage;
+  }
 
-    if (feature) {
-      query.where(eq(usageLogs.feature, feature));
+  async getAIUsageTotals(
+    from: Date,
+    to: Date,
+    options: { userId?: string; groupBy?: AIUsageGrouping; limit?: number } = {},
+  ): Promise<AIUsageGroup[]> {
+    const { userId, groupBy, limit } = options;
+    const key = groupBy === "user" ? aiUsageLogs.userId : groupBy ? aiUsageLogs[groupBy] : sql<null>`null`;
+    const costMicros = sql<number>`coalesce(sum(${aiUsageLogs.costMicros}), 0)`.mapWith(Number);
+    const query = db
+      .select({
+        key,
+        calls: count(),
+        promptTokens: sql<number>`coalesce(sum(${aiUsageLogs.promptTokens}), 0)`.mapWith(Number),
+        completionTokens: sql<number>`coalesce(sum(${aiUsageLogs.completionTokens}), 0)`.mapWith(Number),
+        costMicros,
+      })
+      .from(aiUsageLogs)
+      .where(and(
+        gte(aiUsageLogs.createdAt, from),
+        lt(aiUsageLogs.createdAt, to),
+        userId ? eq(aiUsageLogs.userId, userId) : undefined,
+      ))
+      .$dynamic();
+    if (!groupBy) {
+      return await query;
     }
+    const grouped = query.groupBy(key).orderBy(desc(costMicros), desc(count()));
+    return await (limit ? grouped.limit(limit) : grouped);
+  }
 
-    const [result] = await query;
-    return Math.floor((result.totalDuration || 0) / 60); // Convert seconds to minutes
+  // Teleprompter sessions. Timestamps come from the database clock, so heartbeat gaps
+  // are measured consistently whichever app server handles the request.
+  async createTeleprompterSession(userId: string): Promise<TeleprompterSession> {
+    const [session] = await db
+      .insert(teleprompterSessions)
+      .values({ userId })
+      .returning();
+    return session;
   }
 
-  async canUseFeature(userId: string, feature: string): Promise<boolean> {
+  async getTeleprompterSession(userId: string, id: number): Promise<TeleprompterSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(teleprompterSessions)
+      .where(and(eq(teleprompterSessions.id, id), eq(teleprompterSessions.userId, userId)));
+    return session || undefined;
+  }
+
+  async recordTeleprompterHeartbeat(userId: string, id: number, maxGapSeconds: number): Promise<TeleprompterSession | undefined> {
+    const gapSeconds = sql`LEAST(GREATEST(EXTRACT(EPOCH FROM now() - ${teleprompterSessions.lastHeartbeatAt}), 0), ${maxGapSeconds})`;
+    const [session] = await db
+      .update(teleprompterSessions)
+      .set({
+        activeSeconds: sql`${teleprompterSessions.activeSeconds} + FLOOR(${gapSeconds})::int`,
+        lastHeartbeatAt: sql`now()`,
+      })
+      .where(and(
+        eq(teleprompterSessions.id, id),
+        eq(teleprompterSessions.userId, userId),
+        isNull(teleprompterSessions.endedAt),
+      ))
+      .returning();
+    return session || undefined;
+  }
+
+  async closeTeleprompterSession(id: number, reason: TeleprompterSessionEndReason): Promise<TeleprompterSession | undefined> {
+    return await db.transaction(async (tx) => {
+      const [session] = await tx
+        .update(teleprompterSessions)
+        .set({ endedAt: sql`now()`, endReason: reason })
+        .where(and(eq(teleprompterSessions.id, id), isNull(teleprompterSessions.endedAt)))
+        .returning();
+      if (!session) {
+        return undefined;
+      }
+      if (session.activeSeconds > 0) {
+        await tx.insert(usageLogs).values({ userId: session.userId, feature: "teleprompter", duration: session.activeSeconds });
+      }
+      return session;
+    });
+  }
+
+  async getStaleTeleprompterSessions(lastHeartbeatBefore: Date): Promise<TeleprompterSession[]> {
+    return await db
+      .select()
+      .from(teleprompterSessions)
+      .where(and(isNull(teleprompterSessions.endedAt), lt(teleprompterSessions.lastHeartbeatAt, lastHeartbeatBefore)));
+  }
+
+  // Account data
+  async getUserDataExport(userId: string): Promise<UserDataExport | undefined> {
     const user = await this.getUser(userId);
-    if (!user) return false;
+    if (!user) return undefined;
 
-    // Premium users have unlimited access
-    if (user.subscriptionTier === 'premium') return true;
+    const userScripts = await db.select().from(scripts).where(eq(scripts.userId, userId)).orderBy(asc(scripts.id));
+    const revisions = await db
+      .select()
+      .from(scriptRevisions)
+      .where(inArray(scriptRevisions.scriptId, userScripts.map(script => script.id)))
+      .orderBy(asc(scriptRevisions.id));
+    const tokens = await this.getApiTokens(userId);
 
-    // Pro users have access to voice input but not AI features
-    if (user.subscriptionTier === 'pro') {
-      return feature === 'voice_input';
-    }
+    return {
+      user,
+      settings: (await this.getTeleprompterSettings(userId)) ?? null,
+      organizations: await this.getUserOrganizations(userId),
+      scripts: userScripts,
+      scriptFolders: await db.select().from(scriptFolders).where(eq(scriptFolders.userId, userId)).orderBy(asc(scriptFolders.id)),
+      scriptTemplates: await db
+        .select()
+        .from(scriptTemplates)
+        .where(eq(scriptTemplates.userId, userId))
+        .orderBy(asc(scriptTemplates.id)),
+      scriptRevisions: revisions,
+      scriptChatMessages: await db
+        .select()
+        .from(scriptChatMessages)
+        .where(eq(scriptChatMessages.userId, userId))
+        .orderBy(asc(scriptChatMessages.id)),
+      usageLogs: await db.select().from(usageLogs).where(eq(usageLogs.userId, userId)).orderBy(asc(usageLogs.id)),
+      aiUsageLogs: await db.select().from(aiUsageLogs).where(eq(aiUsageLogs.userId, userId)).orderBy(asc(aiUsageLogs.id)),
+      teleprompterSessions: await db
+        .select()
+        .from(teleprompterSessions)
+        .where(eq(teleprompterSessions.userId, userId))
+        .orderBy(asc(teleprompterSessions.id)),
+      apiTokens: tokens.map(({ tokenHash, ...token }) => token),
+    };
+  }
+
+  async deleteUserData(userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const memberships = await tx
+        .select({ organizationId: organizationMembers.organizationId })
+        .from(organizationMembers)
+        .where(eq(organizationMembers.userId, userId));
+      const soleMemberOf: number[] = [];
+      for (const { organizationId } of memberships) {
+        const [{ members }] = await tx
+          .select({ members: count() })
+          .from(organizationMembers)
+          .where(eq(organizationMembers.organizationId, organizationId));
+        if (members === 1) soleMemberOf.push(organizationId);
+      }
 
-    // Free users get to try ALL premium features during their first 60 minutes
-    if (user.subscriptionTier === 'free') {
-      const totalUsage = await this.getUserUsage(userId);
-      return totalUsage < 60; // 60 minutes grace period for all features
+      const erased = (table: typeof scripts | typeof scriptFolders | typeof scriptTemplates) =>
+        or(and(eq(table.userId, userId), isNull(table.organizationId)), inArray(table.organizationId, soleMemberOf));
+
+      const erasedScripts = await tx.delete(scripts).where(erased(scripts)).returning({ id: scripts.id });
+      await tx.delete(scriptRevisions).where(inArray(scriptRevisions.scriptId, erasedScripts.map(script => script.id)));
+      await tx.delete(scriptChatMessages).where(or(
+        eq(scriptChatMessages.userId, userId),
+        inArray(scriptChatMessages.scriptId, erasedScripts.map(script => script.id)),
+      ));
+      await tx.delete(scriptFolders).where(erased(scriptFolders));
+      await tx.delete(scriptTemplates).where(erased(scriptTemplates));
+      await tx.delete(organizationMembers).where(eq(organizationMembers.userId, userId));
+      await tx.delete(organizations).where(inArray(organizations.id, soleMemberOf));
+      await tx.delete(teleprompterSettings).where(eq(teleprompterSettings.userId, userId));
+      await tx.delete(usageLogs).where(eq(usageLogs.userId, userId));
+      await tx.delete(aiUsageLogs).where(eq(aiUsageLogs.userId, userId));
+      await tx.delete(teleprompterSessions).where(eq(teleprompterSessions.userId, userId));
+      await tx.delete(apiTokens).where(eq(apiTokens.userId, userId));
+      // connect-pg-simple keeps the serialized passport user in the sess column
+      await tx.delete(sessions).where(sql`${sessions.sess} -> 'passport' -> 'user' -> 'claims' ->> 'sub' = ${userId}`);
+      await tx.delete(users).where(eq(users.id, userId));
+    });
+  }
+
+  // Admin console
+  async searchUsers(query: AdminUserSearchQuery): Promise<UserSearchResult> {
+    // Escape LIKE wildcards so they match literally
+    const pattern = query.q ? `%${query.q.replace(/[\\%_]/g, "\\$&")}%` : undefined;
+    const where = pattern
+      ? or(ilike(users.id, pattern), ilike(users.email, pattern), ilike(users.firstName, pattern), ilike(users.lastName, pattern))
+      : undefined;
+
+    const [{ total }] = await db.select({ total: count() }).from(users).where(where);
+    const rows = await db
+      .select()
+      .from(users)
+      .where(where)
+      .orderBy(desc(users.createdAt))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    return { users: rows, total };
+  }
+
+  async getUsageLogs(userId: string, limit: number): Promise<UsageLog[]> {
+    return await db
+      .select()
+      .from(usageLogs)
+      .where(eq(usageLogs.userId, userId))
+      .orderBy(desc(usageLogs.id))
+      .limit(limit);
+  }
+
+  private async updateUser(userId: string, changes: Partial<UpsertUser>): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (!user) {
+      throw new Error('User not found');
     }
+    return user;
+  }
+
+  async setUserRole(userId: string, role: UserRole): Promise<User> {
+    return this.updateUser(userId, { role });
+  }
+
+  async setComplimentaryTier(userId: string, tier: string | null, expiresAt: Date | null): Promise<User> {
+    return this.updateUser(userId, { complimentaryTier: tier, complimentaryTierExpiresAt: expiresAt });
+  }
+
+  async resetTrialUsage(userId: string): Promise<User> {
+    return this.updateUser(userId, { trialResetAt: new Date() });
+  }
+
+  async createAdminAuditLog(entry: InsertAdminAuditLog): Promise<AdminAuditLog> {
+    const [auditLog] = await db
+      .insert(adminAuditLogs)
+      .values(entry)
+      .returning();
+    return auditLog;
+  }
 
-    return false;
+  async getAdminAuditLogs(targetUserId: string | undefined, limit: number): Promise<AdminAuditLog[]> {
+    return await db
+      .select()
+      .from(adminAuditLogs)
+      .where(targetUserId ? eq(adminAuditLogs.targetUserId, targetUserId) : undefined)
+      .orderBy(desc(adminAuditLogs.id))
+      .limit(limit);
   }
 }
 
-export const storage = new DatabaseStorage();
+// STORAGE_BACKEND=memory runs without PostgreSQL; the default is the database
+export const storage: IStorage = process.env.STORAGE_BACKEND === "memory" ? new MemStorage() : new DatabaseStorage();
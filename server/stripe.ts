@@ -0,0 +1,195 @@
+import Stripe from "stripe";
+import type { Organization } from "@shared/schema";
+import { storage } from "./storage";
+import { tierForPriceId } from "./plans";
+
+if (!process.env.STRIPE_SECRET_KEY) {
+  throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
+}
+
+// STRIPE_API_URL points the client at a local Stripe mock (e.g. http://localhost:12111 for stripe-mock)
+const apiUrl = process.env.STRIPE_API_URL ? new URL(process.env.STRIPE_API_URL) : undefined;
+
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: "2023-10-16",
+  ...(apiUrl && {
+    host: apiUrl.hostname,
+    port: apiUrl.port ? Number(apiUrl.port) : undefined,
+    protocol: apiUrl.protocol.replace(':', '') as 'http' | 'https',
+  }),
+});
+
+// The client is pinned to API version 2023-10-16, older than the one the stripe package's
+// types describe. These are the fields of that version we read that the types have dropped.
+export type PinnedInvoice = Stripe.Invoice & {
+  subscription: string | Stripe.Subscription | null;
+  payment_intent: string | Stripe.PaymentIntent | null;
+};
+
+type PinnedSubscription = Stripe.Subscription & {
+  current_period_end: number;
+};
+
+// When the subscription renews; 2023-10-16 keeps the period on the subscription rather than its items
+export function currentPeriodEnd(subscription: Stripe.Subscription): Date {
+  return new Date((subscription as PinnedSubscription).current_period_end * 1000);
+}
+
+// For confirming a new subscription's first payment. Needs latest_invoice.payment_intent expanded.
+export function paymentClientSecret(subscription: Stripe.Subscription): string | null {
+  const invoice = subscription.latest_invoice as PinnedInvoice | string | null;
+  if (!invoice || typeof invoice === 'string') return null;
+  const paymentIntent = invoice.payment_intent;
+  return paymentIntent && typeof paymentIntent !== 'string' ? paymentIntent.client_secret : null;
+}
+
+// Stripe subscription statuses that no longer grant a paid tier
+const endedStatuses = ['canceled', 'incomplete_expired', 'unpaid'];
+
+// Stripe spells it "canceled"; our users table uses "cancelled"
+function normalizeStatus(status: string): string {
+  return status === 'canceled' ? 'cancelled' : status;
+}
+
+// Whether a status stored on a user or organization belongs to a subscription that has ended
+export function isEndedStatus(status: string): boolean {
+  return endedStatuses.map(normalizeStatus).includes(status);
+}
+
+function customerIdOf(customer: string | Stripe.Customer | Stripe.DeletedCustomer | null): string | null {
+  if (!customer) return null;
+  return typeof customer === 'string' ? customer : customer.id;
+}
+
+async function syncSubscription(subscription: Stripe.Subscription, deleted = false) {
+  const customerId = customerIdOf(subscription.customer);
+  if (!customerId) return;
+
+  const user = await storage.getUserByStripeCustomerId(customerId);
+  if (!user) {
+    const organization = await storage.getOrganizationByStripeCustomerId(customerId);
+    if (organization) {
+      await syncOrganizationSubscription(organization, subscription, deleted);
+    } else {
+      console.warn(`Stripe webhook: no user or organization for customer ${customerId}`);
+    }
+    return;
+  }
+
+  if (deleted) {
+    // A replaced subscription being deleted must not downgrade the current one
+    if (user.stripeSubscriptionId && user.stripeSubscriptionId !== subscription.id) return;
+    await storage.updateUserSubscription(user.id, 'free', 'cancelled');
+    await storage.setBillingCycleAnchor(user.id, null);
+    return;
+  }
+
+  if (user.stripeSubscriptionId !== subscription.id) {
+    await storage.updateUserStripeInfo(user.id, customerId, subscription.id);
+  }
+  // Usage periods follow the billing cycle
+  await storage.setBillingCycleAnchor(user.id, new Date(subscription.billing_cycle_anchor * 1000));
+
+  if (endedStatuses.includes(subscription.status)) {
+    await storage.updateUserSubscription(user.id, 'free', normalizeStatus(subscription.status));
+    return;
+  }
+
+  const priceId = subscription.items.data[0]?.price.id;
+  const tier = priceId ? tierForPriceId(priceId) : undefined;
+  if (!tier) {
+    console.warn(`Stripe webhook: price ${priceId} is not in the plan catalog, keeping tier ${user.subscriptionTier}`);
+  }
+  await storage.updateUserSubscription(user.id, tier ?? user.subscriptionTier, normalizeStatus(subscription.status));
+}
+
+async function syncOrganizationSubscription(organization: Organization, subscription: Stripe.Subscription, deleted: boolean) {
+  if (deleted) {
+    if (organization.stripeSubscriptionId && organization.stripeSubscriptionId !== subscription.id) return;
+    await storage.updateOrganizationSubscription(organization.id, { subscriptionTier: 'free', subscriptionStatus: 'cancelled' });
+    return;
+  }
+
+  if (endedStatuses.includes(subscription.status)) {
+    await storage.updateOrganizationSubscription(organization.id, {
+      stripeSubscriptionId: subscription.id,
+      subscriptionTier: 'free',
+      subscriptionStatus: normalizeStatus(subscription.status),
+    });
+    return;
+  }
+
+  // Seat count follows the subscription quantity, whichever way it was changed
+  const item = subscription.items.data[0];
+  const tier = item ? tierForPriceId(item.price.id) : undefined;
+  await storage.updateOrganizationSubscription(organization.id, {
+    stripeSubscriptionId: subscription.id,
+    subscriptionTier: tier ?? organization.subscriptionTier,
+    subscriptionStatus: normalizeStatus(subscription.status),
+    seats: item?.quantity ?? organization.seats,
+  });
+}
+
+async function syncInvoice(invoice: PinnedInvoice, status: 'active' | 'past_due') {
+  const customerId = customerIdOf(invoice.customer);
+  if (!customerId) return;
+
+  const subscriptionId = typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription?.id;
+
+  const user = await storage.getUserByStripeCustomerId(customerId);
+  if (!user) {
+    const organization = await storage.getOrganizationByStripeCustomerId(customerId);
+    if (organization && subscriptionId && subscriptionId === organization.stripeSubscriptionId) {
+      await storage.updateOrganizationSubscription(organization.id, { subscriptionStatus: status });
+    } else if (!organization) {
+      console.warn(`Stripe webhook: no user or organization for customer ${customerId}`);
+    }
+    return;
+  }
+
+  // Ignore invoices for subscriptions other than the one on the user record
+  if (!subscriptionId || subscriptionId !== user.stripeSubscriptionId) return;
+
+  await storage.updateUserSubscription(user.id, user.subscriptionTier, status);
+}
+
+// Ends a subscription immediately rather than at the period end. Used when an account is
+// deleted, so subscriptions that are already cancelled or gone are left alone.
+export async function cancelSubscriptionNow(subscriptionId: string): Promise<void> {
+  try {
+    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+    if (subscription.status === 'canceled' || subscription.status === 'incomplete_expired') return;
+    await stripe.subscriptions.cancel(subscriptionId);
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing') return;
+    throw error;
+  }
+}
+
+// Applies a verified Stripe event to the users table. Events are recorded once
+// handled so Stripe's at-least-once delivery never applies the same event twice.
+export async function handleStripeEvent(event: Stripe.Event): Promise<void> {
+  if (await storage.hasProcessedStripeEvent(event.id)) {
+    return;
+  }
+
+  switch (event.type) {
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+      await syncSubscription(event.data.object);
+      break;
+    case 'customer.subscription.deleted':
+      await syncSubscription(event.data.object, true);
+      break;
+    case 'invoice.paid':
+      await syncInvoice(event.data.object as PinnedInvoice, 'active');
+      break;
+    case 'invoice.payment_failed':
+      await syncInvoice(event.data.object as PinnedInvoice, 'past_due');
+      break;
+    default:
+      break;
+  }
+
+  await storage.markStripeEventProcessed(event.id, event.type);
+}
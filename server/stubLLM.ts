@@ -0,0 +1,57 @@
+import { createHash } from "crypto";
+import { type ChatRequest, type LLMProvider, estimateUsage } from "./llm";
+
+// Offline stand-in for a model (LLM_PROVIDER=stub), for development and tests. The reply is
+// built from the request alone, so the same request always gets the same text, and nothing
+// leaves the machine.
+function reply(request: ChatRequest): string {
+  const prompt = [...request.messages].reverse().find((message) => message.role === "user")?.content ?? "";
+  const id = createHash("sha256").update(JSON.stringify(request.messages)).digest("hex").slice(0, 8);
+  const list = jsonListReply(prompt, id);
+  if (list) return list;
+
+  const excerpt = prompt.replace(/\s+/g, " ").trim();
+
+  return [
+    `[Stub reply ${id}]`,
+    `This text comes from the offline stub model. It was asked: "${excerpt.length > 200 ? `${excerpt.slice(0, 200)}...` : excerpt}"`,
+    "Set LLM_PROVIDER to openai or openai-compatible to generate real scripts.",
+  ].join("\n\n");
+}
+
+// Prompts that end with a JSON array of strings, like the one for translation, want an array
+// of the same length back. Each string is returned tagged with the stub id and otherwise as it
+// was, markers and cues included.
+function jsonListReply(prompt: string, id: string): string | null {
+  const start = prompt.lastIndexOf("\n\n[");
+  if (start === -1) return null;
+  let items: unknown;
+  try {
+    items = JSON.parse(prompt.slice(start + 2));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(items) || items.some((item) => typeof item !== "string")) return null;
+  return JSON.stringify(items.map((item) => `[Stub ${id}] ${item}`));
+}
+
+export const stubLLMProvider: LLMProvider = {
+  name: "stub",
+  model: "stub",
+
+  async complete(request) {
+    const text = reply(request);
+    return { text, usage: estimateUsage(stubLLMProvider.model, request, text) };
+  },
+
+  async *stream(request, signal) {
+    // Word by word, yielding to the event loop in between so an abort can land mid-reply
+    const text = reply(request);
+    for (const word of text.split(/(?<=\s)/)) {
+      await new Promise((resolve) => setImmediate(resolve));
+      signal?.throwIfAborted();
+      yield word;
+    }
+    return estimateUsage(stubLLMProvider.model, request, text);
+  },
+};
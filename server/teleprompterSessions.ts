@@ -0,0 +1,49 @@
+import type { TeleprompterSession, TeleprompterSessionEndReason } from "@shared/schema";
+import { storage } from "./storage";
+
+// While the teleprompter is open the client sends a heartbeat every HEARTBEAT_INTERVAL_SECONDS.
+// Each heartbeat credits the time since the previous one, capped at MAX_GAP_SECONDS, so a
+// sleeping laptop or a throttled background tab can't add more than a couple of intervals.
+export const HEARTBEAT_INTERVAL_SECONDS = 30;
+const MAX_GAP_SECONDS = 2 * HEARTBEAT_INTERVAL_SECONDS;
+
+// Sessions that stop sending heartbeats (closed tab, lost connection) are closed by the sweeper
+const STALE_AFTER_MS = 3 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export function startTeleprompterSession(userId: string): Promise<TeleprompterSession> {
+  return storage.createTeleprompterSession(userId);
+}
+
+export function recordHeartbeat(userId: string, id: number): Promise<TeleprompterSession | undefined> {
+  return storage.recordTeleprompterHeartbeat(userId, id, MAX_GAP_SECONDS);
+}
+
+// Credits the time since the last heartbeat, then closes the session
+export async function endTeleprompterSession(
+  userId: string,
+  id: number,
+  reason: TeleprompterSessionEndReason,
+): Promise<TeleprompterSession | undefined> {
+  const session = await recordHeartbeat(userId, id);
+  if (!session) return undefined;
+  return storage.closeTeleprompterSession(session.id, reason);
+}
+
+// Nothing is credited after the last heartbeat of a stale session
+export async function closeStaleTeleprompterSessions(): Promise<number> {
+  const stale = await storage.getStaleTeleprompterSessions(new Date(Date.now() - STALE_AFTER_MS));
+  for (const session of stale) {
+    await storage.closeTeleprompterSession(session.id, "timeout");
+  }
+  return stale.length;
+}
+
+export function startTeleprompterSessionSweeper() {
+  const timer = setInterval(() => {
+    closeStaleTeleprompterSessions().catch((error) => {
+      console.error("Error closing stale teleprompter sessions:", error);
+    });
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+}
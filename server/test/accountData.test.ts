@@ -0,0 +1,74 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import JSZip from "jszip";
+import { storage } from "../storage";
+import { signIn, startTestServer, type TestClient, type TestServer } from "./helpers";
+
+describe("account data routes", () => {
+  let server: TestServer;
+  let user: TestClient;
+  let other: TestClient;
+
+  before(async () => {
+    server = await startTestServer();
+    user = await signIn(server, "export@example.com");
+    other = await signIn(server, "export-other@example.com");
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  describe("GET /api/account/export", () => {
+    it("zips the user's records and scripts, without token hashes or other users' data", async () => {
+      const script = await (await user.request("POST", "/api/scripts", { title: "Morning news: intro", content: "Good morning." })).json();
+      await other.request("POST", "/api/scripts", { title: "Not mine", content: "Private" });
+      await user.request("POST", "/api/tokens", { name: "CLI", scopes: ["scripts:read"] });
+      await storage.logUsage({ userId: user.userId, feature: "teleprompter", duration: 90 });
+
+      const response = await user.request("GET", "/api/account/export");
+      assert.equal(response.status, 200);
+      assert.equal(response.headers.get("content-type"), "application/zip");
+      assert.match(response.headers.get("content-disposition")!, /^attachment; filename="teleprompter-export-\d{4}-\d{2}-\d{2}\.zip"$/);
+
+      const zip = await JSZip.loadAsync(await response.arrayBuffer());
+      const read = async (name: string) => JSON.parse(await zip.file(name)!.async("string"));
+
+      const account = await read("account.json");
+      assert.equal(account.user.id, user.userId);
+      assert.deepEqual((await read("scripts.json")).map((entry: { id: number }) => entry.id), [script.id]);
+      assert.equal(await zip.file(`scripts/${script.id}-morning-news-intro.txt`)!.async("string"), "Good morning.");
+      assert.equal((await read("script-revisions.json")).length, 1);
+      assert.deepEqual((await read("usage.json")).map((entry: { duration: number }) => entry.duration), [90]);
+
+      const [token] = await read("api-tokens.json");
+      assert.equal(token.name, "CLI");
+      assert.ok(!("tokenHash" in token));
+    });
+  });
+
+  describe("DELETE /api/account", () => {
+    it("needs the confirmation", async () => {
+      const response = await user.request("DELETE", "/api/account", { confirm: "yes" });
+      assert.equal(response.status, 400);
+      assert.ok(await storage.getUser(user.userId));
+    });
+
+    it("refuses while the user is the only owner of a team with other members", async () => {
+      const organization = await (await user.request("POST", "/api/organizations", { name: "Export desk" })).json();
+      await storage.addOrganizationMember({ organizationId: organization.id, userId: other.userId });
+
+      const refused = await user.request("DELETE", "/api/account", { confirm: "DELETE" });
+      assert.equal(refused.status, 409);
+      assert.ok(await storage.getUser(user.userId));
+
+      await storage.updateOrganizationMemberRole(organization.id, other.userId, "owner");
+      const deleted = await user.request("DELETE", "/api/account", { confirm: "DELETE" });
+      assert.equal(deleted.status, 200);
+      assert.equal(await storage.getUser(user.userId), undefined);
+      assert.equal((await user.request("GET", "/api/auth/user")).status, 401);
+      assert.deepEqual(await storage.getScripts(user.userId), []);
+      assert.ok(await storage.getOrganization(organization.id));
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { signIn, startTestServer, type TestClient, type TestServer } from "./helpers";
+
+const budget = 5_000;
+
+describe("AI usage accounting", () => {
+  let server: TestServer;
+  let writer: TestClient;
+  let admin: TestClient;
+
+  const generate = (client: TestClient) =>
+    client.request("POST", "/api/generate-script", { scriptType: "news", topic: "Harbour festival", duration: 1 });
+  const usageOf = async (userId: string) => {
+    const [totals] = await storage.getAIUsageTotals(new Date(0), new Date(Date.now() + 60_000), { userId });
+    return totals;
+  };
+
+  before(async () => {
+    // A small token budget so the test can use it up; read when the routes are loaded
+    process.env.AI_TOKEN_BUDGETS = JSON.stringify({ premium: budget });
+    server = await startTestServer();
+    writer = await signIn(server, "ai-writer@example.com");
+    admin = await signIn(server, "ai-admin@example.com");
+    await storage.updateUserSubscription(writer.userId, "premium", "active");
+    await storage.setUserRole(admin.userId, "admin");
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("logs the tokens of every call while the budget lasts", async () => {
+    assert.equal((await generate(writer)).status, 200);
+
+    const totals = await usageOf(writer.userId);
+    assert.equal(totals.calls, 1);
+    assert.ok(totals.promptTokens > 0 && totals.completionTokens > 0);
+    assert.ok(totals.promptTokens + totals.completionTokens < budget);
+    const [byOperation] = await storage.getAIUsageTotals(new Date(0), new Date(Date.now() + 60_000), { userId: writer.userId, groupBy: "operation" });
+    assert.equal(byOperation.key, "generate_script");
+  });
+
+  it("answers 429 once the period's tokens are used up", async () => {
+    const { promptTokens, completionTokens } = await usageOf(writer.userId);
+    await storage.logAIUsage({
+      userId: writer.userId,
+      operation: "script_chat",
+      provider: "stub",
+      model: "stub",
+      promptTokens: budget - promptTokens - completionTokens,
+      completionTokens: 0,
+    });
+
+    const response = await generate(writer);
+    assert.equal(response.status, 429);
+    const { quota } = await response.json();
+    assert.deepEqual({ unit: quota.unit, limit: quota.limit, used: quota.used, remaining: quota.remaining }, { unit: "tokens", limit: budget, used: budget, remaining: 0 });
+    assert.ok(response.headers.get("retry-after"));
+    assert.equal((await usageOf(writer.userId)).calls, 2);
+  });
+
+  it("reports the totals to admins only", async () => {
+    assert.equal((await writer.request("GET", "/api/admin/ai-usage")).status, 403);
+
+    const report = await (await admin.request("GET", "/api/admin/ai-usage")).json();
+    assert.equal(report.totals.calls, 2);
+    assert.deepEqual(report.byOperation.map((group: { key: string }) => group.key).sort(), ["generate_script", "script_chat"]);
+    assert.deepEqual(report.topUsers.map(({ key, email }: { key: string; email: string }) => ({ key, email })), [
+      { key: writer.userId, email: "ai-writer@example.com" },
+    ]);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { requiredScopeFor } from "../apiTokens";
+
+describe("requiredScopeFor", () => {
+  it("grants the script library to the scripts scopes", () => {
+    assert.equal(requiredScopeFor("GET", "/api/scripts"), "scripts:read");
+    assert.equal(requiredScopeFor("GET", "/api/scripts/12/revisions"), "scripts:read");
+    assert.equal(requiredScopeFor("GET", "/api/scripts/12/translations"), "scripts:read");
+    assert.equal(requiredScopeFor("PATCH", "/api/scripts/12"), "scripts:write");
+    assert.equal(requiredScopeFor("POST", "/api/scripts/12/revisions/3/restore"), "scripts:write");
+    assert.equal(requiredScopeFor("DELETE", "/api/folders/4"), "scripts:write");
+    assert.equal(requiredScopeFor("PATCH", "/api/settings"), "settings");
+  });
+
+  it("keeps the AI features session-only", () => {
+    assert.equal(requiredScopeFor("POST", "/api/scripts/12/translate"), null);
+    assert.equal(requiredScopeFor("GET", "/api/scripts/12/chat"), null);
+    assert.equal(requiredScopeFor("POST", "/api/scripts/12/chat"), null);
+    assert.equal(requiredScopeFor("POST", "/api/scripts/12/chat/7/accept"), null);
+    assert.equal(requiredScopeFor("DELETE", "/api/scripts/12/chat"), null);
+    assert.equal(requiredScopeFor("POST", "/api/generate-script"), null);
+  });
+
+  it("keeps billing, teams and token management session-only", () => {
+    assert.equal(requiredScopeFor("GET", "/api/billing/invoices"), null);
+    assert.equal(requiredScopeFor("POST", "/api/organizations"), null);
+    assert.equal(requiredScopeFor("POST", "/api/tokens"), null);
+  });
+});
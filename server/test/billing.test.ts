@@ -0,0 +1,241 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { signIn, startTestServer, type TestClient, type TestServer } from "./helpers";
+import { startStripeMock, type StripeMock } from "./stripeMock";
+
+const customerId = "cus_billing";
+const subscriptionId = "sub_billing";
+
+// A subscription as API version 2023-10-16 returns it: the period is on the subscription, not its items
+function subscription(priceId: string | null, overrides: Record<string, unknown> = {}) {
+  return {
+    id: subscriptionId,
+    object: "subscription",
+    customer: customerId,
+    status: "active",
+    cancel_at_period_end: false,
+    current_period_start: 1710720000,
+    current_period_end: 1713398400,
+    items: {
+      object: "list",
+      data: priceId
+        ? [{ id: "si_billing", object: "subscription_item", price: { id: priceId, recurring: { interval: "month" } }, quantity: 1 }]
+        : [],
+      has_more: false,
+    },
+    ...overrides,
+  };
+}
+
+function invoice(id: string, created: number) {
+  return {
+    id,
+    object: "invoice",
+    customer: customerId,
+    number: `TS-${id}`,
+    status: "paid",
+    amount_due: 199,
+    amount_paid: 199,
+    currency: "gbp",
+    created,
+    period_start: created - 30 * 24 * 60 * 60,
+    period_end: created,
+    hosted_invoice_url: `https://invoice.stripe.com/i/${id}`,
+    invoice_pdf: `https://pay.stripe.com/invoice/${id}/pdf`,
+  };
+}
+
+describe("billing routes", () => {
+  let mock: StripeMock;
+  let server: TestServer;
+  let client: TestClient;
+
+  before(async () => {
+    mock = await startStripeMock();
+    process.env.STRIPE_API_URL = mock.url;
+    server = await startTestServer();
+    client = await signIn(server, "billing@example.com");
+  });
+
+  after(async () => {
+    await server.close();
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    mock.requests.length = 0;
+    await storage.updateUserStripeInfo(client.userId, customerId, subscriptionId);
+    await storage.updateUserSubscription(client.userId, "pro", "active");
+    mock.on(`GET /v1/subscriptions/${subscriptionId}`, () => subscription("price_pro_monthly"));
+  });
+
+  const stripeWrites = () => mock.requests.filter((request) => request.method === "POST");
+
+  describe("GET /api/billing/subscription", () => {
+    it("reports the renewal date from the subscription's current period", async () => {
+      const response = await client.request("GET", "/api/billing/subscription");
+      assert.equal(response.status, 200);
+      const body = await response.json();
+      assert.equal(body.priceId, "price_pro_monthly");
+      assert.equal(body.interval, "month");
+      assert.equal(body.currentPeriodEnd, new Date(1713398400 * 1000).toISOString());
+      assert.equal(body.cancelAtPeriodEnd, false);
+    });
+  });
+
+  describe("GET /api/billing/invoices", () => {
+    // Three invoices, newest first, paged the way Stripe pages lists
+    const invoices = [invoice("in_3", 1713398400), invoice("in_2", 1710720000), invoice("in_1", 1708214400)];
+
+    beforeEach(() => {
+      mock.on("GET /v1/invoices", ({ params }) => {
+        const after = params.get("starting_after");
+        const start = after ? invoices.findIndex((entry) => entry.id === after) + 1 : 0;
+        const limit = Number(params.get("limit"));
+        return {
+          object: "list",
+          data: invoices.slice(start, start + limit),
+          has_more: start + limit < invoices.length,
+          url: "/v1/invoices",
+        };
+      });
+    });
+
+    it("lists the customer's invoices", async () => {
+      const response = await client.request("GET", "/api/billing/invoices");
+      assert.equal(response.status, 200);
+      const body = await response.json();
+      assert.equal(body.hasMore, false);
+      assert.equal(body.invoices.length, 3);
+      assert.deepEqual(body.invoices[0], {
+        id: "in_3",
+        number: "TS-in_3",
+        status: "paid",
+        amountDue: 199,
+        amountPaid: 199,
+        currency: "gbp",
+        created: new Date(1713398400 * 1000).toISOString(),
+        periodStart: new Date((1713398400 - 30 * 24 * 60 * 60) * 1000).toISOString(),
+        periodEnd: new Date(1713398400 * 1000).toISOString(),
+        hostedInvoiceUrl: "https://invoice.stripe.com/i/in_3",
+        invoicePdf: "https://pay.stripe.com/invoice/in_3/pdf",
+      });
+      const [list] = mock.requests;
+      assert.equal(list.params.get("customer"), customerId);
+    });
+
+    it("pages through older invoices", async () => {
+      const first = await (await client.request("GET", "/api/billing/invoices?limit=2")).json();
+      assert.deepEqual(first.invoices.map((entry: { id: string }) => entry.id), ["in_3", "in_2"]);
+      assert.equal(first.hasMore, true);
+
+      const second = await (await client.request("GET", "/api/billing/invoices?limit=2&startingAfter=in_2")).json();
+      assert.deepEqual(second.invoices.map((entry: { id: string }) => entry.id), ["in_1"]);
+      assert.equal(second.hasMore, false);
+      assert.equal(mock.requests[1].params.get("starting_after"), "in_2");
+    });
+
+    it("caps the page size", async () => {
+      await client.request("GET", "/api/billing/invoices?limit=500");
+      assert.equal(mock.requests[0].params.get("limit"), "100");
+    });
+
+    it("returns no invoices without asking Stripe when the user has no customer", async () => {
+      const newcomer = await signIn(server, "no-customer@example.com");
+      mock.requests.length = 0;
+
+      const response = await newcomer.request("GET", "/api/billing/invoices");
+      assert.equal(response.status, 200);
+      assert.deepEqual(await response.json(), { invoices: [], hasMore: false });
+      assert.equal(mock.requests.length, 0);
+    });
+  });
+
+  describe("POST /api/billing/preview-change", () => {
+    it("previews a change to another personal plan", async () => {
+      mock.on("POST /v1/invoices/create_preview", () => ({ object: "invoice", amount_due: 300, currency: "gbp" }));
+
+      const response = await client.request("POST", "/api/billing/preview-change", { priceId: "price_premium_monthly" });
+      assert.equal(response.status, 200);
+      const body = await response.json();
+      assert.equal(body.tier, "premium");
+      assert.equal(body.amountDue, 300);
+      const [preview] = stripeWrites();
+      assert.equal(preview.params.get("subscription_details[items][0][price]"), "price_premium_monthly");
+    });
+
+    it("rejects the per-seat team price", async () => {
+      const response = await client.request("POST", "/api/billing/preview-change", { priceId: "price_team_monthly" });
+      assert.equal(response.status, 400);
+      assert.equal(stripeWrites().length, 0);
+    });
+
+    it("rejects the price the subscription is already on", async () => {
+      const response = await client.request("POST", "/api/billing/preview-change", { priceId: "price_pro_monthly" });
+      assert.equal(response.status, 400);
+      assert.equal(stripeWrites().length, 0);
+    });
+
+    it("rejects a subscription without items", async () => {
+      mock.on(`GET /v1/subscriptions/${subscriptionId}`, () => subscription(null));
+      const response = await client.request("POST", "/api/billing/preview-change", { priceId: "price_premium_monthly" });
+      assert.equal(response.status, 400);
+    });
+  });
+
+  describe("POST /api/billing/change-plan", () => {
+    it("switches the subscription item to the new price", async () => {
+      mock.on(`POST /v1/subscriptions/${subscriptionId}`, () => subscription("price_premium_monthly"));
+
+      const response = await client.request("POST", "/api/billing/change-plan", { priceId: "price_premium_monthly" });
+      assert.equal(response.status, 200);
+      const [update] = stripeWrites();
+      assert.equal(update.params.get("items[0][id]"), "si_billing");
+      assert.equal(update.params.get("items[0][price]"), "price_premium_monthly");
+      assert.equal((await storage.getUser(client.userId))?.subscriptionTier, "premium");
+    });
+
+    it("rejects the per-seat team price", async () => {
+      const response = await client.request("POST", "/api/billing/change-plan", { priceId: "price_team_monthly" });
+      assert.equal(response.status, 400);
+      assert.equal(stripeWrites().length, 0);
+      assert.equal((await storage.getUser(client.userId))?.subscriptionTier, "pro");
+    });
+
+    it("rejects the price the subscription is already on", async () => {
+      const response = await client.request("POST", "/api/billing/change-plan", { priceId: "price_pro_monthly" });
+      assert.equal(response.status, 400);
+      assert.equal(stripeWrites().length, 0);
+    });
+  });
+
+  describe("POST /api/organizations/:id/subscription", () => {
+    it("subscribes the team once and refuses a second subscription", async () => {
+      const created = await client.request("POST", "/api/organizations", { name: "Newsroom" });
+      const organization = await created.json();
+      mock.on("POST /v1/customers", () => ({ id: "cus_newsroom", object: "customer" }));
+      mock.on("POST /v1/subscriptions", () => ({
+        ...subscription("price_team_monthly"),
+        id: "sub_newsroom",
+        customer: "cus_newsroom",
+        status: "incomplete",
+        latest_invoice: { id: "in_newsroom", object: "invoice", payment_intent: { id: "pi_newsroom", client_secret: "pi_newsroom_secret" } },
+      }));
+      const path = `/api/organizations/${organization.id}/subscription`;
+
+      const first = await client.request("POST", path, { priceId: "price_team_monthly", seats: 3 });
+      assert.equal(first.status, 200);
+      assert.deepEqual(await first.json(), { subscriptionId: "sub_newsroom", clientSecret: "pi_newsroom_secret" });
+      const [create] = stripeWrites().filter((request) => request.path === "/v1/subscriptions");
+      assert.equal(create.params.get("expand[0]"), "latest_invoice.payment_intent");
+      // Nothing is paid yet, so the team tier doesn't apply
+      assert.equal(await storage.getEffectiveTier(client.userId), "pro");
+
+      mock.requests.length = 0;
+      const second = await client.request("POST", path, { priceId: "price_team_monthly", seats: 3 });
+      assert.equal(second.status, 409);
+      assert.equal(stripeWrites().length, 0);
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseCues, splitSegments } from "@shared/cues";
+
+const texts = (parts: ReturnType<typeof splitSegments>) =>
+  parts.map((part) => part.map((segment) => (segment.type === "cue" ? `<${segment.cue}>` : segment.emphasis ? `*${segment.text}*` : segment.text)));
+
+describe("splitSegments", () => {
+  it("keeps emphasis across line breaks and markers", () => {
+    const content = "Say [EMPHASIS]this\nand ■ that[/EMPHASIS] [PAUSE]done";
+    const lines = splitSegments(parseCues(content), "\n");
+    assert.deepEqual(texts(lines), [["Say ", "*this*"], ["*and ■ that*", " ", "<pause>", "done"]]);
+    assert.deepEqual(texts(splitSegments(lines[1], "■")), [["*and *"], ["* that*", " ", "<pause>", "done"]]);
+  });
+
+  it("keeps offsets into the source text", () => {
+    const content = "one\n[EMPHASIS]two\nthree";
+    for (const line of splitSegments(parseCues(content), "\n")) {
+      for (const segment of line) {
+        if (segment.type === "text") assert.equal(content.slice(segment.offset, segment.offset + segment.text.length), segment.text);
+      }
+    }
+  });
+
+  it("gives empty parts for separators with nothing between them", () => {
+    assert.deepEqual(texts(splitSegments(parseCues("■"), "■")), [[], []]);
+    assert.deepEqual(texts(splitSegments(parseCues("a\n\nb"), "\n")), [["a"], [], ["b"]]);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { canUseFeature, isFeature } from "@shared/entitlements";
+import { languageName } from "@shared/languages";
+
+describe("isFeature", () => {
+  it("knows the features and nothing inherited from Object", () => {
+    assert.equal(isFeature("teleprompter"), true);
+    assert.equal(isFeature("toString"), false);
+    assert.equal(isFeature("constructor"), false);
+    assert.equal(isFeature("__proto__"), false);
+  });
+
+  it("denies inherited names instead of throwing", () => {
+    assert.equal(canUseFeature({ tier: "team", usageMinutes: 0 }, "toString"), false);
+    assert.equal(canUseFeature({ tier: "premium", usageMinutes: 0 }, "ai_assistant"), true);
+  });
+});
+
+describe("languageName", () => {
+  it("names known languages only", () => {
+    assert.equal(languageName("fr"), "French");
+    assert.equal(languageName("constructor"), "Unknown language");
+    assert.equal(languageName(null), "Unknown language");
+  });
+});
@@ -0,0 +1,75 @@
+import express from "express";
+import type { AddressInfo } from "net";
+
+export interface TestServer {
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+// The API as server/index.ts sets it up, without Vite, on a free local port. The routes are
+// imported here rather than at the top so a test can point STRIPE_API_URL at a mock first.
+export async function startTestServer(): Promise<TestServer> {
+  const { registerRoutes } = await import("../routes");
+
+  const app = express();
+  app.use(express.json({
+    verify: (req, _res, buf) => {
+      req.rawBody = buf;
+    },
+  }));
+  app.use(express.urlencoded({ extended: false }));
+
+  const server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+export interface TestClient {
+  userId: string;
+  request(method: string, path: string, body?: unknown): Promise<Response>;
+}
+
+// Signs in through the local auth provider, picking the sign-in link out of the console
+// output, and returns a client that sends the session cookie with every request.
+export async function signIn(server: TestServer, email: string): Promise<TestClient> {
+  const log = console.log;
+  let link: string | undefined;
+  console.log = (...args: unknown[]) => {
+    const match = String(args[0]).match(/https?:\/\/\S+\/api\/login\/local\/verify\S+/);
+    if (match) link = match[0];
+    else log(...args);
+  };
+  try {
+    await fetch(`${server.baseUrl}/api/login/local`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email }),
+    });
+  } finally {
+    console.log = log;
+  }
+  if (!link) throw new Error(`No sign-in link was printed for ${email}`);
+
+  const verified = await fetch(link, { redirect: "manual" });
+  const cookie = verified.headers.getSetCookie().map((header) => header.split(";")[0]).join("; ");
+
+  const request = (method: string, path: string, body?: unknown) =>
+    fetch(`${server.baseUrl}${path}`, {
+      method,
+      headers: body === undefined ? { cookie } : { cookie, "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const me = await request("GET", "/api/auth/user");
+  if (!me.ok) throw new Error(`Sign-in for ${email} failed with ${me.status}`);
+  const { id } = await me.json();
+  return { userId: id, request };
+}
@@ -0,0 +1,48 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { signIn, startTestServer, type TestClient, type TestServer } from "./helpers";
+
+// The server as it starts with no model configured: LLM_PROVIDER and OPENAI_API_KEY unset
+describe("without an AI provider", () => {
+  let server: TestServer;
+  let client: TestClient;
+
+  before(async () => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.OPENAI_API_KEY;
+    server = await startTestServer();
+    client = await signIn(server, "no-ai@example.com");
+    await storage.updateUserSubscription(client.userId, "premium", "active");
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("still serves the routes that don't use AI", async () => {
+    assert.equal((await client.request("GET", "/api/auth/user")).status, 200);
+    const created = await client.request("POST", "/api/scripts", { title: "Handwritten", content: "No model needed." });
+    assert.equal(created.status, 200);
+    assert.equal((await client.request("GET", "/api/scripts")).status, 200);
+    assert.equal((await client.request("GET", "/api/settings")).status, 200);
+  });
+
+  it("answers 503 from the AI routes without logging usage", async () => {
+    const script = await (await client.request("POST", "/api/scripts", { title: "Draft", content: "Hello." })).json();
+    const requests: [string, string, unknown][] = [
+      ["POST", "/api/generate-script", { scriptType: "news", topic: "Weather", duration: 1 }],
+      ["POST", "/api/generate-script/stream", { scriptType: "news", topic: "Weather", duration: 1 }],
+      ["POST", "/api/improve-script", { script: "Hello.", instructions: "Shorter" }],
+      ["POST", "/api/edit-script-selection", {}],
+      ["POST", `/api/scripts/${script.id}/translate`, { language: "fr" }],
+      ["POST", `/api/scripts/${script.id}/chat`, { message: "Shorter" }],
+    ];
+    for (const [method, path, body] of requests) {
+      const response = await client.request(method, path, body);
+      assert.equal(response.status, 503, path);
+      assert.equal((await response.json()).message, "AI provider not configured");
+    }
+    assert.deepEqual(await storage.getUsageLogs(client.userId, 10), []);
+  });
+});
@@ -0,0 +1,44 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { signIn, startTestServer, type TestClient, type TestServer } from "./helpers";
+
+describe("organization member routes", () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let member: TestClient;
+  let outsider: TestClient;
+  let organizationId: number;
+
+  before(async () => {
+    server = await startTestServer();
+    owner = await signIn(server, "team-owner@example.com");
+    member = await signIn(server, "team-member@example.com");
+    outsider = await signIn(server, "team-outsider@example.com");
+
+    const organization = await (await owner.request("POST", "/api/organizations", { name: "Newsdesk" })).json();
+    organizationId = organization.id;
+    await storage.updateOrganizationSubscription(organizationId, { seats: 3 });
+    const added = await owner.request("POST", `/api/organizations/${organizationId}/members`, { email: "team-member@example.com" });
+    assert.equal(added.status, 200);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  describe("PATCH /api/organizations/:id/members/:userId", () => {
+    it("changes a member's role", async () => {
+      const response = await owner.request("PATCH", `/api/organizations/${organizationId}/members/${member.userId}`, { role: "editor" });
+      assert.equal(response.status, 200);
+      assert.equal((await response.json()).role, "editor");
+    });
+
+    it("returns 404 for someone who isn't a member", async () => {
+      const response = await owner.request("PATCH", `/api/organizations/${organizationId}/members/${outsider.userId}`, { role: "editor" });
+      assert.equal(response.status, 404);
+      assert.equal((await response.json()).message, "Member not found");
+      assert.equal(await storage.getOrganizationMember(organizationId, outsider.userId), undefined);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { signIn, startTestServer, type TestClient, type TestServer } from "./helpers";
+
+// Only Date is mocked, so the test can move into the next billing period
+describe("per-period quotas", () => {
+  let server: TestServer;
+  let client: TestClient;
+
+  const generate = () => client.request("POST", "/api/generate-script", { scriptType: "news", topic: "Local elections", duration: 2 });
+
+  before(async () => {
+    mock.timers.enable({ apis: ["Date"], now: new Date("2025-03-28T12:00:00Z") });
+    // A small allowance so the test can use it up; read when the routes are loaded
+    process.env.QUOTA_LIMITS = JSON.stringify({ premium: { ai_assistant: 2 } });
+    server = await startTestServer();
+    client = await signIn(server, "quota@example.com");
+    await storage.updateUserSubscription(client.userId, "premium", "active");
+    await storage.setBillingCycleAnchor(client.userId, new Date("2025-03-01T00:00:00Z"));
+  });
+
+  after(async () => {
+    await server.close();
+    mock.timers.reset();
+  });
+
+  it("allows requests while the period's allowance lasts", async () => {
+    assert.equal((await generate()).status, 200);
+    assert.equal((await generate()).status, 200);
+  });
+
+  it("answers 429 with the allowance and a Retry-After at the next period once it is used up", async () => {
+    const response = await generate();
+    assert.equal(response.status, 429);
+    const body = await response.json();
+    assert.equal(body.quotaExceeded, true);
+    assert.deepEqual(
+      { feature: body.quota.feature, unit: body.quota.unit, limit: body.quota.limit, used: body.quota.used, resetsAt: body.quota.resetsAt },
+      { feature: "ai_assistant", unit: "requests", limit: 2, used: 2, resetsAt: "2025-04-01T00:00:00.000Z" },
+    );
+    const untilReset = (new Date("2025-04-01T00:00:00Z").getTime() - Date.now()) / 1000;
+    assert.equal(response.headers.get("retry-after"), String(Math.ceil(untilReset)));
+  });
+
+  it("resets when the next billing period starts", async () => {
+    mock.timers.setTime(new Date("2025-04-01T00:00:01Z").getTime());
+    assert.equal((await generate()).status, 200);
+  });
+});
@@ -0,0 +1,139 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { signIn, startTestServer, type TestClient, type TestServer } from "./helpers";
+
+// Every /api/scripts route must treat another user's script as if it didn't exist: 404 for
+// anything addressed by id, and nothing of it in listings, search results or facet counts.
+describe("scripts routes across users", () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let intruder: TestClient;
+  let scriptId: number;
+  let revisionId: number;
+  let suggestionId: number;
+  let folderId: number;
+
+  const ownersScript = async () => (await (await owner.request("GET", `/api/scripts/${scriptId}`)).json());
+
+  before(async () => {
+    server = await startTestServer();
+    owner = await signIn(server, "owner@example.com");
+    intruder = await signIn(server, "intruder@example.com");
+    // The AI routes need the feature, so the intruder gets as far as the ownership check
+    await storage.updateUserSubscription(owner.userId, "premium", "active");
+    await storage.updateUserSubscription(intruder.userId, "premium", "active");
+
+    const folder = await (await owner.request("POST", "/api/folders", { name: "Private" })).json();
+    folderId = folder.id;
+    const script = await (await owner.request("POST", "/api/scripts", {
+      title: "Quarterly results",
+      content: "Revenue grew in every region.",
+      scriptType: "business",
+      tags: ["finance"],
+    })).json();
+    scriptId = script.id;
+    await owner.request("PATCH", `/api/scripts/${scriptId}`, { content: "Revenue grew in every region but one." });
+    const revisions = await (await owner.request("GET", `/api/scripts/${scriptId}/revisions`)).json();
+    revisionId = revisions[revisions.length - 1].id;
+
+    // A pending AI suggestion, as the co-writing chat would leave one
+    const suggestion = await storage.createScriptChatMessage({
+      scriptId,
+      userId: owner.userId,
+      role: "assistant",
+      content: "Here is a revised version.",
+      proposedContent: "Revenue fell everywhere.",
+      baseContentHash: null,
+      proposalStatus: "pending",
+    });
+    suggestionId = suggestion.id;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  describe("listings", () => {
+    it("leaves the script out of GET /api/scripts", async () => {
+      const scripts = await (await intruder.request("GET", "/api/scripts")).json();
+      assert.deepEqual(scripts, []);
+    });
+
+    it("leaves the script out of search results", async () => {
+      const response = await intruder.request("GET", "/api/scripts/search?q=revenue");
+      assert.equal(response.status, 200);
+      const { scripts, total } = await response.json();
+      assert.deepEqual(scripts, []);
+      assert.equal(total, 0);
+    });
+
+    it("leaves the script out of the facet counts", async () => {
+      const facets = await (await intruder.request("GET", "/api/scripts/facets")).json();
+      assert.deepEqual(facets.scriptTypes, []);
+      assert.deepEqual(facets.tags, []);
+    });
+  });
+
+  describe("routes addressed by script id", () => {
+    const routes: [method: string, path: () => string, body?: unknown][] = [
+      ["GET", () => `/api/scripts/${scriptId}`],
+      ["PATCH", () => `/api/scripts/${scriptId}`, { title: "Hijacked" }],
+      ["DELETE", () => `/api/scripts/${scriptId}`],
+      ["GET", () => `/api/scripts/${scriptId}/revisions`],
+      ["GET", () => `/api/scripts/${scriptId}/revisions/${revisionId}/diff`],
+      ["POST", () => `/api/scripts/${scriptId}/revisions/${revisionId}/restore`],
+      ["GET", () => `/api/scripts/${scriptId}/translations`],
+      ["POST", () => `/api/scripts/${scriptId}/translate`, { language: "fr" }],
+      ["GET", () => `/api/scripts/${scriptId}/chat`],
+      ["POST", () => `/api/scripts/${scriptId}/chat`, { message: "Make it shorter" }],
+      ["POST", () => `/api/scripts/${scriptId}/chat/${suggestionId}/accept`],
+      ["POST", () => `/api/scripts/${scriptId}/chat/${suggestionId}/reject`],
+      ["DELETE", () => `/api/scripts/${scriptId}/chat`],
+    ];
+
+    for (const [method, path, body] of routes) {
+      it(`${method} ${path().replace(/\/\d+|\/undefined/g, "/:id")} returns 404`, async () => {
+        const response = await intruder.request(method, path(), body);
+        assert.equal(response.status, 404);
+        assert.equal((await response.json()).message, "Script not found");
+      });
+    }
+
+    it("leaves the owner's script, history and conversation untouched", async () => {
+      const script = await ownersScript();
+      assert.equal(script.title, "Quarterly results");
+      assert.equal(script.content, "Revenue grew in every region but one.");
+
+      const revisions = await (await owner.request("GET", `/api/scripts/${scriptId}/revisions`)).json();
+      assert.equal(revisions.length, 2);
+      const translations = await (await owner.request("GET", `/api/scripts/${scriptId}/translations`)).json();
+      assert.deepEqual(translations.translations, []);
+
+      const chat = await (await owner.request("GET", `/api/scripts/${scriptId}/chat`)).json();
+      assert.equal(chat.length, 1);
+      assert.equal(chat[0].proposalStatus, "pending");
+
+      const [intruderUsage] = await storage.getAIUsageTotals(new Date(0), new Date(Date.now() + 60_000), { userId: intruder.userId });
+      assert.equal(intruderUsage.calls, 0);
+    });
+  });
+
+  describe("folders", () => {
+    it("won't file a new script in another user's folder", async () => {
+      const response = await intruder.request("POST", "/api/scripts", { title: "Mine", content: "Text", folderId });
+      assert.equal(response.status, 400);
+    });
+
+    it("won't move a script into another user's folder", async () => {
+      const script = await (await intruder.request("POST", "/api/scripts", { title: "Mine", content: "Text" })).json();
+      const response = await intruder.request("PATCH", `/api/scripts/${script.id}`, { folderId });
+      assert.equal(response.status, 400);
+    });
+  });
+
+  it("still serves the owner", async () => {
+    const response = await owner.request("GET", `/api/scripts/${scriptId}`);
+    assert.equal(response.status, 200);
+  });
+});
@@ -0,0 +1,113 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { signIn, startTestServer, type TestClient, type TestServer } from "./helpers";
+
+interface ChatMessage {
+  id: number;
+  role: string;
+  proposedContent: string | null;
+  proposalStatus: string | null;
+  revisionId: number | null;
+}
+
+describe("script chat routes", () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let scriptId: number;
+
+  const script = async () => (await owner.request("GET", `/api/scripts/${scriptId}`)).json();
+  // Asks for a revision; the stub model's reply is taken as the proposed script
+  const ask = async (client: TestClient = owner): Promise<{ message: ChatMessage; reply: ChatMessage }> =>
+    (await client.request("POST", `/api/scripts/${scriptId}/chat`, { message: "Make it warmer" })).json();
+  const accept = (messageId: number, client: TestClient = owner) =>
+    client.request("POST", `/api/scripts/${scriptId}/chat/${messageId}/accept`);
+  const reject = (messageId: number) => owner.request("POST", `/api/scripts/${scriptId}/chat/${messageId}/reject`);
+
+  before(async () => {
+    server = await startTestServer();
+    owner = await signIn(server, "cowriter@example.com");
+    await storage.updateUserSubscription(owner.userId, "premium", "active");
+  });
+
+  beforeEach(async () => {
+    const created = await (await owner.request("POST", "/api/scripts", { title: "Toast", content: "Thank you all for coming." })).json();
+    scriptId = created.id;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("stores both turns with a pending suggestion", async () => {
+    const { message, reply } = await ask();
+    assert.equal(message.role, "user");
+    assert.equal(reply.role, "assistant");
+    assert.equal(reply.proposalStatus, "pending");
+    assert.ok(reply.proposedContent);
+
+    const conversation: ChatMessage[] = await (await owner.request("GET", `/api/scripts/${scriptId}/chat`)).json();
+    assert.deepEqual(conversation.map((entry) => entry.id), [message.id, reply.id]);
+    assert.equal((await script()).content, "Thank you all for coming.");
+  });
+
+  it("applies an accepted suggestion as an AI revision, once", async () => {
+    const { reply } = await ask();
+    const response = await accept(reply.id);
+    assert.equal(response.status, 200);
+    const { script: updated, message } = await response.json();
+    assert.equal(updated.content, reply.proposedContent);
+    assert.equal(message.proposalStatus, "accepted");
+
+    const [revision] = await (await owner.request("GET", `/api/scripts/${scriptId}/revisions`)).json();
+    assert.equal(revision.id, message.revisionId);
+    assert.equal(revision.source, "ai");
+
+    assert.equal((await accept(reply.id)).status, 400);
+    assert.equal((await reject(reply.id)).status, 400);
+  });
+
+  it("refuses a suggestion made for an older version of the script", async () => {
+    const { reply } = await ask();
+    await owner.request("PATCH", `/api/scripts/${scriptId}`, { content: "Thank you all for coming tonight." });
+
+    assert.equal((await accept(reply.id)).status, 409);
+    assert.equal((await script()).content, "Thank you all for coming tonight.");
+  });
+
+  it("rejects a suggestion without touching the script", async () => {
+    const { message, reply } = await ask();
+    const response = await reject(reply.id);
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).proposalStatus, "rejected");
+    assert.equal((await script()).content, "Thank you all for coming.");
+
+    // The user's own turn carries no suggestion
+    assert.equal((await accept(message.id)).status, 404);
+  });
+
+  it("won't let a team presenter apply a suggestion", async () => {
+    const organization = await (await owner.request("POST", "/api/organizations", { name: "Wedding party" })).json();
+    const presenter = await signIn(server, `presenter-${scriptId}@example.com`);
+    await storage.updateUserSubscription(presenter.userId, "premium", "active");
+    await storage.addOrganizationMember({ organizationId: organization.id, userId: presenter.userId });
+    const team = await (await owner.request("POST", "/api/scripts", { title: "Team toast", content: "Cheers.", organizationId: organization.id })).json();
+    scriptId = team.id;
+
+    const { reply } = await ask(presenter);
+    assert.equal((await accept(reply.id, presenter)).status, 403);
+    assert.equal((await storage.getScript(owner.userId, team.id))?.content, "Cheers.");
+    assert.equal((await storage.getScriptChatMessage(team.id, presenter.userId, reply.id))?.proposalStatus, "pending");
+  });
+
+  it("clears the user's conversation but keeps accepted changes in the history", async () => {
+    const { reply } = await ask();
+    await accept(reply.id);
+
+    const response = await owner.request("DELETE", `/api/scripts/${scriptId}/chat`);
+    assert.equal(response.status, 200);
+    assert.deepEqual(await (await owner.request("GET", `/api/scripts/${scriptId}/chat`)).json(), []);
+    assert.equal((await script()).content, reply.proposedContent);
+    assert.equal((await (await owner.request("GET", `/api/scripts/${scriptId}/revisions`)).json()).length, 2);
+  });
+});
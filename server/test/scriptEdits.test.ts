@@ -0,0 +1,97 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyEditHunks, buildEditHunks, type EditHunk, type ScriptEditResult } from "@shared/scriptEdits";
+import { storage } from "../storage";
+import { signIn, startTestServer, type TestClient, type TestServer } from "./helpers";
+
+const content = "Intro. One. Two. Outro.";
+const selectionStart = content.indexOf("One");
+const selectionEnd = content.indexOf(" Outro");
+
+// Every hunk must describe the script it was built on
+function assertHunksMatch(text: string, hunks: EditHunk[]) {
+  for (const hunk of hunks) {
+    assert.equal(text.slice(hunk.start, hunk.end), hunk.before);
+  }
+}
+
+const all = (hunks: EditHunk[]) => new Set(hunks.map((hunk) => hunk.id));
+
+describe("buildEditHunks and applyEditHunks", () => {
+  it("turns an insertion into an empty range", () => {
+    const hunks = buildEditHunks(content, selectionStart, selectionEnd, "One. New. Two.");
+    assert.deepEqual(hunks, [{ id: 0, start: 12, end: 12, before: "", after: "New. " }]);
+    assert.equal(applyEditHunks(content, hunks, all(hunks)), "Intro. One. New. Two. Outro.");
+  });
+
+  it("turns a deletion into a range with nothing after it", () => {
+    const hunks = buildEditHunks(content, selectionStart, selectionEnd, "Two.");
+    assert.deepEqual(hunks, [{ id: 0, start: 7, end: 12, before: "One. ", after: "" }]);
+    assert.equal(applyEditHunks(content, hunks, all(hunks)), "Intro. Two. Outro.");
+  });
+
+  it("splits separate changes into separate hunks", () => {
+    const script = "A one. B two. C three. D four.";
+    const hunks = buildEditHunks(script, 0, script.length, "A one. B 2. C three. D 4.");
+    assert.deepEqual(hunks, [
+      { id: 0, start: 7, end: 13, before: "B two.", after: "B 2." },
+      { id: 1, start: 23, end: 30, before: "D four.", after: "D 4." },
+    ]);
+    assertHunksMatch(script, hunks);
+    assert.equal(applyEditHunks(script, hunks, all(hunks)), "A one. B 2. C three. D 4.");
+  });
+
+  it("applies only the accepted hunks, whichever they are", () => {
+    const script = "A one. B two. C three. D four.";
+    const hunks = buildEditHunks(script, 0, script.length, "A one. B 2. C three. D 4.");
+    assert.equal(applyEditHunks(script, hunks, new Set([0])), "A one. B 2. C three. D four.");
+    assert.equal(applyEditHunks(script, hunks, new Set([1])), "A one. B two. C three. D 4.");
+    assert.equal(applyEditHunks(script, hunks, new Set()), script);
+  });
+
+  it("keeps offsets into the whole script when the selection starts later", () => {
+    const script = "Keep this. Change that. Keep the end.";
+    const start = script.indexOf("Change");
+    const end = script.indexOf(" Keep the end");
+    const hunks = buildEditHunks(script, start, end, "Rewrite that.");
+    assertHunksMatch(script, hunks);
+    assert.equal(applyEditHunks(script, hunks, all(hunks)), "Keep this. Rewrite that. Keep the end.");
+  });
+});
+
+describe("POST /api/edit-script-selection", () => {
+  let server: TestServer;
+  let client: TestClient;
+
+  before(async () => {
+    server = await startTestServer();
+    client = await signIn(server, "editor@example.com");
+    await storage.updateUserSubscription(client.userId, "premium", "active");
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("returns hunks that rebuild the replacement when all are accepted", async () => {
+    const response = await client.request("POST", "/api/edit-script-selection", { content, selectionStart, selectionEnd, operation: "simplify" });
+    assert.equal(response.status, 200);
+    const result: ScriptEditResult = await response.json();
+    assert.equal(result.selectionStart, selectionStart);
+    assertHunksMatch(content, result.hunks);
+    const expected = content.slice(0, selectionStart) + result.replacement + content.slice(selectionEnd);
+    assert.equal(applyEditHunks(content, result.hunks, all(result.hunks)), expected);
+  });
+
+  it("rejects a selection that is empty, whitespace or past the end", async () => {
+    const requests = [
+      { content, selectionStart: 5, selectionEnd: 5, operation: "simplify" },
+      { content: "One.   Two.", selectionStart: 4, selectionEnd: 7, operation: "simplify" },
+      { content, selectionStart: 0, selectionEnd: content.length + 1, operation: "simplify" },
+    ];
+    for (const body of requests) {
+      assert.equal((await client.request("POST", "/api/edit-script-selection", body)).status, 400);
+    }
+    assert.equal((await storage.getUsageLogs(client.userId, 10)).length, 1);
+  });
+});
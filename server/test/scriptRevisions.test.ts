@@ -0,0 +1,90 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { signIn, startTestServer, type TestClient, type TestServer } from "./helpers";
+
+interface Revision {
+  id: number;
+  title: string;
+  content: string;
+  source: string;
+}
+
+describe("script revision routes", () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let scriptId: number;
+
+  const revisions = async (): Promise<Revision[]> =>
+    (await owner.request("GET", `/api/scripts/${scriptId}/revisions`)).json();
+
+  before(async () => {
+    server = await startTestServer();
+    owner = await signIn(server, "revisions@example.com");
+    const script = await (await owner.request("POST", "/api/scripts", { title: "Welcome", content: "Good evening.\nTonight's headlines." })).json();
+    scriptId = script.id;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("records a revision for every title or content change, newest first", async () => {
+    await owner.request("PATCH", `/api/scripts/${scriptId}`, { content: "Good evening.\nTonight's top story." });
+    await owner.request("PATCH", `/api/scripts/${scriptId}`, { tags: ["news"] });
+
+    const history = await revisions();
+    assert.deepEqual(history.map((revision) => revision.content), ["Good evening.\nTonight's top story.", "Good evening.\nTonight's headlines."]);
+    assert.ok(history[0].id > history[1].id);
+  });
+
+  it("diffs a revision by line against the current script or another revision", async () => {
+    const [latest, first] = await revisions();
+
+    const current = await (await owner.request("GET", `/api/scripts/${scriptId}/revisions/${first.id}/diff`)).json();
+    assert.equal(current.titleChanged, false);
+    assert.deepEqual(current.parts, [
+      { type: "equal", lines: ["Good evening."] },
+      { type: "delete", lines: ["Tonight's headlines."] },
+      { type: "insert", lines: ["Tonight's top story."] },
+    ]);
+
+    const against = await (await owner.request("GET", `/api/scripts/${scriptId}/revisions/${latest.id}/diff?against=${latest.id}`)).json();
+    assert.deepEqual(against.parts, [{ type: "equal", lines: ["Good evening.", "Tonight's top story."] }]);
+  });
+
+  it("restores an earlier revision as a new revision", async () => {
+    const first = (await revisions()).at(-1)!;
+    const response = await owner.request("POST", `/api/scripts/${scriptId}/revisions/${first.id}/restore`);
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).content, "Good evening.\nTonight's headlines.");
+
+    const [restored] = await revisions();
+    assert.equal(restored.source, "restore");
+    assert.equal(restored.content, first.content);
+    assert.equal((await revisions()).length, 3);
+  });
+
+  it("only finds revisions of the script in the path", async () => {
+    const other = await (await owner.request("POST", "/api/scripts", { title: "Other", content: "Elsewhere" })).json();
+    const [revision] = await revisions();
+
+    assert.equal((await owner.request("GET", `/api/scripts/${other.id}/revisions/${revision.id}/diff`)).status, 404);
+    assert.equal((await owner.request("POST", `/api/scripts/${other.id}/revisions/${revision.id}/restore`)).status, 404);
+    assert.equal((await owner.request("GET", `/api/scripts/${scriptId}/revisions/${revision.id}/diff?against=999999`)).status, 404);
+  });
+
+  it("lets team presenters read the history but not restore it", async () => {
+    const presenter = await signIn(server, "revisions-presenter@example.com");
+    const organization = await (await owner.request("POST", "/api/organizations", { name: "Revisions desk" })).json();
+    await storage.addOrganizationMember({ organizationId: organization.id, userId: presenter.userId });
+    const script = await (await owner.request("POST", "/api/scripts", { title: "Team", content: "One", organizationId: organization.id })).json();
+    await owner.request("PATCH", `/api/scripts/${script.id}`, { content: "Two" });
+
+    const history: Revision[] = await (await presenter.request("GET", `/api/scripts/${script.id}/revisions`)).json();
+    assert.equal(history.length, 2);
+    const response = await presenter.request("POST", `/api/scripts/${script.id}/revisions/${history[1].id}/restore`);
+    assert.equal(response.status, 403);
+    assert.equal((await storage.getScript(owner.userId, script.id))?.content, "Two");
+  });
+});
@@ -0,0 +1,84 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { renderTemplatePrompt, unknownTemplateVariables } from "@shared/scriptTemplates";
+import { storage } from "../storage";
+import { signIn, startTestServer, type TestClient, type TestServer } from "./helpers";
+
+const values = { topic: "the harbour", duration: 3, audience: "sailors", tone: "friendly" };
+
+describe("template prompts", () => {
+  it("fills in every known placeholder, spaces inside the braces allowed", () => {
+    assert.equal(
+      renderTemplatePrompt("A {{ tone }} talk on {{topic}} for {{audience}}, {{duration}} minutes. Again: {{topic}}.", values),
+      "A friendly talk on the harbour for sailors, 3 minutes. Again: the harbour.",
+    );
+  });
+
+  it("leaves unknown placeholders as written", () => {
+    assert.equal(renderTemplatePrompt("{{speaker}} on {{topic}} {{constructor}}", values), "{{speaker}} on the harbour {{constructor}}");
+  });
+
+  it("lists each unknown placeholder once", () => {
+    assert.deepEqual(unknownTemplateVariables("{{topic}} {{ speaker }} {{venue}} {{speaker}} {{toString}}"), ["speaker", "venue", "toString"]);
+    assert.deepEqual(unknownTemplateVariables("{{topic}} for {{audience}}, {{duration}} minutes, {{tone}}"), []);
+  });
+});
+
+describe("script template routes", () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let other: TestClient;
+
+  before(async () => {
+    server = await startTestServer();
+    owner = await signIn(server, "templates@example.com");
+    other = await signIn(server, "templates-other@example.com");
+    await storage.updateUserSubscription(owner.userId, "premium", "active");
+    await storage.updateUserSubscription(other.userId, "premium", "active");
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("rejects prompts with placeholders the generator can't fill in", async () => {
+    const created = await owner.request("POST", "/api/script-templates", { name: "Toast", prompt: "A toast by {{speaker}} about {{topic}}" });
+    assert.equal(created.status, 400);
+    assert.equal((await created.json()).message, "Unknown template variables: {{speaker}}");
+
+    const template = await (await owner.request("POST", "/api/script-templates", { name: "Toast", prompt: "A toast about {{topic}}" })).json();
+    const updated = await owner.request("PATCH", `/api/script-templates/${template.id}`, { prompt: "A toast for {{venue}}" });
+    assert.equal(updated.status, 400);
+    assert.equal((await storage.getScriptTemplate(owner.userId, template.id))?.prompt, "A toast about {{topic}}");
+  });
+
+  it("generates from the rendered template, only for users who can see it", async () => {
+    const template = await (await owner.request("POST", "/api/script-templates", {
+      name: "Toast",
+      prompt: "Write a toast about {{topic}} for {{audience}}.",
+      defaultTone: "humorous",
+    })).json();
+    const body = { templateId: template.id, topic: "Grandma's 90th", audience: "family", duration: 2 };
+
+    const response = await owner.request("POST", "/api/generate-script", body);
+    assert.equal(response.status, 200);
+    // The stub model quotes the prompt it was given
+    assert.match((await response.json()).script, /Write a toast about Grandma's 90th for family\./);
+
+    const refused = await other.request("POST", "/api/generate-script", body);
+    assert.equal(refused.status, 404);
+  });
+
+  it("lets only owners and editors add team templates", async () => {
+    const organization = await (await owner.request("POST", "/api/organizations", { name: "Toastmasters" })).json();
+    await storage.addOrganizationMember({ organizationId: organization.id, userId: other.userId });
+
+    const refused = await other.request("POST", "/api/script-templates", { name: "Team", prompt: "{{topic}}", organizationId: organization.id });
+    assert.equal(refused.status, 403);
+    const created = await owner.request("POST", "/api/script-templates", { name: "Team", prompt: "{{topic}}", organizationId: organization.id });
+    assert.equal(created.status, 200);
+
+    const visible = await (await other.request("GET", "/api/script-templates")).json();
+    assert.deepEqual(visible.map((template: { name: string }) => template.name), ["Team"]);
+  });
+});
@@ -0,0 +1,62 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { signIn, startTestServer, type TestClient, type TestServer } from "./helpers";
+
+const content = "Good evening. ■ Welcome to the show.\n\nOur first guest ■ needs no [PAUSE] introduction.\n\n\nGoodnight.";
+
+// Paragraph breaks and the number of markers in each paragraph: what a translation must keep
+function structure(text: string) {
+  const pieces = text.split(/(\n\s*\n)/);
+  return pieces.map((piece, index) => (index % 2 === 1 ? piece : piece.split("■").length - 1));
+}
+
+describe("POST /api/scripts/:id/translate", () => {
+  let server: TestServer;
+  let client: TestClient;
+  let scriptId: number;
+
+  before(async () => {
+    server = await startTestServer();
+    client = await signIn(server, "translator@example.com");
+    await storage.updateUserSubscription(client.userId, "premium", "active");
+    const script = await (await client.request("POST", "/api/scripts", { title: "Late show", content, language: "en", tags: ["tv"] })).json();
+    scriptId = script.id;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("creates a linked sibling script with the same paragraphs and markers", async () => {
+    const response = await client.request("POST", `/api/scripts/${scriptId}/translate`, { language: "fr" });
+    assert.equal(response.status, 200);
+    const translation = await response.json();
+    assert.notEqual(translation.id, scriptId);
+    assert.equal(translation.language, "fr");
+    assert.equal(translation.translatedFromId, scriptId);
+    assert.equal(translation.title, "Late show (French)");
+    assert.deepEqual(translation.tags, ["tv"]);
+    assert.equal(translation.generatedByAi, true);
+    assert.deepEqual(structure(translation.content), structure(content));
+    assert.match(translation.content, /\[PAUSE\]/);
+
+    const { translations } = await (await client.request("GET", `/api/scripts/${scriptId}/translations`)).json();
+    assert.deepEqual(translations.map((script: { id: number }) => script.id), [translation.id]);
+  });
+
+  it("updates the existing translation instead of adding another", async () => {
+    const [existing] = await storage.getScriptTranslations(client.userId, scriptId);
+    await client.request("PATCH", `/api/scripts/${scriptId}`, { content: "Hello ■ again." });
+
+    const translation = await (await client.request("POST", `/api/scripts/${scriptId}/translate`, { language: "fr" })).json();
+    assert.equal(translation.id, existing.id);
+    assert.deepEqual(structure(translation.content), structure("Hello ■ again."));
+    assert.equal((await storage.getScriptTranslations(client.userId, scriptId)).length, 1);
+  });
+
+  it("rejects the script's own language and unsupported ones", async () => {
+    assert.equal((await client.request("POST", `/api/scripts/${scriptId}/translate`, { language: "en" })).status, 400);
+    assert.equal((await client.request("POST", `/api/scripts/${scriptId}/translate`, { language: "xx" })).status, 400);
+  });
+});
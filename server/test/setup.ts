@@ -0,0 +1,15 @@
+// Loaded before every test file (see the test script in package.json). Tests run the whole server
+// offline: in-memory storage, console sign-in links, the stub model and placeholder Stripe settings.
+// Anything already set in the environment wins, so DATABASE_URL can still point at a test database.
+
+process.env.NODE_ENV ??= "test";
+process.env.STORAGE_BACKEND ??= "memory";
+process.env.AUTH_PROVIDER ??= "local";
+process.env.SESSION_SECRET ??= "test-session-secret";
+process.env.LLM_PROVIDER ??= "stub";
+process.env.STRIPE_SECRET_KEY ??= "sk_test_telescroll";
+process.env.STRIPE_WEBHOOK_SECRET ??= "whsec_telescroll";
+process.env.STRIPE_PRICE_PRO_MONTHLY ??= "price_pro_monthly";
+process.env.STRIPE_PRICE_PRO_ANNUAL ??= "price_pro_annual";
+process.env.STRIPE_PRICE_PREMIUM_MONTHLY ??= "price_premium_monthly";
+process.env.STRIPE_PRICE_TEAM_MONTHLY ??= "price_team_monthly";
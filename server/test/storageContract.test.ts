@@ -0,0 +1,609 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { adminUserSearchSchema, scriptSearchSchema, type InsertScript } from "@shared/schema";
+import { DatabaseStorage, MemStorage, type IStorage } from "../storage";
+import { pool } from "../db";
+
+// One set of cases for every IStorage backend, so MemStorage and DatabaseStorage can't drift
+// apart. DatabaseStorage runs when DATABASE_URL points at a test database with the schema
+// pushed (npm run db:push). Every case works on users of its own, named after this run, so
+// the database doesn't need to be empty.
+const backends: { name: string; create: () => IStorage; skip: string | false }[] = [
+  { name: "MemStorage", create: () => new MemStorage(), skip: false },
+  {
+    name: "DatabaseStorage",
+    create: () => new DatabaseStorage(),
+    skip: !process.env.DATABASE_URL && "set DATABASE_URL to a test database to run it",
+  },
+];
+
+const run = randomUUID().slice(0, 8);
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const sortedIds = (rows: { id: number }[]) => rows.map((row) => row.id).sort((a, b) => a - b);
+
+for (const backend of backends) {
+  describe(backend.name, { skip: backend.skip }, () => {
+    let storage: IStorage;
+    let userCount = 0;
+
+    const createUser = (fields: { firstName?: string; lastName?: string } = {}) => {
+      const id = `contract_${run}_${backend.name}_${++userCount}`;
+      return storage.upsertUser({ id, email: `${id}@example.com`, ...fields });
+    };
+    const createScript = (userId: string, fields: Partial<InsertScript> = {}) =>
+      storage.createScript({ userId, title: "Untitled", content: "", ...fields });
+    // A team with an owner, an editor and a presenter
+    const createTeam = async () => {
+      const [owner, editor, presenter] = [await createUser(), await createUser(), await createUser()];
+      const organization = await storage.createOrganization({ name: `Team ${run}` }, owner.id);
+      await storage.addOrganizationMember({ organizationId: organization.id, userId: editor.id, role: "editor" });
+      await storage.addOrganizationMember({ organizationId: organization.id, userId: presenter.id });
+      return { organization, owner, editor, presenter };
+    };
+
+    before(() => {
+      storage = backend.create();
+    });
+
+    after(async () => {
+      if (backend.name === "DatabaseStorage") await pool.end();
+    });
+
+    describe("users", () => {
+      it("creates users with the column defaults and updates them on upsert", async () => {
+        const user = await createUser();
+        assert.equal(user.subscriptionTier, "free");
+        assert.equal(user.subscriptionStatus, "active");
+        assert.equal(user.role, "user");
+        assert.equal(user.usageMinutes, 0);
+        assert.equal(user.billingCycleAnchor, null);
+
+        const updated = await storage.upsertUser({ id: user.id, email: user.email, firstName: "Ada" });
+        assert.equal(updated.firstName, "Ada");
+        assert.equal((await storage.getUserByEmail(user.email!))?.id, user.id);
+        assert.equal(await storage.getUser(`${user.id}_missing`), undefined);
+      });
+
+      it("finds users by Stripe customer and keeps their subscription", async () => {
+        const user = await createUser();
+        await storage.updateUserStripeInfo(user.id, `cus_${user.id}`, `sub_${user.id}`);
+        await storage.updateUserSubscription(user.id, "pro", "past_due");
+        const anchor = new Date("2024-03-18T00:00:00Z");
+        await storage.setBillingCycleAnchor(user.id, anchor);
+
+        const found = await storage.getUserByStripeCustomerId(`cus_${user.id}`);
+        assert.equal(found?.id, user.id);
+        assert.equal(found?.stripeSubscriptionId, `sub_${user.id}`);
+        assert.equal(found?.subscriptionTier, "pro");
+        assert.equal(found?.subscriptionStatus, "past_due");
+        assert.deepEqual(found?.billingCycleAnchor, anchor);
+      });
+
+      it("rejects updates to users that don't exist", async () => {
+        await assert.rejects(storage.updateUserSubscription(`contract_${run}_nobody`, "pro", "active"));
+      });
+    });
+
+    describe("Stripe events", () => {
+      it("remembers processed events, once", async () => {
+        const eventId = `evt_${run}_${backend.name}`;
+        assert.equal(await storage.hasProcessedStripeEvent(eventId), false);
+        await storage.markStripeEventProcessed(eventId, "invoice.paid");
+        await storage.markStripeEventProcessed(eventId, "invoice.paid");
+        assert.equal(await storage.hasProcessedStripeEvent(eventId), true);
+      });
+    });
+
+    describe("API tokens", () => {
+      it("finds tokens by hash and revokes them only for their owner, once", async () => {
+        const [user, other] = [await createUser(), await createUser()];
+        const token = await storage.createApiToken({
+          userId: user.id,
+          name: "CI",
+          tokenHash: `hash_${user.id}`,
+          tokenPrefix: "tp_abc",
+          scopes: ["scripts:read"],
+        });
+        assert.equal(token.lastUsedAt, null);
+        assert.equal(token.revokedAt, null);
+        assert.equal(token.expiresAt, null);
+        assert.equal((await storage.getApiTokenByHash(`hash_${user.id}`))?.id, token.id);
+
+        await storage.touchApiToken(token.id);
+        assert.ok((await storage.getApiTokenByHash(`hash_${user.id}`))?.lastUsedAt);
+
+        assert.equal(await storage.revokeApiToken(other.id, token.id), false);
+        assert.equal(await storage.revokeApiToken(user.id, token.id), true);
+        assert.equal(await storage.revokeApiToken(user.id, token.id), false);
+
+        const tokens = await storage.getApiTokens(user.id);
+        assert.deepEqual(tokens.map((entry) => entry.id), [token.id]);
+        assert.ok(tokens[0].revokedAt);
+      });
+    });
+
+    describe("organizations", () => {
+      it("makes the creator the owner and new members presenters", async () => {
+        const { organization, owner, presenter } = await createTeam();
+        assert.equal(organization.subscriptionTier, "free");
+        assert.equal(organization.seats, 1);
+        assert.equal((await storage.getOrganizationMember(organization.id, owner.id))?.role, "owner");
+        assert.equal((await storage.getOrganizationMember(organization.id, presenter.id))?.role, "presenter");
+
+        const members = await storage.getOrganizationMembers(organization.id);
+        assert.equal(members.length, 3);
+        assert.ok(members.some((member) => member.userId === owner.id && member.email === owner.email));
+
+        const memberships = await storage.getUserOrganizations(presenter.id);
+        assert.deepEqual(memberships.map(({ id, role }) => ({ id, role })), [{ id: organization.id, role: "presenter" }]);
+      });
+
+      it("refuses a second membership for the same user", async () => {
+        const { organization, presenter } = await createTeam();
+        await assert.rejects(storage.addOrganizationMember({ organizationId: organization.id, userId: presenter.id }));
+      });
+
+      it("changes roles and removes members", async () => {
+        const { organization, presenter } = await createTeam();
+        await storage.updateOrganizationMemberRole(organization.id, presenter.id, "editor");
+        assert.equal((await storage.getOrganizationMember(organization.id, presenter.id))?.role, "editor");
+
+        await storage.removeOrganizationMember(organization.id, presenter.id);
+        assert.equal(await storage.getOrganizationMember(organization.id, presenter.id), undefined);
+        assert.equal(await storage.updateOrganizationMemberRole(organization.id, presenter.id, "owner"), undefined);
+      });
+
+      it("keeps the team subscription", async () => {
+        const { organization } = await createTeam();
+        await storage.updateOrganizationSubscription(organization.id, {
+          stripeCustomerId: `cus_org_${organization.id}_${run}`,
+          stripeSubscriptionId: `sub_org_${organization.id}_${run}`,
+          subscriptionTier: "team",
+          subscriptionStatus: "active",
+          seats: 5,
+        });
+        const found = await storage.getOrganizationByStripeCustomerId(`cus_org_${organization.id}_${run}`);
+        assert.equal(found?.id, organization.id);
+        assert.equal(found?.subscriptionTier, "team");
+        assert.equal(found?.seats, 5);
+      });
+
+      it("gives members the highest of their own, complimentary and paid-up team tiers", async () => {
+        const { organization, presenter } = await createTeam();
+        await storage.updateUserSubscription(presenter.id, "pro", "active");
+        assert.equal(await storage.getEffectiveTier(presenter.id), "pro");
+
+        await storage.updateOrganizationSubscription(organization.id, { subscriptionTier: "team", subscriptionStatus: "incomplete" });
+        assert.equal(await storage.getEffectiveTier(presenter.id), "pro");
+        await storage.updateOrganizationSubscription(organization.id, { subscriptionStatus: "active" });
+        assert.equal(await storage.getEffectiveTier(presenter.id), "team");
+        await storage.updateOrganizationSubscription(organization.id, { subscriptionStatus: "trialing" });
+        assert.equal(await storage.getEffectiveTier(presenter.id), "team");
+
+        const loner = await createUser();
+        await storage.setComplimentaryTier(loner.id, "premium", new Date(Date.now() + 60_000));
+        assert.equal(await storage.getEffectiveTier(loner.id), "premium");
+        await storage.setComplimentaryTier(loner.id, "premium", new Date(Date.now() - 60_000));
+        assert.equal(await storage.getEffectiveTier(loner.id), "free");
+
+        assert.equal(await storage.getEffectiveTier(`contract_${run}_nobody`), undefined);
+      });
+    });
+
+    describe("teleprompter settings", () => {
+      it("creates settings with the column defaults and updates them", async () => {
+        const user = await createUser();
+        assert.equal(await storage.getTeleprompterSettings(user.id), undefined);
+
+        const settings = await storage.createTeleprompterSettings({ userId: user.id });
+        assert.equal(settings.fontSize, 32);
+        assert.equal(settings.scrollSpeed, 1);
+        assert.equal(settings.smoothScrolling, true);
+
+        await storage.updateTeleprompterSettings(user.id, { fontSize: 48 });
+        assert.equal((await storage.getTeleprompterSettings(user.id))?.fontSize, 48);
+      });
+    });
+
+    describe("scripts", () => {
+      it("creates scripts with the column defaults", async () => {
+        const user = await createUser();
+        const script = await createScript(user.id, { title: "Opening" });
+        assert.equal(script.organizationId, null);
+        assert.equal(script.folderId, null);
+        assert.deepEqual(script.tags, []);
+        assert.equal(script.generatedByAi, false);
+        assert.equal(script.language, null);
+      });
+
+      it("keeps personal scripts to their owner", async () => {
+        const [owner, other] = [await createUser(), await createUser()];
+        const script = await createScript(owner.id);
+
+        assert.equal((await storage.getScript(owner.id, script.id))?.id, script.id);
+        assert.equal(await storage.getScript(other.id, script.id), undefined);
+        assert.deepEqual(await storage.getScripts(other.id), []);
+        assert.equal(await storage.updateScript(other.id, script.id, { title: "Taken" }), undefined);
+        assert.equal(await storage.deleteScript(other.id, script.id), false);
+        assert.equal((await storage.getScript(owner.id, script.id))?.title, "Untitled");
+      });
+
+      it("lets every team role read team scripts but only owners and editors change them", async () => {
+        const { organization, owner, editor, presenter } = await createTeam();
+        const outsider = await createUser();
+        const personal = await createScript(presenter.id);
+        const team = await createScript(owner.id, { organizationId: organization.id });
+
+        assert.deepEqual(sortedIds(await storage.getScripts(presenter.id)), sortedIds([personal, team]));
+        assert.equal(await storage.getScript(outsider.id, team.id), undefined);
+
+        assert.equal(await storage.updateScript(presenter.id, team.id, { title: "Presenter" }), undefined);
+        assert.equal(await storage.deleteScript(presenter.id, team.id), false);
+        assert.equal((await storage.updateScript(editor.id, team.id, { title: "Editor" }))?.title, "Editor");
+        assert.equal(await storage.deleteScript(editor.id, team.id), true);
+        assert.equal(await storage.getScript(owner.id, team.id), undefined);
+      });
+
+      it("lists a script's translations oldest first", async () => {
+        const user = await createUser();
+        const original = await createScript(user.id, { language: "en" });
+        const french = await createScript(user.id, { language: "fr", translatedFromId: original.id });
+        const german = await createScript(user.id, { language: "de", translatedFromId: original.id });
+        await createScript(user.id, { language: "es" });
+
+        const translations = await storage.getScriptTranslations(user.id, original.id);
+        assert.deepEqual(translations.map((script) => script.id), [french.id, german.id]);
+        assert.deepEqual(await storage.getScriptTranslations((await createUser()).id, original.id), []);
+      });
+
+      it("deletes a script's history and conversations with it", async () => {
+        const user = await createUser();
+        const script = await createScript(user.id);
+        await storage.createScriptRevision({ scriptId: script.id, authorId: user.id, title: script.title, content: "" });
+        await storage.createScriptChatMessage({ scriptId: script.id, userId: user.id, role: "user", content: "Shorter" });
+
+        assert.equal(await storage.deleteScript(user.id, script.id), true);
+        assert.deepEqual(await storage.getScriptRevisions(script.id), []);
+        assert.deepEqual(await storage.getScriptChatMessages(script.id, user.id), []);
+      });
+    });
+
+    describe("script search", () => {
+      const search = (userId: string, query: Record<string, unknown>) =>
+        storage.searchScripts(userId, scriptSearchSchema.parse(query));
+
+      it("matches every search word in the title or content", async () => {
+        const user = await createUser();
+        const both = await createScript(user.id, { title: "Harbour", content: "The lighthouse keeper" });
+        await createScript(user.id, { title: "Harbour", content: "Fishing boats" });
+
+        const { scripts, total } = await search(user.id, { q: "harbour lighthouse" });
+        assert.equal(total, 1);
+        assert.deepEqual(scripts.map((script) => script.id), [both.id]);
+        assert.equal((await search((await createUser()).id, { q: "harbour" })).total, 0);
+      });
+
+      it("filters by folder, tag and script type", async () => {
+        const user = await createUser();
+        const folder = await storage.createScriptFolder({ userId: user.id, name: "Filed" });
+        const filed = await createScript(user.id, { folderId: folder.id, tags: ["launch"], scriptType: "news" });
+        const unfiled = await createScript(user.id, { tags: ["launch"], scriptType: "keynote" });
+
+        assert.deepEqual((await search(user.id, { folderId: folder.id })).scripts.map((s) => s.id), [filed.id]);
+        assert.deepEqual((await search(user.id, { folderId: "none" })).scripts.map((s) => s.id), [unfiled.id]);
+        assert.equal((await search(user.id, { tag: "launch" })).total, 2);
+        assert.deepEqual((await search(user.id, { scriptType: "keynote" })).scripts.map((s) => s.id), [unfiled.id]);
+      });
+
+      it("sorts by title and pages the results", async () => {
+        const user = await createUser();
+        for (const title of ["Charlie", "alpha", "Bravo"]) {
+          await createScript(user.id, { title });
+        }
+
+        const first = await search(user.id, { sort: "title", pageSize: 2 });
+        assert.equal(first.total, 3);
+        assert.deepEqual(first.scripts.map((script) => script.title), ["alpha", "Bravo"]);
+        const second = await search(user.id, { sort: "title", pageSize: 2, page: 2 });
+        assert.deepEqual(second.scripts.map((script) => script.title), ["Charlie"]);
+      });
+
+      it("counts script types and tags, most used first", async () => {
+        const user = await createUser();
+        await createScript(user.id, { scriptType: "news", tags: ["daily", "local"] });
+        await createScript(user.id, { scriptType: "news", tags: ["daily"] });
+        await createScript(user.id, { scriptType: "wedding" });
+
+        const facets = await storage.getScriptFacets(user.id);
+        assert.deepEqual(facets.scriptTypes, [{ value: "news", count: 2 }, { value: "wedding", count: 1 }]);
+        assert.deepEqual(facets.tags, [{ value: "daily", count: 2 }, { value: "local", count: 1 }]);
+      });
+    });
+
+    describe("script folders", () => {
+      it("lists folders by name and unfiles their scripts when deleted", async () => {
+        const user = await createUser();
+        const zeta = await storage.createScriptFolder({ userId: user.id, name: "Zeta" });
+        const alpha = await storage.createScriptFolder({ userId: user.id, name: "Alpha" });
+        const script = await createScript(user.id, { folderId: zeta.id });
+
+        assert.deepEqual((await storage.getScriptFolders(user.id)).map((folder) => folder.id), [alpha.id, zeta.id]);
+        assert.equal((await storage.updateScriptFolder(user.id, zeta.id, "Omega"))?.name, "Omega");
+
+        assert.equal(await storage.deleteScriptFolder(user.id, zeta.id), true);
+        assert.equal(await storage.getScriptFolder(user.id, zeta.id), undefined);
+        assert.equal((await storage.getScript(user.id, script.id))?.folderId, null);
+      });
+
+      it("lets presenters see team folders but not change them", async () => {
+        const { organization, owner, presenter } = await createTeam();
+        const folder = await storage.createScriptFolder({ userId: owner.id, organizationId: organization.id, name: "Shared" });
+
+        assert.equal((await storage.getScriptFolder(presenter.id, folder.id))?.id, folder.id);
+        assert.equal(await storage.updateScriptFolder(presenter.id, folder.id, "Mine"), undefined);
+        assert.equal(await storage.deleteScriptFolder(presenter.id, folder.id), false);
+        assert.equal(await storage.getScriptFolder((await createUser()).id, folder.id), undefined);
+      });
+    });
+
+    describe("script templates", () => {
+      it("lists templates by name, with team templates read-only for presenters", async () => {
+        const { organization, owner, presenter } = await createTeam();
+        const team = await storage.createScriptTemplate({
+          userId: owner.id,
+          organizationId: organization.id,
+          name: "Product launch",
+          prompt: "Launch {{topic}}",
+        });
+        const personal = await storage.createScriptTemplate({ userId: presenter.id, name: "Eulogy", prompt: "Remember {{topic}}" });
+        assert.equal(personal.defaultTone, null);
+
+        assert.deepEqual((await storage.getScriptTemplates(presenter.id)).map((template) => template.id), [personal.id, team.id]);
+        assert.equal(await storage.updateScriptTemplate(presenter.id, team.id, { name: "Mine" }), undefined);
+        assert.equal(await storage.deleteScriptTemplate(presenter.id, team.id), false);
+        assert.equal((await storage.updateScriptTemplate(owner.id, team.id, { defaultTone: "formal" }))?.defaultTone, "formal");
+        assert.equal(await storage.getScriptTemplate(owner.id, personal.id), undefined);
+
+        assert.equal(await storage.deleteScriptTemplate(presenter.id, personal.id), true);
+        assert.equal(await storage.getScriptTemplate(presenter.id, personal.id), undefined);
+      });
+    });
+
+    describe("script revisions", () => {
+      it("keeps revisions per script", async () => {
+        const user = await createUser();
+        const [script, other] = [await createScript(user.id), await createScript(user.id)];
+        const first = await storage.createScriptRevision({ scriptId: script.id, authorId: user.id, title: "One", content: "1" });
+        const second = await storage.createScriptRevision({ scriptId: script.id, authorId: user.id, title: "Two", content: "2", source: "ai" });
+        assert.equal(first.source, "manual");
+
+        assert.deepEqual(sortedIds(await storage.getScriptRevisions(script.id)), sortedIds([first, second]));
+        assert.equal((await storage.getScriptRevision(script.id, second.id))?.source, "ai");
+        assert.equal(await storage.getScriptRevision(other.id, second.id), undefined);
+      });
+    });
+
+    describe("script conversations", () => {
+      it("keeps one conversation per script and user, oldest first", async () => {
+        const { organization, owner, editor } = await createTeam();
+        const script = await createScript(owner.id, { organizationId: organization.id });
+        const question = await storage.createScriptChatMessage({ scriptId: script.id, userId: owner.id, role: "user", content: "Shorter" });
+        const answer = await storage.createScriptChatMessage({
+          scriptId: script.id,
+          userId: owner.id,
+          role: "assistant",
+          content: "Here you go",
+          proposedContent: "Short",
+          proposalStatus: "pending",
+        });
+        const elsewhere = await storage.createScriptChatMessage({ scriptId: script.id, userId: editor.id, role: "user", content: "Longer" });
+        assert.equal(question.proposedContent, null);
+        assert.equal(question.revisionId, null);
+
+        assert.deepEqual((await storage.getScriptChatMessages(script.id, owner.id)).map((m) => m.id), [question.id, answer.id]);
+        assert.equal(await storage.getScriptChatMessage(script.id, owner.id, elsewhere.id), undefined);
+
+        const revision = await storage.createScriptRevision({ scriptId: script.id, authorId: owner.id, title: "", content: "Short" });
+        const accepted = await storage.updateScriptChatProposal(answer.id, "accepted", revision.id);
+        assert.equal(accepted?.proposalStatus, "accepted");
+        assert.equal(accepted?.revisionId, revision.id);
+
+        await storage.clearScriptChat(script.id, owner.id);
+        assert.deepEqual(await storage.getScriptChatMessages(script.id, owner.id), []);
+        assert.equal((await storage.getScriptChatMessages(script.id, editor.id)).length, 1);
+      });
+    });
+
+    describe("usage", () => {
+      it("totals whole minutes per feature since the last trial reset", async () => {
+        const user = await createUser();
+        await storage.logUsage({ userId: user.id, feature: "teleprompter", duration: 150 });
+        await storage.logUsage({ userId: user.id, feature: "voice_input", duration: 60 });
+        await storage.logUsage({ userId: user.id, feature: "voice_input" });
+
+        assert.equal(await storage.getUserUsage(user.id), 3);
+        assert.equal(await storage.getUserUsage(user.id, "teleprompter"), 2);
+        assert.equal((await storage.getUsageLogs(user.id, 2)).length, 2);
+
+        await sleep(5);
+        await storage.resetTrialUsage(user.id);
+        assert.equal(await storage.getUserUsage(user.id), 0);
+      });
+
+      it("groups usage by UTC day and feature", async () => {
+        const user = await createUser();
+        await storage.logUsage({ userId: user.id, feature: "teleprompter", duration: 30 });
+        await storage.logUsage({ userId: user.id, feature: "teleprompter", duration: 45 });
+        await storage.logUsage({ userId: user.id, feature: "voice_input" });
+
+        const now = new Date();
+        const rows = await storage.getDailyUsage(user.id, new Date(now.getTime() - 60_000), new Date(now.getTime() + 60_000));
+        const today = now.toISOString().slice(0, 10);
+        assert.deepEqual(
+          rows.sort((a, b) => a.feature.localeCompare(b.feature)),
+          [
+            { day: today, feature: "teleprompter", seconds: 75, events: 2 },
+            { day: today, feature: "voice_input", seconds: 0, events: 1 },
+          ],
+        );
+        assert.deepEqual(await storage.getDailyUsage(user.id, new Date(now.getTime() + 60_000), new Date(now.getTime() + 120_000)), []);
+      });
+
+      it("allows trial features until the free allowance is used up", async () => {
+        const [free, pro] = [await createUser(), await createUser()];
+        await storage.updateUserSubscription(pro.id, "pro", "active");
+        assert.equal(await storage.canUseFeature(free.id, "teleprompter"), true);
+
+        await storage.logUsage({ userId: free.id, feature: "teleprompter", duration: 60 * 60 });
+        await storage.logUsage({ userId: pro.id, feature: "teleprompter", duration: 60 * 60 });
+        assert.equal(await storage.canUseFeature(free.id, "teleprompter"), false);
+        assert.equal(await storage.canUseFeature(pro.id, "teleprompter"), true);
+        assert.equal(await storage.canUseFeature(`contract_${run}_nobody`, "teleprompter"), false);
+      });
+    });
+
+    describe("AI usage", () => {
+      const window = () => [new Date(Date.now() - 60_000), new Date(Date.now() + 60_000)] as const;
+      const log = (userId: string, model: string, promptTokens: number, costMicros: number) =>
+        storage.logAIUsage({
+          userId,
+          operation: "generate_script",
+          provider: "openai",
+          model,
+          promptTokens,
+          completionTokens: 10,
+          costMicros,
+        });
+
+      it("totals a user's calls, with a single empty row when there are none", async () => {
+        const user = await createUser();
+        const [from, to] = window();
+        assert.deepEqual(await storage.getAIUsageTotals(from, to, { userId: user.id }), [
+          { key: null, calls: 0, promptTokens: 0, completionTokens: 0, costMicros: 0 },
+        ]);
+
+        const entry = await log(user.id, "gpt-4o", 100, 500);
+        assert.equal(entry.estimatedTokens, false);
+        await log(user.id, "gpt-4o-mini", 50, 20);
+        assert.deepEqual(await storage.getAIUsageTotals(from, to, { userId: user.id }), [
+          { key: null, calls: 2, promptTokens: 150, completionTokens: 20, costMicros: 520 },
+        ]);
+        assert.equal((await storage.getAIUsageTotals(to, new Date(to.getTime() + 60_000), { userId: user.id }))[0].calls, 0);
+      });
+
+      it("groups by model, most expensive first, up to the limit", async () => {
+        const user = await createUser();
+        await log(user.id, "gpt-4o-mini", 50, 20);
+        await log(user.id, "gpt-4o", 100, 500);
+        await log(user.id, "gpt-4o", 100, 500);
+        const [from, to] = window();
+
+        const groups = await storage.getAIUsageTotals(from, to, { userId: user.id, groupBy: "model" });
+        assert.deepEqual(groups.map(({ key, calls, costMicros }) => ({ key, calls, costMicros })), [
+          { key: "gpt-4o", calls: 2, costMicros: 1000 },
+          { key: "gpt-4o-mini", calls: 1, costMicros: 20 },
+        ]);
+        assert.equal((await storage.getAIUsageTotals(from, to, { userId: user.id, groupBy: "model", limit: 1 })).length, 1);
+        assert.deepEqual(
+          (await storage.getAIUsageTotals(from, to, { userId: user.id, groupBy: "user" })).map((group) => group.key),
+          [user.id],
+        );
+      });
+    });
+
+    describe("teleprompter sessions", () => {
+      it("credits heartbeats up to the allowed gap and logs the time when closed", async () => {
+        const user = await createUser();
+        const session = await storage.createTeleprompterSession(user.id);
+        assert.equal(session.activeSeconds, 0);
+        assert.equal(await storage.getTeleprompterSession((await createUser()).id, session.id), undefined);
+
+        await sleep(1100);
+        assert.equal((await storage.recordTeleprompterHeartbeat(user.id, session.id, 0))?.activeSeconds, 0);
+        await sleep(1100);
+        const beat = await storage.recordTeleprompterHeartbeat(user.id, session.id, 60);
+        assert.ok(beat && beat.activeSeconds >= 1);
+
+        const stale = await storage.getStaleTeleprompterSessions(new Date(Date.now() + 1000));
+        assert.ok(stale.some((entry) => entry.id === session.id));
+
+        const closed = await storage.closeTeleprompterSession(session.id, "stopped");
+        assert.equal(closed?.endReason, "stopped");
+        assert.equal(await storage.closeTeleprompterSession(session.id, "stopped"), undefined);
+        assert.equal(await storage.recordTeleprompterHeartbeat(user.id, session.id, 60), undefined);
+        assert.ok(!(await storage.getStaleTeleprompterSessions(new Date(Date.now() + 1000))).some((entry) => entry.id === session.id));
+
+        const [usage] = await storage.getUsageLogs(user.id, 1);
+        assert.equal(usage.feature, "teleprompter");
+        assert.equal(usage.duration, beat!.activeSeconds);
+      });
+
+      it("logs nothing for a session that never ran", async () => {
+        const user = await createUser();
+        const session = await storage.createTeleprompterSession(user.id);
+        await storage.closeTeleprompterSession(session.id, "stopped");
+        assert.deepEqual(await storage.getUsageLogs(user.id, 10), []);
+      });
+    });
+
+    describe("account data", () => {
+      it("exports the user's data without token hashes", async () => {
+        const user = await createUser();
+        const script = await createScript(user.id);
+        await storage.createApiToken({ userId: user.id, name: "CLI", tokenHash: `hash_${user.id}`, tokenPrefix: "tp_x", scopes: ["settings"] });
+
+        const exported = await storage.getUserDataExport(user.id);
+        assert.equal(exported?.user.id, user.id);
+        assert.equal(exported?.settings, null);
+        assert.deepEqual(exported?.scripts.map((entry) => entry.id), [script.id]);
+        assert.equal(exported?.apiTokens.length, 1);
+        assert.ok(!("tokenHash" in exported!.apiTokens[0]));
+        assert.equal(await storage.getUserDataExport(`contract_${run}_nobody`), undefined);
+      });
+
+      it("erases the user, their sole-member teams, and leaves shared team scripts", async () => {
+        const { organization, owner, editor } = await createTeam();
+        const solo = await storage.createOrganization({ name: "Solo" }, owner.id);
+        const personal = await createScript(owner.id);
+        const shared = await createScript(owner.id, { organizationId: organization.id });
+        const alone = await createScript(owner.id, { organizationId: solo.id });
+        await storage.logUsage({ userId: owner.id, feature: "teleprompter", duration: 60 });
+
+        await storage.deleteUserData(owner.id);
+        assert.equal(await storage.getUser(owner.id), undefined);
+        assert.equal(await storage.getOrganization(solo.id), undefined);
+        assert.equal((await storage.getOrganization(organization.id))?.id, organization.id);
+        assert.equal(await storage.getOrganizationMember(organization.id, owner.id), undefined);
+        assert.equal(await storage.getScript(owner.id, personal.id), undefined);
+        assert.equal((await storage.getScript(editor.id, shared.id))?.id, shared.id);
+        assert.equal(await storage.getScript(editor.id, alone.id), undefined);
+        assert.deepEqual(await storage.getUsageLogs(owner.id, 10), []);
+      });
+    });
+
+    describe("admin console", () => {
+      it("finds users by email or name", async () => {
+        const user = await createUser({ firstName: `Grace${run}`, lastName: "Hopper" });
+        await createUser();
+
+        const byName = await storage.searchUsers(adminUserSearchSchema.parse({ q: `grace${run}` }));
+        assert.deepEqual(byName.users.map((entry) => entry.id), [user.id]);
+        assert.equal(byName.total, 1);
+        const byEmail = await storage.searchUsers(adminUserSearchSchema.parse({ q: user.email!.toUpperCase() }));
+        assert.deepEqual(byEmail.users.map((entry) => entry.id), [user.id]);
+      });
+
+      it("changes roles and keeps an audit trail per user", async () => {
+        const [admin, user] = [await createUser(), await createUser()];
+        assert.equal((await storage.setUserRole(user.id, "admin")).role, "admin");
+
+        const entry = await storage.createAdminAuditLog({ adminId: admin.id, action: "set_role", targetUserId: user.id, details: { role: "admin" } });
+        await storage.createAdminAuditLog({ adminId: admin.id, action: "reset_trial", targetUserId: admin.id });
+        const trail = await storage.getAdminAuditLogs(user.id, 10);
+        assert.deepEqual(trail.map((log) => log.id), [entry.id]);
+        assert.deepEqual(trail[0].details, { role: "admin" });
+      });
+    });
+  });
+}
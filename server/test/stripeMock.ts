@@ -0,0 +1,67 @@
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+
+export interface StripeMockRequest {
+  method: string;
+  path: string;
+  params: URLSearchParams; // query string for GET, form-encoded body otherwise
+}
+
+type StripeMockHandler = (request: StripeMockRequest) => unknown;
+
+export interface StripeMock {
+  url: string;
+  requests: StripeMockRequest[];
+  // Answers "METHOD /v1/path" with the handler's result as JSON
+  on(route: string, handler: StripeMockHandler): void;
+  close(): Promise<void>;
+}
+
+// A local stand-in for the Stripe API that the server's client reaches through STRIPE_API_URL.
+// Unhandled requests get Stripe's resource_missing error.
+export async function startStripeMock(): Promise<StripeMock> {
+  const handlers = new Map<string, StripeMockHandler>();
+  const requests: StripeMockRequest[] = [];
+
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const request: StripeMockRequest = {
+        method: req.method ?? "GET",
+        path: url.pathname,
+        params: req.method === "GET" ? url.searchParams : new URLSearchParams(body),
+      };
+      requests.push(request);
+
+      const handler = handlers.get(`${request.method} ${request.path}`);
+      res.setHeader("Content-Type", "application/json");
+      if (!handler) {
+        res.statusCode = 404;
+        res.end(JSON.stringify({
+          error: { type: "invalid_request_error", code: "resource_missing", message: `No such route: ${request.path}` },
+        }));
+        return;
+      }
+      res.end(JSON.stringify(handler(request)));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    on: (route, handler) => {
+      handlers.set(route, handler);
+    },
+    close: () => new Promise((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
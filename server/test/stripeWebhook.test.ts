@@ -0,0 +1,127 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import Stripe from "stripe";
+import { storage } from "../storage";
+import { startTestServer, type TestServer } from "./helpers";
+
+// Recorded Stripe events (API version 2023-10-16) for one customer's subscription
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/stripe/${name}.json`, import.meta.url), "utf8");
+}
+
+const customerId = "cus_PqT6vJ2mXcWd1L";
+const subscriptionId = "sub_1OxR4kLk2fNqzY8aQm0b7cHd";
+
+describe("POST /api/stripe/webhook", () => {
+  let server: TestServer;
+  let userCount = 0;
+  let userId: string;
+
+  const deliver = (payload: string, secret = process.env.STRIPE_WEBHOOK_SECRET!) =>
+    fetch(`${server.baseUrl}/api/stripe/webhook`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Stripe-Signature": Stripe.webhooks.generateTestHeaderString({ payload, secret }),
+      },
+      body: payload,
+    });
+
+  // Each test replays the fixtures with its own event ids, as a separate delivery would
+  const replay = (name: string) => {
+    const event = JSON.parse(fixture(name));
+    event.id = `${event.id}_${userCount}`;
+    return deliver(JSON.stringify(event));
+  };
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  // The customer moves to a fresh user for every test, since a customer id belongs to one user
+  beforeEach(async () => {
+    if (userId) await storage.updateUserStripeInfo(userId, `cus_retired_${userCount}`, `sub_retired_${userCount}`);
+    userCount++;
+    const user = await storage.upsertUser({ id: `stripe_user_${userCount}`, email: `stripe${userCount}@example.com` });
+    userId = user.id;
+    await storage.updateUserStripeInfo(userId, customerId, subscriptionId);
+  });
+
+  it("rejects events without a valid signature", async () => {
+    const payload = fixture("customer.subscription.created");
+    assert.equal((await deliver(payload, "whsec_someone_else")).status, 400);
+
+    const unsigned = await fetch(`${server.baseUrl}/api/stripe/webhook`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: payload,
+    });
+    assert.equal(unsigned.status, 400);
+
+    const user = await storage.getUser(userId);
+    assert.equal(user?.subscriptionTier, "free");
+  });
+
+  it("sets the tier from a new subscription and follows plan changes", async () => {
+    assert.equal((await replay("customer.subscription.created")).status, 200);
+    let user = await storage.getUser(userId);
+    assert.equal(user?.subscriptionTier, "pro");
+    assert.equal(user?.subscriptionStatus, "active");
+    assert.deepEqual(user?.billingCycleAnchor, new Date(1710720000 * 1000));
+
+    await replay("customer.subscription.updated");
+    user = await storage.getUser(userId);
+    assert.equal(user?.subscriptionTier, "premium");
+  });
+
+  it("marks the subscription past due when a payment fails and active once it is paid", async () => {
+    await replay("customer.subscription.created");
+
+    await replay("invoice.payment_failed");
+    let user = await storage.getUser(userId);
+    assert.equal(user?.subscriptionStatus, "past_due");
+    assert.equal(user?.subscriptionTier, "pro");
+
+    await replay("invoice.paid");
+    user = await storage.getUser(userId);
+    assert.equal(user?.subscriptionStatus, "active");
+  });
+
+  it("ignores invoices for a subscription the user no longer has", async () => {
+    await replay("customer.subscription.created");
+    await storage.updateUserStripeInfo(userId, customerId, "sub_replacement");
+
+    await replay("invoice.payment_failed");
+    const user = await storage.getUser(userId);
+    assert.equal(user?.subscriptionStatus, "active");
+  });
+
+  it("downgrades to free when the subscription is deleted", async () => {
+    await replay("customer.subscription.created");
+    await replay("customer.subscription.deleted");
+
+    const user = await storage.getUser(userId);
+    assert.equal(user?.subscriptionTier, "free");
+    assert.equal(user?.subscriptionStatus, "cancelled");
+    assert.equal(user?.billingCycleAnchor, null);
+  });
+
+  it("applies a redelivered event only once", async () => {
+    await replay("customer.subscription.created");
+    const failed = JSON.parse(fixture("invoice.payment_failed"));
+    failed.id = `evt_redelivered_${userCount}`;
+
+    await deliver(JSON.stringify(failed));
+    await replay("invoice.paid");
+    const response = await deliver(JSON.stringify(failed));
+    assert.equal(response.status, 200);
+
+    const user = await storage.getUser(userId);
+    assert.equal(user?.subscriptionStatus, "active");
+  });
+});
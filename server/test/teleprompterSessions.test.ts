@@ -0,0 +1,81 @@
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { closeStaleTeleprompterSessions } from "../teleprompterSessions";
+import { signIn, startTestServer, type TestClient, type TestServer } from "./helpers";
+
+// Only Date is mocked, so time can jump ahead between heartbeats while the server still runs
+describe("teleprompter session routes", () => {
+  let server: TestServer;
+  let presenter: TestClient;
+
+  const start = async (client: TestClient): Promise<number> =>
+    (await (await client.request("POST", "/api/teleprompter/start")).json()).sessionId;
+  const heartbeat = (client: TestClient, sessionId: number) =>
+    client.request("POST", `/api/teleprompter/sessions/${sessionId}/heartbeat`);
+  const seconds = (count: number) => mock.timers.tick(count * 1000);
+
+  before(async () => {
+    mock.timers.enable({ apis: ["Date"], now: Date.now() });
+    server = await startTestServer();
+    presenter = await signIn(server, "presenter@example.com");
+    await storage.updateUserSubscription(presenter.userId, "pro", "active");
+  });
+
+  after(async () => {
+    await server.close();
+    mock.timers.reset();
+  });
+
+  describe("heartbeats", () => {
+    it("credits the time since the previous heartbeat, up to two intervals", async () => {
+      const sessionId = await start(presenter);
+
+      seconds(20);
+      assert.equal((await (await heartbeat(presenter, sessionId)).json()).activeSeconds, 20);
+
+      // A laptop waking from sleep only gets the capped gap
+      seconds(10 * 60);
+      assert.equal((await (await heartbeat(presenter, sessionId)).json()).activeSeconds, 80);
+
+      const ended = await presenter.request("POST", `/api/teleprompter/sessions/${sessionId}/end`);
+      assert.equal((await ended.json()).activeSeconds, 80);
+      const [usage] = await storage.getUsageLogs(presenter.userId, 1);
+      assert.equal(usage.duration, 80);
+      assert.equal((await heartbeat(presenter, sessionId)).status, 404);
+    });
+
+    it("stops a free user's session once the trial runs out", async () => {
+      const trialist = await signIn(server, "trialist@example.com");
+      await storage.logUsage({ userId: trialist.userId, feature: "teleprompter", duration: 59 * 60 });
+      const sessionId = await start(trialist);
+
+      seconds(30);
+      assert.equal((await heartbeat(trialist, sessionId)).status, 200);
+      seconds(30);
+      const response = await heartbeat(trialist, sessionId);
+      assert.equal(response.status, 403);
+      assert.equal((await response.json()).trialExpired, true);
+      assert.equal((await storage.getTeleprompterSession(trialist.userId, sessionId))?.endReason, "limit");
+    });
+  });
+
+  describe("sweeper", () => {
+    it("closes sessions without a heartbeat for three minutes, crediting nothing after the last one", async () => {
+      const sessionId = await start(presenter);
+      seconds(30);
+      await heartbeat(presenter, sessionId);
+
+      seconds(2 * 60);
+      await closeStaleTeleprompterSessions();
+      assert.equal((await storage.getTeleprompterSession(presenter.userId, sessionId))?.endedAt, null);
+
+      seconds(2 * 60);
+      await closeStaleTeleprompterSessions();
+      const session = await storage.getTeleprompterSession(presenter.userId, sessionId);
+      assert.equal(session?.endReason, "timeout");
+      assert.equal(session?.activeSeconds, 30);
+      assert.equal((await heartbeat(presenter, sessionId)).status, 404);
+    });
+  });
+});
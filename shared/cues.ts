@@ -0,0 +1,89 @@
+// Delivery cues are written inline in a script as bracketed tags. They are directions for the
+// presenter, not words to say: the teleprompter shows them as styled annotations, and they are
+// left out when the script's spoken length is measured.
+//
+//   [PAUSE]                     a beat of silence
+//   [SLOW]                      slow down from here
+//   [LOOK UP]                   look up at the audience or camera
+//   [EMPHASIS]words[/EMPHASIS]  stress the enclosed words
+
+export type DeliveryCue = "pause" | "slow" | "look_up";
+
+export const deliveryCueLabels: Record<DeliveryCue, string> = {
+  pause: "Pause",
+  slow: "Slow",
+  look_up: "Look up",
+};
+
+export type CueSegment =
+  | { type: "text"; text: string; offset: number; emphasis: boolean } // offset into the source text
+  | { type: "cue"; cue: DeliveryCue; offset: number };
+
+const cuePattern = /\[(\/?)\s*(PAUSE|SLOW|LOOK\s+UP|EMPHASIS)\s*\]/gi;
+
+const pointCues: Record<string, DeliveryCue> = {
+  PAUSE: "pause",
+  SLOW: "slow",
+  "LOOK UP": "look_up",
+};
+
+// Splits text into runs of spoken text and cues. Tags are matched case-insensitively; an
+// unclosed [EMPHASIS] lasts to the end of the text, and stray closing tags are dropped.
+export function parseCues(text: string): CueSegment[] {
+  const segments: CueSegment[] = [];
+  let emphasis = false;
+  let last = 0;
+  const pushText = (end: number) => {
+    if (end > last) segments.push({ type: "text", text: text.slice(last, end), offset: last, emphasis });
+  };
+
+  for (const match of Array.from(text.matchAll(cuePattern))) {
+    const [tag, closing, rawName] = match;
+    const name = rawName.toUpperCase().replace(/\s+/g, " ");
+    pushText(match.index!);
+    last = match.index! + tag.length;
+
+    if (name === "EMPHASIS") {
+      emphasis = !closing;
+    } else if (!closing) {
+      segments.push({ type: "cue", cue: pointCues[name], offset: match.index! });
+    }
+  }
+  pushText(text.length);
+  return segments;
+}
+
+// Splits parsed segments wherever their text contains the separator, such as a line break,
+// so that emphasis spanning it carries on into the next part. Offsets still point into the
+// source text.
+export function splitSegments(segments: CueSegment[], separator: string): CueSegment[][] {
+  const parts: CueSegment[][] = [[]];
+  for (const segment of segments) {
+    if (segment.type === "cue") {
+      parts[parts.length - 1].push(segment);
+      continue;
+    }
+    let offset = segment.offset;
+    segment.text.split(separator).forEach((text, index) => {
+      if (index > 0) {
+        parts.push([]);
+        offset += separator.length;
+      }
+      if (text) parts[parts.length - 1].push({ ...segment, text, offset });
+      offset += text.length;
+    });
+  }
+  return parts;
+}
+
+// The words that are actually spoken
+export function stripCues(text: string): string {
+  return text.replace(cuePattern, "");
+}
+
+// Tells the model the cue syntax; used in the script writing prompts
+export const cueInstructions =
+  "Mark delivery only with these cues, written exactly like this and never described in prose: " +
+  "[PAUSE] for a beat of silence, [SLOW] where the presenter should slow down, [LOOK UP] where they " +
+  "should look up at the audience, and [EMPHASIS]words[/EMPHASIS] around words to stress. " +
+  "Use them sparingly and do not add any other stage directions, brackets or headings.";
@@ -0,0 +1,92 @@
+// Diffs used for script revision history (by line) and AI edit suggestions (by sentence)
+
+export interface DiffPart {
+  type: "equal" | "insert" | "delete";
+  lines: string[]; // the compared items: lines for diffLines, sentences and whitespace for diffSentences
+}
+
+function push(parts: DiffPart[], type: DiffPart["type"], line: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.lines.push(line);
+  } else {
+    parts.push({ type, lines: [line] });
+  }
+}
+
+// Longest-common-subsequence diff of two sequences.
+// Scripts are at most a few thousand lines, so the O(n*m) table is fine.
+function diffSequences(a: string[], b: string[]): DiffPart[] {
+  // Strip the common prefix and suffix so the table only covers the changed middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[start + i] === b[start + j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  for (let k = 0; k < start; k++) push(parts, "equal", a[k]);
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      push(parts, "equal", a[start + i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      push(parts, "delete", a[start + i]);
+      i++;
+    } else {
+      push(parts, "insert", b[start + j]);
+      j++;
+    }
+  }
+  while (i < n) push(parts, "delete", a[start + i++]);
+  while (j < m) push(parts, "insert", b[start + j++]);
+
+  for (let k = endA; k < a.length; k++) push(parts, "equal", a[k]);
+  return parts;
+}
+
+export function diffLines(before: string, after: string): DiffPart[] {
+  return diffSequences(before.split("\n"), after.split("\n"));
+}
+
+// Splits text into sentences and the whitespace between them; joining the pieces gives the text back
+export function splitSentences(text: string): string[] {
+  const pieces: string[] = [];
+  let sentence = "";
+  for (const piece of text.split(/(\s+)/)) {
+    if (!piece) continue;
+    const isBreak = /^\s+$/.test(piece) && (!sentence || piece.includes("\n") || /[.!?]["'”’)\]]*$/.test(sentence));
+    if (isBreak) {
+      if (sentence) pieces.push(sentence);
+      pieces.push(piece);
+      sentence = "";
+    } else {
+      sentence += piece;
+    }
+  }
+  if (sentence) pieces.push(sentence);
+  return pieces;
+}
+
+export function diffSentences(before: string, after: string): DiffPart[] {
+  return diffSequences(splitSentences(before), splitSentences(after));
+}
@@ -0,0 +1,95 @@
+import type { SubscriptionTier } from "./plans";
+
+// Single source of truth for feature gating. The server (storage.canUseFeature and
+// route guards) and the client (useSubscription) both evaluate these rules, so the
+// UI and API cannot disagree about what a tier allows.
+
+export type Feature = "teleprompter" | "voice_input" | "ai_assistant" | "video_recording";
+
+export interface FeatureEntitlement {
+  label: string;
+  tiers: SubscriptionTier[]; // tiers with unlimited access
+  trial: boolean; // free users may try it until the trial allowance is used up
+}
+
+export const FREE_TRIAL_MINUTES = 60;
+
+export const entitlements: Record<Feature, FeatureEntitlement> = {
+  teleprompter: {
+    label: "Teleprompter",
+    tiers: ["pro", "premium", "team"],
+    trial: true,
+  },
+  voice_input: {
+    label: "Voice Input",
+    tiers: ["pro", "premium", "team"],
+    trial: true,
+  },
+  ai_assistant: {
+    label: "AI Script Assistant",
+    tiers: ["premium", "team"],
+    trial: true,
+  },
+  video_recording: {
+    label: "Video Recording",
+    tiers: ["premium", "team"],
+    trial: true,
+  },
+};
+
+const tierOrder: SubscriptionTier[] = ["free", "pro", "premium", "team"];
+
+export interface EntitlementSubject {
+  tier: string;
+  usageMinutes: number; // total trial usage so far
+}
+
+export function isFeature(feature: string): feature is Feature {
+  return Object.hasOwn(entitlements, feature);
+}
+
+export function usageLimitForTier(tier: string): number | null {
+  return tier === "free" ? FREE_TRIAL_MINUTES : null;
+}
+
+export function isTrialExpired(subject: EntitlementSubject): boolean {
+  const limit = usageLimitForTier(subject.tier);
+  return limit !== null && subject.usageMinutes >= limit;
+}
+
+export function tierIncludesFeature(tier: string, feature: Feature): boolean {
+  return (entitlements[feature].tiers as string[]).includes(tier);
+}
+
+export function canUseFeature(subject: EntitlementSubject, feature: string): boolean {
+  if (!isFeature(feature)) return false;
+  if (tierIncludesFeature(subject.tier, feature)) return true;
+
+  // Free users get to try trial features during their first 60 minutes
+  return subject.tier === "free" && entitlements[feature].trial && !isTrialExpired(subject);
+}
+
+export function requiredTierFor(feature: Feature): SubscriptionTier {
+  return tierOrder.find((tier) => tierIncludesFeature(tier, feature)) ?? "premium";
+}
+
+// Members of an organization on a team plan get the team tier on top of their own
+export function highestTier(tiers: string[]): string {
+  return tiers.reduce((best, tier) =>
+    tierOrder.indexOf(tier as SubscriptionTier) > tierOrder.indexOf(best as SubscriptionTier) ? tier : best,
+    "free",
+  );
+}
+
+export function featuresForTier(tier: string): Feature[] {
+  return (Object.keys(entitlements) as Feature[]).filter((feature) => tierIncludesFeature(tier, feature));
+}
+
+// Explains why access was denied, in the form the API returns with a 403
+export function upgradeMessage(subject: EntitlementSubject, feature: Feature): string {
+  if (isTrialExpired(subject)) {
+    return `You've reached the ${FREE_TRIAL_MINUTES}-minute trial limit. Upgrade to Pro for unlimited usage or Premium for AI script assistance and voice input features.`;
+  }
+  const tier = requiredTierFor(feature);
+  return `${entitlements[feature].label} requires ${tier.charAt(0).toUpperCase() + tier.slice(1)} subscription`;
+}
@@ -0,0 +1,24 @@
+// Languages scripts can be marked as and translated into (see translateScript in server/scriptWriter.ts)
+export const scriptLanguages = ["en", "fr", "de", "es", "it", "pt", "nl", "pl", "sv", "da", "ja", "zh", "ko"] as const;
+
+export type ScriptLanguage = (typeof scriptLanguages)[number];
+
+export const languageNames: Record<ScriptLanguage, string> = {
+  en: "English",
+  fr: "French",
+  de: "German",
+  es: "Spanish",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+  pl: "Polish",
+  sv: "Swedish",
+  da: "Danish",
+  ja: "Japanese",
+  zh: "Chinese",
+  ko: "Korean",
+};
+
+export function languageName(code: string | null): string {
+  return code && Object.hasOwn(languageNames, code) ? languageNames[code as ScriptLanguage] : "Unknown language";
+}
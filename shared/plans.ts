@@ -0,0 +1,22 @@
+// Plan catalog types shared between the /api/plans route and the pricing UI
+
+export type SubscriptionTier = "free" | "pro" | "premium" | "team";
+export type BillingInterval = "month" | "year";
+
+export interface PlanPrice {
+  priceId: string; // Stripe price ID
+  interval: BillingInterval;
+  amount: number; // in minor currency units (pence)
+  currency: string; // ISO 4217, lowercase as Stripe returns it
+}
+
+export interface Plan {
+  tier: SubscriptionTier;
+  name: string;
+  description: string;
+  prices: PlanPrice[];
+  features: string[]; // marketing copy shown on the pricing cards
+  entitlements: string[]; // feature keys unlocked by this tier
+  perSeat?: boolean; // price is per organization seat (subscription quantity)
+  popular?: boolean;
+}
@@ -0,0 +1,80 @@
+import type { SubscriptionTier } from "./plans";
+import { type EntitlementSubject, type Feature, FREE_TRIAL_MINUTES, entitlements } from "./entitlements";
+
+// Per-period allowances on top of the tier entitlements. A quota caps how much of a feature
+// the tier includes in each billing period (see billingPeriodContaining in usage.ts), and
+// resets when the next period starts. Features without a quota are unlimited for the tier.
+// Free users have no quotas: the lifetime trial in entitlements.ts limits them instead.
+// The AI token budget is the exception: it caps what the AI assistant costs per period for
+// every tier, trial included, on top of the request quota.
+
+export type QuotaUnit = "minutes" | "requests" | "tokens";
+
+export type QuotaLimits = Partial<Record<Feature, number>>;
+
+// How each feature's usage_logs rows are counted against its quota
+export const quotaUnits: Record<Feature, QuotaUnit> = {
+  teleprompter: "minutes",
+  voice_input: "minutes",
+  ai_assistant: "requests",
+  video_recording: "minutes",
+};
+
+// Defaults; the server can override them with QUOTA_LIMITS (see server/quotas.ts)
+export const defaultQuotaLimits: Record<SubscriptionTier, QuotaLimits> = {
+  free: {},
+  pro: { voice_input: 120 },
+  premium: { ai_assistant: 200, voice_input: 600 },
+  team: { ai_assistant: 500, voice_input: 1200 },
+};
+
+// Prompt plus completion tokens per billing period, counted from ai_usage_logs; null for no
+// budget. The server can override them with AI_TOKEN_BUDGETS (see server/quotas.ts).
+export const defaultAITokenBudgets: Record<SubscriptionTier, number | null> = {
+  free: 20_000,
+  pro: null, // no AI assistant
+  premium: 2_000_000,
+  team: 5_000_000,
+};
+
+export interface QuotaStatus {
+  feature: Feature;
+  unit: QuotaUnit;
+  limit: number;
+  used: number;
+  remaining: number;
+  periodStart: string | null; // ISO timestamps; both null for the free trial, which never resets
+  resetsAt: string | null;
+}
+
+// Usage of one feature in the period, in the feature's quota unit
+export function quotaUsed(feature: Feature, usage: { seconds: number; events: number }): number {
+  return quotaUnits[feature] === "minutes" ? Math.floor(usage.seconds / 60) : usage.events;
+}
+
+export function isQuotaExhausted(status: QuotaStatus): boolean {
+  return status.remaining <= 0;
+}
+
+// The free trial expressed as a quota, so 403s for free users carry the same allowance details
+export function trialQuotaStatus(subject: EntitlementSubject, feature: Feature): QuotaStatus | null {
+  if (subject.tier !== "free" || !entitlements[feature].trial) return null;
+  return {
+    feature,
+    unit: "minutes",
+    limit: FREE_TRIAL_MINUTES,
+    used: subject.usageMinutes,
+    remaining: Math.max(0, FREE_TRIAL_MINUTES - subject.usageMinutes),
+    periodStart: null,
+    resetsAt: null,
+  };
+}
+
+// Explains a quota rejection, in the form the API returns with a 429
+export function quotaExceededMessage(status: QuotaStatus): string {
+  const resetsOn = status.resetsAt
+    ? new Date(status.resetsAt).toLocaleDateString("en-GB", { day: "numeric", month: "long", timeZone: "UTC" })
+    : null;
+  return `You've used all ${status.limit.toLocaleString("en-US")} ${status.unit} of ${entitlements[status.feature].label} included in this billing period.` +
+    (resetsOn ? ` Your allowance resets on ${resetsOn}.` : "");
+}
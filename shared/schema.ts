@@ -9,9 +9,13 @@ import {
   timestamp,
   jsonb,
   index,
+  unique,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { scriptLanguages } from "./languages";
+import { scriptTones, unknownTemplateVariables } from "./scriptTemplates";
 
 // Session storage table for authentication
 export const sessions = pgTable(
@@ -36,10 +40,17 @@ export const users = pgTable("users", {
   subscriptionTier: varchar("subscription_tier").notNull().default("free"), // free, pro, premium
   subscriptionStatus: varchar("subscription_status").notNull().default("active"), // active, cancelled, past_due
   usageMinutes: integer("usage_minutes").notNull().default(0), // Track usage for free tier (60 min limit)
+  role: varchar("role").notNull().default("user"), // user, admin
+  complimentaryTier: varchar("complimentary_tier"), // granted by an admin on top of the paid tier
+  complimentaryTierExpiresAt: timestamp("complimentary_tier_expires_at"),
+  trialResetAt: timestamp("trial_reset_at"), // trial usage only counts from here on
+  billingCycleAnchor: timestamp("billing_cycle_anchor"), // from the Stripe subscription; monthly periods start on its day
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const userRoles = ["user", "admin"] as const;
+
 export const teleprompterSettings = pgTable("teleprompter_settings", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull(),
@@ -51,16 +62,120 @@ export const teleprompterSettings = pgTable("teleprompter_settings", {
   hideCursor: boolean("hide_cursor").notNull().default(true),
 });
 
-export const scripts = pgTable("scripts", {
+// Teams sharing a script library and a seat-based subscription
+export const organizations = pgTable("organizations", {
   id: serial("id").primaryKey(),
-  userId: text("user_id").notNull(),
-  title: text("title").notNull(),
-  content: text("content").notNull(),
-  scriptType: varchar("script_type"), // news, presentation, wedding, comedy, business, etc.
-  generatedByAi: boolean("generated_by_ai").notNull().default(false),
+  name: varchar("name").notNull(),
+  stripeCustomerId: varchar("stripe_customer_id"),
+  stripeSubscriptionId: varchar("stripe_subscription_id"),
+  subscriptionTier: varchar("subscription_tier").notNull().default("free"), // free, team
+  subscriptionStatus: varchar("subscription_status").notNull().default("active"),
+  seats: integer("seats").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const organizationRoles = ["owner", "editor", "presenter"] as const;
+
+export const organizationMembers = pgTable(
+  "organization_members",
+  {
+    id: serial("id").primaryKey(),
+    organizationId: integer("organization_id").notNull(),
+    userId: varchar("user_id").notNull(),
+    role: varchar("role").notNull().default("presenter"), // owner, editor, presenter
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [unique("UQ_organization_member").on(table.organizationId, table.userId)],
+);
+
+// Folders follow the same scoping as scripts: personal, or shared with a team
+export const scriptFolders = pgTable("script_folders", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  organizationId: integer("organization_id"), // set for team folders, null for personal ones
+  name: varchar("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const scripts = pgTable(
+  "scripts",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id").notNull(),
+    organizationId: integer("organization_id"), // set for team scripts, null for personal ones
+    folderId: integer("folder_id"), // null for unfiled scripts
+    title: text("title").notNull(),
+    content: text("content").notNull(),
+    scriptType: varchar("script_type"), // news, presentation, wedding, comedy, business, etc.
+    tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+    generatedByAi: boolean("generated_by_ai").notNull().default(false),
+    language: varchar("language"), // one of scriptLanguages; null when not known
+    translatedFromId: integer("translated_from_id"), // the original script, for translations
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    // Backs the full-text search in storage.searchScripts; the expression must match exactly
+    index("IDX_script_search").using(
+      "gin",
+      sql`to_tsvector('english', ${table.title} || ' ' || ${table.content})`,
+    ),
+    index("IDX_script_translated_from").on(table.translatedFromId),
+  ],
+);
+
+// User and team templates for the AI script assistant, next to the built-in ones in
+// shared/scriptTemplates.ts. Same scoping as folders: personal, or shared with a team.
+export const scriptTemplates = pgTable("script_templates", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  organizationId: integer("organization_id"), // set for team templates, null for personal ones
+  name: varchar("name").notNull(),
+  prompt: text("prompt").notNull(), // with {{topic}}, {{duration}}, {{audience}} and {{tone}} placeholders
+  defaultTone: varchar("default_tone"), // one of scriptTones; null to keep the form's tone
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const scriptRevisionSources = ["manual", "ai", "voice", "import", "restore"] as const;
+
+// Snapshot of a script taken on every save, so earlier versions can be diffed and restored
+export const scriptRevisions = pgTable(
+  "script_revisions",
+  {
+    id: serial("id").primaryKey(),
+    scriptId: integer("script_id").notNull(),
+    authorId: varchar("author_id").notNull(),
+    source: varchar("source").notNull().default("manual"), // manual, ai, voice, import, restore
+    title: text("title").notNull(),
+    content: text("content").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_script_revision_script").on(table.scriptId)],
+);
+
+export const scriptChatRoles = ["user", "assistant"] as const;
+export const scriptChatProposalStatuses = ["pending", "accepted", "rejected"] as const;
+
+// Co-writing conversations with the AI assistant, one per script and user. An assistant turn
+// can propose a new version of the script, which becomes a revision when it is accepted.
+export const scriptChatMessages = pgTable(
+  "script_chat_messages",
+  {
+    id: serial("id").primaryKey(),
+    scriptId: integer("script_id").notNull(),
+    userId: varchar("user_id").notNull(),
+    role: varchar("role").notNull(), // user, assistant
+    content: text("content").notNull(),
+    proposedContent: text("proposed_content"), // the whole script as the assistant rewrote it
+    baseContentHash: varchar("base_content_hash"), // SHA-256 of the script the proposal was made on
+    proposalStatus: varchar("proposal_status"), // pending, accepted, rejected; null without a proposal
+    revisionId: integer("revision_id"), // the revision an accepted proposal became
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_script_chat_script_user").on(table.scriptId, table.userId)],
+);
+
 // Usage tracking for subscription limits
 export const usageLogs = pgTable("usage_logs", {
   id: serial("id").primaryKey(),
@@ -70,6 +185,88 @@ export const usageLogs = pgTable("usage_logs", {
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+export const aiOperations = ["generate_script", "improve_script", "edit_selection", "translate_script", "script_chat"] as const;
+
+// One row per model call, with the tokens it used and what it cost us. Tokens are the
+// provider's count, or an estimate from the text length when it doesn't report one.
+export const aiUsageLogs = pgTable(
+  "ai_usage_logs",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull(),
+    operation: varchar("operation").notNull(), // one of aiOperations
+    provider: varchar("provider").notNull(), // LLM_PROVIDER, see server/llm.ts
+    model: varchar("model").notNull(),
+    promptTokens: integer("prompt_tokens").notNull(),
+    completionTokens: integer("completion_tokens").notNull(),
+    estimatedTokens: boolean("estimated_tokens").notNull().default(false),
+    costMicros: integer("cost_micros").notNull().default(0), // estimated cost in millionths of a US dollar
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_ai_usage_user_created").on(table.userId, table.createdAt)],
+);
+
+export const teleprompterSessionEndReasons = ["ended", "timeout", "limit"] as const;
+
+// Teleprompter sessions, timed by the server from client heartbeats. Closing a session
+// writes its active time to usage_logs, which is what trial limits are checked against.
+export const teleprompterSessions = pgTable(
+  "teleprompter_sessions",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull(),
+    startedAt: timestamp("started_at").notNull().defaultNow(),
+    lastHeartbeatAt: timestamp("last_heartbeat_at").notNull().defaultNow(),
+    activeSeconds: integer("active_seconds").notNull().default(0), // credited from heartbeats, with gaps capped
+    endedAt: timestamp("ended_at"),
+    endReason: varchar("end_reason"), // ended, timeout, limit
+  },
+  (table) => [
+    index("IDX_teleprompter_session_user").on(table.userId),
+    // The sweeper looks for open sessions that stopped sending heartbeats
+    index("IDX_teleprompter_session_open").on(table.lastHeartbeatAt).where(sql`${table.endedAt} IS NULL`),
+  ],
+);
+
+export const apiTokenScopes = ["scripts:read", "scripts:write", "settings"] as const;
+
+// Personal API tokens for scripted access; only a hash of the token is stored
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  name: varchar("name").notNull(),
+  tokenHash: varchar("token_hash").notNull().unique(), // SHA-256 of the token, hex
+  tokenPrefix: varchar("token_prefix").notNull(), // first characters, to tell tokens apart
+  scopes: text("scopes").array().notNull(), // scripts:read, scripts:write, settings
+  lastUsedAt: timestamp("last_used_at"),
+  expiresAt: timestamp("expires_at"), // null for tokens that don't expire
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const adminActions = ["grant_complimentary_tier", "revoke_complimentary_tier", "reset_trial", "set_role"] as const;
+
+// Audit trail of support actions taken from the admin console
+export const adminAuditLogs = pgTable(
+  "admin_audit_logs",
+  {
+    id: serial("id").primaryKey(),
+    adminId: varchar("admin_id").notNull(),
+    action: varchar("action").notNull(), // one of adminActions
+    targetUserId: varchar("target_user_id"),
+    details: jsonb("details"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_admin_audit_target").on(table.targetUserId)],
+);
+
+// Processed Stripe webhook events (for idempotent webhook handling)
+export const stripeEvents = pgTable("stripe_events", {
+  id: varchar("id").primaryKey(), // Stripe event ID (evt_...)
+  type: varchar("type").notNull(),
+  processedAt: timestamp("processed_at").defaultNow(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
@@ -80,16 +277,192 @@ export const insertTeleprompterSettingsSchema = createInsertSchema(teleprompterS
   id: true,
 });
 
-export const insertScriptSchema = createInsertSchema(scripts).omit({
+export const insertScriptSchema = createInsertSchema(scripts, {
+  // Tags are free-form but normalized so "Wedding" and " wedding" are the same tag
+  tags: z.array(z.string().trim().toLowerCase().min(1).max(40))
+    .max(20)
+    .transform((tags) => Array.from(new Set(tags)))
+    .optional(),
+  language: z.enum(scriptLanguages).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertScriptFolderSchema = createInsertSchema(scriptFolders, {
+  name: (schema) => schema.trim().min(1).max(100),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertScriptTemplateSchema = createInsertSchema(scriptTemplates, {
+  name: (schema) => schema.trim().min(1).max(100),
+  prompt: (schema) =>
+    schema
+      .trim()
+      .min(1)
+      .max(4000)
+      .refine((prompt) => unknownTemplateVariables(prompt).length === 0, (prompt) => ({
+        message: `Unknown template variables: ${unknownTemplateVariables(prompt).map((name) => `{{${name}}}`).join(", ")}`,
+      })),
+  defaultTone: z.enum(scriptTones).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const scriptSortOptions = ["updated", "created", "title", "relevance"] as const;
+
+// Query string of GET /api/scripts/search
+export const scriptSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  folderId: z.union([z.literal("none"), z.coerce.number().int()]).optional(), // "none" = unfiled
+  tag: z.string().trim().toLowerCase().optional(),
+  scriptType: z.string().optional(),
+  sort: z.enum(scriptSortOptions).default("updated"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const usageGroupings = ["day", "period"] as const;
+
+// Query string of GET /api/usage/summary
+export const usageSummaryQuerySchema = z.object({
+  groupBy: z.enum(usageGroupings).default("day"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  name: (schema) => schema.min(1).max(100),
+}).pick({
+  name: true,
+});
+
+export const insertOrganizationMemberSchema = createInsertSchema(organizationMembers, {
+  role: z.enum(organizationRoles),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertScriptRevisionSchema = createInsertSchema(scriptRevisions, {
+  source: z.enum(scriptRevisionSources),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertScriptChatMessageSchema = createInsertSchema(scriptChatMessages, {
+  role: z.enum(scriptChatRoles),
+  proposalStatus: z.enum(scriptChatProposalStatuses).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Body of POST /api/scripts/:id/chat
+export const scriptChatRequestSchema = z.object({
+  message: z.string().trim().min(1, "Say what to change").max(2000),
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens, {
+  scopes: z.array(z.enum(apiTokenScopes)).min(1),
+}).omit({
+  id: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+// Body of POST /api/tokens; the server generates the token itself
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1),
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(null), // null = never expires
+});
+
 export const insertUsageLogSchema = createInsertSchema(usageLogs).omit({
   id: true,
   timestamp: true,
 });
 
+export const insertAIUsageLogSchema = createInsertSchema(aiUsageLogs, {
+  operation: z.enum(aiOperations),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const aiUsageGroupings = ["user", "model", "operation"] as const;
+
+// Query string of GET /api/admin/ai-usage; defaults to the last 30 days
+export const aiUsageQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const insertAdminAuditLogSchema = createInsertSchema(adminAuditLogs, {
+  action: z.enum(adminActions),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Query string of GET /api/admin/users
+export const adminUserSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+// Optional reason recorded in the audit trail with an admin action
+export const adminNoteSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
+export const setUserRoleSchema = adminNoteSchema.extend({
+  role: z.enum(userRoles),
+});
+
+// Body of POST /api/admin/users/:id/complimentary-tier
+export const grantComplimentaryTierSchema = adminNoteSchema.extend({
+  tier: z.enum(["pro", "premium", "team"]),
+  expiresAt: z.coerce.date().refine((date) => date > new Date(), "Expiry must be in the future"),
+});
+
+export const scriptEditOperations = ["shorten", "expand", "simplify", "conversational", "fix_tongue_twisters"] as const;
+
+// Body of POST /api/edit-script-selection: the AI rewrites content[selectionStart, selectionEnd)
+export const scriptEditSchema = z
+  .object({
+    content: z.string().min(1).max(100_000),
+    selectionStart: z.number().int().min(0),
+    selectionEnd: z.number().int().min(0),
+    operation: z.enum(scriptEditOperations),
+    targetSeconds: z.number().int().min(5).max(3600).optional(), // how long the passage should take to read, for "shorten"
+  })
+  .refine((edit) => edit.selectionStart < edit.selectionEnd && edit.selectionEnd <= edit.content.length, {
+    message: "Select some text in the script",
+    path: ["selectionEnd"],
+  })
+  .refine((edit) => edit.content.slice(edit.selectionStart, edit.selectionEnd).trim().length > 0, {
+    message: "The selection is only whitespace",
+    path: ["selectionEnd"],
+  })
+  .refine((edit) => edit.operation !== "shorten" || edit.targetSeconds !== undefined, {
+    message: "Say how many seconds the passage should take",
+    path: ["targetSeconds"],
+  });
+
+// Body of POST /api/scripts/:id/translate
+export const translateScriptSchema = z.object({
+  language: z.enum(scriptLanguages),
+});
+
 // Upsert schema for users (for authentication)
 export const upsertUserSchema = insertUserSchema.extend({
   id: z.string(),
@@ -103,5 +476,40 @@ export type TeleprompterSettings = typeof teleprompterSettings.$inferSelect;
 export type InsertTeleprompterSettings = z.infer<typeof insertTeleprompterSettingsSchema>;
 export type Script = typeof scripts.$inferSelect;
 export type InsertScript = z.infer<typeof insertScriptSchema>;
+export type ScriptFolder = typeof scriptFolders.$inferSelect;
+export type InsertScriptFolder = z.infer<typeof insertScriptFolderSchema>;
+export type ScriptTemplate = typeof scriptTemplates.$inferSelect;
+export type InsertScriptTemplate = z.infer<typeof insertScriptTemplateSchema>;
+export type ScriptSearchQuery = z.infer<typeof scriptSearchSchema>;
+export type ScriptSort = (typeof scriptSortOptions)[number];
+export type ScriptRevision = typeof scriptRevisions.$inferSelect;
+export type InsertScriptRevision = z.infer<typeof insertScriptRevisionSchema>;
+export type ScriptRevisionSource = (typeof scriptRevisionSources)[number];
+export type ScriptChatMessage = typeof scriptChatMessages.$inferSelect;
+export type InsertScriptChatMessage = z.infer<typeof insertScriptChatMessageSchema>;
+export type ScriptChatProposalStatus = (typeof scriptChatProposalStatuses)[number];
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type OrganizationRole = (typeof organizationRoles)[number];
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type InsertOrganizationMember = z.infer<typeof insertOrganizationMemberSchema>;
 export type UsageLog = typeof usageLogs.$inferSelect;
 export type InsertUsageLog = z.infer<typeof insertUsageLogSchema>;
+export type AIUsageLog = typeof aiUsageLogs.$inferSelect;
+export type InsertAIUsageLog = z.infer<typeof insertAIUsageLogSchema>;
+export type AIOperation = (typeof aiOperations)[number];
+export type AIUsageGrouping = (typeof aiUsageGroupings)[number];
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiTokenScope = (typeof apiTokenScopes)[number];
+export type UserRole = (typeof userRoles)[number];
+export type TeleprompterSession = typeof teleprompterSessions.$inferSelect;
+export type TeleprompterSessionEndReason = (typeof teleprompterSessionEndReasons)[number];
+export type AdminAuditLog = typeof adminAuditLogs.$inferSelect;
+export type InsertAdminAuditLog = z.infer<typeof insertAdminAuditLogSchema>;
+export type AdminAction = (typeof adminActions)[number];
+export type AdminUserSearchQuery = z.infer<typeof adminUserSearchSchema>;
+export type UsageGrouping = (typeof usageGroupings)[number];
+export type ScriptEditOperation = (typeof scriptEditOperations)[number];
+export type ScriptEditRequest = z.infer<typeof scriptEditSchema>;
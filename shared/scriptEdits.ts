@@ -0,0 +1,58 @@
+import { diffSentences } from "./diff";
+import type { ScriptEditOperation } from "./schema";
+
+// An AI edit of a selection is offered as hunks: runs of changed sentences the user
+// accepts or rejects one by one. Offsets point into the script the edit was made on.
+
+export interface EditHunk {
+  id: number;
+  start: number; // inclusive
+  end: number; // exclusive; equal to start for a pure insertion
+  before: string;
+  after: string;
+}
+
+// Response of POST /api/edit-script-selection
+export interface ScriptEditResult {
+  operation: ScriptEditOperation;
+  selectionStart: number;
+  selectionEnd: number;
+  replacement: string; // the whole rewritten selection
+  hunks: EditHunk[];
+}
+
+export function buildEditHunks(content: string, selectionStart: number, selectionEnd: number, replacement: string): EditHunk[] {
+  const parts = diffSentences(content.slice(selectionStart, selectionEnd), replacement);
+  const hunks: EditHunk[] = [];
+  let offset = selectionStart;
+  let hunk: EditHunk | null = null;
+
+  for (const part of parts) {
+    const text = part.lines.join("");
+    if (part.type === "equal") {
+      hunk = null;
+      offset += text.length;
+      continue;
+    }
+    if (!hunk) {
+      hunk = { id: hunks.length, start: offset, end: offset, before: "", after: "" };
+      hunks.push(hunk);
+    }
+    if (part.type === "delete") {
+      hunk.before += text;
+      hunk.end += text.length;
+      offset += text.length;
+    } else {
+      hunk.after += text;
+    }
+  }
+  return hunks;
+}
+
+// Applies the accepted hunks, last first so earlier offsets stay valid
+export function applyEditHunks(content: string, hunks: EditHunk[], accepted: ReadonlySet<number>): string {
+  return hunks
+    .filter((hunk) => accepted.has(hunk.id))
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, hunk) => text.slice(0, hunk.start) + hunk.after + text.slice(hunk.end), content);
+}
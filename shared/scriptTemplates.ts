@@ -0,0 +1,96 @@
+// Script templates are the prompts behind the AI script assistant's script types. The built-in
+// ones below ship with the app; users and teams add their own (stored in script_templates).
+// A template's prompt refers to the generator form with {{variable}} placeholders.
+
+export const templateVariables = ["topic", "duration", "audience", "tone"] as const;
+
+export type TemplateVariable = (typeof templateVariables)[number];
+
+export const scriptTones = ["professional", "friendly", "formal", "casual", "inspirational", "humorous"] as const;
+
+export type ScriptTone = (typeof scriptTones)[number];
+
+export const toneLabels: Record<ScriptTone, string> = {
+  professional: "Professional",
+  friendly: "Friendly",
+  formal: "Formal",
+  casual: "Casual",
+  inspirational: "Inspirational",
+  humorous: "Humorous",
+};
+
+export interface BuiltInScriptTemplate {
+  scriptType: string; // stored on the scripts generated from it
+  name: string;
+  prompt: string;
+  defaultTone: ScriptTone;
+}
+
+export const builtInScriptTemplates: BuiltInScriptTemplate[] = [
+  {
+    scriptType: "news",
+    name: "News Report",
+    prompt: 'Write a {{duration}}-minute news script about "{{topic}}". Use a {{tone}} tone suitable for {{audience}}. Structure it with a compelling lead, key facts, quotes if relevant, and a strong conclusion. Make it broadcast-ready with clear, concise sentences.',
+    defaultTone: "professional",
+  },
+  {
+    scriptType: "presentation",
+    name: "Business Presentation",
+    prompt: 'Create a {{duration}}-minute presentation script on "{{topic}}" for {{audience}}. Use a {{tone}} tone. Structure it with an engaging opening, main points with supporting details, and a memorable conclusion. Include natural transition phrases and speaker cues.',
+    defaultTone: "professional",
+  },
+  {
+    scriptType: "keynote",
+    name: "Keynote Speech",
+    prompt: 'Write an inspiring {{duration}}-minute keynote speech about "{{topic}}" for {{audience}}. Use a {{tone}} yet motivational tone. Include personal anecdotes, compelling statistics, actionable insights, and a powerful call-to-action.',
+    defaultTone: "inspirational",
+  },
+  {
+    scriptType: "wedding",
+    name: "Wedding Speech",
+    prompt: 'Create a heartfelt {{duration}}-minute wedding speech about "{{topic}}". Use a {{tone}} and warm tone. Include personal stories, meaningful advice, and well-wishes. Make it emotional yet appropriate for all guests.',
+    defaultTone: "friendly",
+  },
+  {
+    scriptType: "comedy",
+    name: "Comedy Set",
+    prompt: 'Write a funny {{duration}}-minute comedy script about "{{topic}}". Use a {{tone}} comedic style suitable for {{audience}}. Include setup-punchline structures, callbacks, and observational humor. Ensure it\'s clean and engaging.',
+    defaultTone: "humorous",
+  },
+  {
+    scriptType: "business",
+    name: "Business Address",
+    prompt: 'Create a professional {{duration}}-minute business address about "{{topic}}" for {{audience}}. Use a {{tone}} tone. Focus on clear objectives, data-driven points, strategic insights, and actionable next steps.',
+    defaultTone: "professional",
+  },
+  {
+    scriptType: "awards",
+    name: "Awards Ceremony",
+    prompt: 'Write a gracious {{duration}}-minute awards ceremony speech about "{{topic}}". Use a {{tone}} and appreciative tone. Include acknowledgments, personal reflections, and inspiring messages for {{audience}}.',
+    defaultTone: "formal",
+  },
+];
+
+// Used for script types without a template
+export const fallbackTemplatePrompt =
+  'Create a {{duration}}-minute speech script about "{{topic}}" for {{audience}}. Use a {{tone}} tone and make it engaging and well-structured.';
+
+export function builtInScriptTemplate(scriptType: string): BuiltInScriptTemplate | undefined {
+  return builtInScriptTemplates.find((template) => template.scriptType === scriptType);
+}
+
+const placeholderPattern = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+// Placeholders in a prompt that the generator cannot fill in
+export function unknownTemplateVariables(prompt: string): string[] {
+  const unknown = Array.from(prompt.matchAll(placeholderPattern))
+    .map((match) => match[1])
+    .filter((name) => !(templateVariables as readonly string[]).includes(name));
+  return Array.from(new Set(unknown));
+}
+
+export function renderTemplatePrompt(prompt: string, values: Record<TemplateVariable, string | number>): string {
+  return prompt.replace(placeholderPattern, (placeholder, name: string) =>
+    Object.hasOwn(values, name) ? String(values[name as TemplateVariable]) : placeholder,
+  );
+}
@@ -0,0 +1,104 @@
+import type { UsageGrouping, User } from "./schema";
+
+// Usage summaries group usage_logs by UTC day or by monthly billing period. Billing periods
+// follow Stripe: they start on the anchor's day of the month, clamped to shorter months.
+
+export interface FeatureUsage {
+  seconds: number;
+  events: number;
+}
+
+export interface UsageBucket {
+  start: string; // ISO date, inclusive
+  end: string; // ISO date, exclusive
+  features: Record<string, FeatureUsage>;
+}
+
+// Response of GET /api/usage/summary
+export interface UsageSummary {
+  groupBy: UsageGrouping;
+  from: string;
+  to: string;
+  features: string[];
+  totals: Record<string, FeatureUsage>;
+  buckets: UsageBucket[];
+  currentPeriod: { start: string; end: string };
+}
+
+export interface BillingPeriod {
+  start: Date;
+  end: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function addUtcDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// The anchor moved by whole months, keeping its day of the month where the month allows it
+function addMonths(anchor: Date, months: number): Date {
+  const year = anchor.getUTCFullYear();
+  const month = anchor.getUTCMonth() + months;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(
+    year,
+    month,
+    Math.min(anchor.getUTCDate(), daysInMonth),
+    anchor.getUTCHours(),
+    anchor.getUTCMinutes(),
+    anchor.getUTCSeconds(),
+  ));
+}
+
+export function billingPeriodContaining(anchor: Date, at: Date): BillingPeriod {
+  let months = (at.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + (at.getUTCMonth() - anchor.getUTCMonth());
+  if (addMonths(anchor, months) > at) months--;
+  return { start: addMonths(anchor, months), end: addMonths(anchor, months + 1) };
+}
+
+// Periods run from the Stripe billing cycle anchor, or from the signup date for users who
+// have never subscribed
+export function usageAnchor(user: Pick<User, "billingCycleAnchor" | "createdAt">, now: Date = new Date()): Date {
+  return startOfUtcDay(user.billingCycleAnchor ?? user.createdAt ?? now);
+}
+
+// Consecutive periods covering [from, to]
+export function billingPeriodsBetween(anchor: Date, from: Date, to: Date): BillingPeriod[] {
+  const periods: BillingPeriod[] = [];
+  for (let period = billingPeriodContaining(anchor, from); period.start <= to; period = billingPeriodContaining(anchor, period.end)) {
+    periods.push(period);
+  }
+  return periods;
+}
+
+// Spreads per-day usage rows over the buckets, filling in zeros so every bucket lists every feature
+export function bucketUsage(
+  rows: { day: string; feature: string; seconds: number; events: number }[],
+  ranges: BillingPeriod[],
+  features: string[],
+): { buckets: UsageBucket[]; totals: Record<string, FeatureUsage> } {
+  const empty = () => Object.fromEntries(features.map((feature) => [feature, { seconds: 0, events: 0 }]));
+  const totals: Record<string, FeatureUsage> = empty();
+  const buckets: UsageBucket[] = ranges.map((range) => ({
+    start: range.start.toISOString(),
+    end: range.end.toISOString(),
+    features: empty(),
+  }));
+
+  for (const row of rows) {
+    const day = new Date(`${row.day}T00:00:00Z`);
+    const index = ranges.findIndex((range) => range.start <= day && day < range.end);
+    if (index === -1) continue;
+    for (const usage of [buckets[index].features[row.feature], totals[row.feature]]) {
+      if (!usage) continue;
+      usage.seconds += row.seconds;
+      usage.events += row.events;
+    }
+  }
+  return { buckets, totals };
+}